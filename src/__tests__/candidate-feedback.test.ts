@@ -0,0 +1,195 @@
+import { fakePrisma, rowsOf, seed } from './helpers/fake-prisma';
+import { authHeader } from './helpers/auth';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './helpers/server';
+import { mirrorRawSql } from './helpers/pglite';
+import candidatesRouter from '../routes/candidates';
+import { candidateFeedbackService } from '../services/candidate-feedback.service';
+import { MAX_TAGS } from '../lib/validations/candidate';
+
+const OWNER = 'user_owner';
+const OTHER = 'user_other';
+const TEAMMATE = 'user_teammate';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let pglite: Awaited<ReturnType<typeof mirrorRawSql>>;
+
+async function request(method: string, path: string, body?: unknown, userId = OWNER) {
+  const response = await fetch(`${server.url}/api/candidates${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...authHeader(userId) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json().catch(() => null)) as any };
+}
+
+const candidate = (id: string) => rowsOf('candidate').find((c) => c.id === id)!;
+const sourcingCandidate = (id: string) => rowsOf('linkedInCandidate').find((c) => c.id === id)!;
+
+before(async () => {
+  server = await startTestServer((app) => {
+    app.use('/api/candidates', candidatesRouter);
+  });
+
+  const tagColumns = { tags: "text[] NOT NULL DEFAULT '{}'", updatedAt: 'timestamptz' };
+  pglite = await mirrorRawSql([
+    { model: 'candidate', table: 'candidates', columns: tagColumns },
+    { model: 'linkedInCandidate', table: 'LinkedInCandidate', columns: tagColumns },
+  ]);
+});
+
+after(async () => {
+  await server.close();
+  await pglite.close();
+});
+
+beforeEach(() => {
+  fakePrisma.$reset();
+
+  seed('job', { id: 'job_1', userId: OWNER, title: 'Backend Engineer' });
+  seed('sourcingJob', { id: 'sourcing_1', userId: OWNER, title: 'Data Engineer' });
+  seed('candidate', { id: 'c1', jobId: 'job_1', name: 'Priya', tags: ['remote', 'senior'] });
+  seed('linkedInCandidate', { id: 'l1', sourcingJobId: 'sourcing_1', fullName: 'Jonas', tags: [] });
+});
+
+describe('CandidateFeedbackService tags', () => {
+  it('merges added tags once each, keeping the order they were first seen', async () => {
+    const result = await candidateFeedbackService.addTags('screening', 'c1', [
+      'urgent',
+      'remote',
+      'python',
+    ]);
+
+    assert.deepEqual(result?.tags, ['remote', 'senior', 'urgent', 'python']);
+    assert.deepEqual(candidate('c1').tags, ['remote', 'senior', 'urgent', 'python']);
+  });
+
+  it('writes sourcing candidates to their own table', async () => {
+    const result = await candidateFeedbackService.addTags('sourcing', 'l1', ['python']);
+
+    assert.deepEqual(result?.tags, ['python']);
+    assert.deepEqual(sourcingCandidate('l1').tags, ['python']);
+    assert.deepEqual(candidate('c1').tags, ['remote', 'senior']);
+  });
+
+  it(`returns null and keeps the tags when the merge would exceed ${MAX_TAGS}`, async () => {
+    const full = Array.from({ length: MAX_TAGS - 1 }, (_, i) => `tag-${i}`);
+    candidate('c1').tags = full;
+
+    assert.equal(await candidateFeedbackService.addTags('screening', 'c1', ['new-1', 'new-2']), null);
+    assert.deepEqual(candidate('c1').tags, full);
+
+    // Tags already present don't count twice toward the cap
+    const result = await candidateFeedbackService.addTags('screening', 'c1', ['tag-0', 'new-1']);
+    assert.equal(result?.tags.length, MAX_TAGS);
+  });
+
+  it('removes a tag and keeps the others in order', async () => {
+    candidate('c1').tags = ['remote', 'senior', 'python'];
+
+    const result = await candidateFeedbackService.removeTag('screening', 'c1', 'senior');
+
+    assert.deepEqual(result?.tags, ['remote', 'python']);
+  });
+});
+
+describe('candidate tag routes', () => {
+  it('normalizes and adds tags', async () => {
+    const { status, body } = await request('POST', '/screening/c1/tags', {
+      tags: [' Python ', 'REMOTE'],
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.tags, ['remote', 'senior', 'python']);
+  });
+
+  it('answers 400 at the tag cap', async () => {
+    candidate('c1').tags = Array.from({ length: MAX_TAGS }, (_, i) => `tag-${i}`);
+
+    const { status, body } = await request('POST', '/screening/c1/tags', { tags: ['one-more'] });
+
+    assert.equal(status, 400);
+    assert.match(body.error, new RegExp(`at most ${MAX_TAGS} tags`));
+    assert.equal(candidate('c1').tags.length, MAX_TAGS);
+  });
+
+  it('removes a tag, and answers 404 for one the candidate does not have', async () => {
+    const missing = await request('DELETE', '/sourcing/l1/tags/python');
+    assert.equal(missing.status, 404);
+
+    const { status, body } = await request('DELETE', '/screening/c1/tags/Remote');
+    assert.equal(status, 200);
+    assert.deepEqual(body.tags, ['senior']);
+  });
+
+  it("hides other users' candidates", async () => {
+    const { status } = await request('POST', '/screening/c1/tags', { tags: ['mine'] }, OTHER);
+
+    assert.equal(status, 404);
+    assert.deepEqual(candidate('c1').tags, ['remote', 'senior']);
+  });
+
+  it('rejects unknown candidate types', async () => {
+    const { status } = await request('POST', '/contractor/c1/tags', { tags: ['x'] });
+    assert.equal(status, 400);
+  });
+});
+
+describe('candidate note routes', () => {
+  it('attaches a reply to a reply to the top-level note', async () => {
+    const note = await request('POST', '/screening/c1/notes', { body: 'Strong on Postgres' });
+    assert.equal(note.status, 201);
+    assert.equal(note.body.note.parentId, null);
+
+    const reply = await request('POST', '/screening/c1/notes', {
+      body: 'Agreed',
+      parentId: note.body.note.id,
+    });
+    assert.equal(reply.body.note.parentId, note.body.note.id);
+
+    const nested = await request('POST', '/screening/c1/notes', {
+      body: 'Same here',
+      parentId: reply.body.note.id,
+    });
+    assert.equal(nested.status, 201);
+    assert.equal(nested.body.note.parentId, note.body.note.id);
+  });
+
+  it("does not reply to another candidate's note", async () => {
+    seed('candidateNote', { id: 'note_l1', authorId: OWNER, linkedInCandidateId: 'l1', body: 'x' });
+
+    const { status } = await request('POST', '/screening/c1/notes', {
+      body: 'Wrong thread',
+      parentId: 'note_l1',
+    });
+
+    assert.equal(status, 404);
+  });
+
+  it('lets only the author edit or delete a note', async () => {
+    seed(
+      'candidateNote',
+      { id: 'note_own', authorId: OWNER, candidateId: 'c1', parentId: null, body: 'Mine' },
+      { id: 'note_team', authorId: TEAMMATE, candidateId: 'c1', parentId: null, body: 'Theirs' }
+    );
+
+    const editOther = await request('PATCH', '/screening/c1/notes/note_team', { body: 'Edited' });
+    assert.equal(editOther.status, 403);
+
+    const deleteOther = await request('DELETE', '/screening/c1/notes/note_team');
+    assert.equal(deleteOther.status, 403);
+
+    const editOwn = await request('PATCH', '/screening/c1/notes/note_own', { body: 'Edited' });
+    assert.equal(editOwn.status, 200);
+    assert.equal(editOwn.body.note.body, 'Edited');
+
+    const deleteOwn = await request('DELETE', '/screening/c1/notes/note_own');
+    assert.equal(deleteOwn.status, 200);
+
+    assert.deepEqual(
+      rowsOf('candidateNote').map((n) => [n.id, n.body]),
+      [['note_team', 'Theirs']]
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sourcingCandidateListQuerySchema } from '../lib/validations/sourcing';
+import {
+  buildCandidateListWhere,
+  buildCandidatePage,
+  encodeCandidateCursor,
+  decodeCandidateCursor,
+} from '../lib/sourcing/candidate-list';
+
+describe('sourcingCandidateListQuerySchema', () => {
+  it('applies defaults', () => {
+    const query = sourcingCandidateListQuerySchema.parse({});
+
+    assert.deepEqual(query.sort, [{ field: 'matchScore', direction: 'desc' }]);
+    assert.equal(query.limit, undefined);
+    assert.equal(query.excludeDuplicates, false);
+  });
+
+  it('parses lists, booleans and sort entries', () => {
+    const query = sourcingCandidateListQuerySchema.parse({
+      seniority: 'senior, LEAD',
+      openToWork: 'true',
+      hasContactInfo: 'false',
+      skills: 'React, ,k8s',
+      sort: 'experienceYears:asc,fullName',
+      minScore: '70',
+    });
+
+    assert.deepEqual(query.seniority, ['Senior', 'Lead']);
+    assert.equal(query.openToWork, true);
+    assert.equal(query.hasContactInfo, false);
+    assert.deepEqual(query.skills, ['React', 'k8s']);
+    assert.equal(query.minScore, 70);
+    assert.deepEqual(query.sort, [
+      { field: 'experienceYears', direction: 'asc' },
+      { field: 'fullName', direction: 'desc' },
+    ]);
+  });
+
+  it('rejects unknown values', () => {
+    for (const input of [
+      { sort: 'email:desc' },
+      { sort: 'matchScore:up' },
+      { seniority: 'Intern' },
+      { openToWork: 'yes' },
+      { limit: '500' },
+    ]) {
+      assert.equal(sourcingCandidateListQuerySchema.safeParse(input).success, false, JSON.stringify(input));
+    }
+  });
+});
+
+describe('buildCandidateListWhere', () => {
+  it('only lists scored candidates of the job when nothing is filtered', () => {
+    const where = buildCandidateListWhere('job_1', sourcingCandidateListQuerySchema.parse({}));
+
+    assert.deepEqual(where, { sourcingJobId: 'job_1', isScored: true });
+  });
+
+  it('maps every filter to its column', () => {
+    const query = sourcingCandidateListQuerySchema.parse({
+      minScore: '60',
+      seniority: 'Senior',
+      openToWork: 'true',
+      hasContactInfo: 'true',
+      interviewReadiness: 'READY_TO_INTERVIEW',
+      location: 'Berlin',
+      excludeDuplicates: 'true',
+      skills: 'k8s,ReactJS',
+    });
+
+    assert.deepEqual(buildCandidateListWhere('job_1', query), {
+      sourcingJobId: 'job_1',
+      isScored: true,
+      matchScore: { gte: 60 },
+      seniorityLevel: { in: ['Senior'] },
+      isOpenToWork: true,
+      hasContactInfo: true,
+      interviewReadiness: { in: ['READY_TO_INTERVIEW'] },
+      location: { contains: 'Berlin', mode: 'insensitive' },
+      isDuplicate: false,
+      // Canonical names, as stored in matchedSkills
+      AND: [
+        { matchedSkills: { array_contains: ['Kubernetes'] } },
+        { matchedSkills: { array_contains: ['React'] } },
+      ],
+    });
+  });
+});
+
+// -------------------------
+// KEYSET PAGINATION
+// -------------------------
+
+type Row = { id: string; experienceYears: number | null; matchScore: number };
+
+/**
+ * Evaluate the subset of Prisma's where syntax the list builds
+ */
+function matches(row: Record<string, any>, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return condition.every((w: any) => matches(row, w));
+    if (key === 'OR') return condition.some((w: any) => matches(row, w));
+
+    const value = row[key];
+    if (condition === null || typeof condition !== 'object') return value === condition;
+    if ('gt' in condition) return value !== null && value > condition.gt;
+    if ('lt' in condition) return value !== null && value < condition.lt;
+    if ('gte' in condition) return value !== null && value >= condition.gte;
+    return true;
+  });
+}
+
+/**
+ * Sort like buildCandidateOrderBy: nulls last in either direction, then id
+ */
+function sortRows(rows: Row[], orderBy: Array<Record<string, any>>) {
+  return [...rows].sort((a, b) => {
+    for (const entry of orderBy) {
+      const [field, spec] = Object.entries(entry)[0];
+      const direction = typeof spec === 'string' ? spec : spec.sort;
+      const x = (a as any)[field];
+      const y = (b as any)[field];
+
+      if (x === y) continue;
+      if (x === null) return 1;
+      if (y === null) return -1;
+      return (x < y ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+    }
+    return 0;
+  });
+}
+
+function paginate(rows: Row[], sortParam: string, limit?: number) {
+  const query = sourcingCandidateListQuerySchema.parse({
+    sort: sortParam,
+    ...(limit !== undefined && { limit: String(limit) }),
+  });
+  const inJob = (where: Record<string, any>) =>
+    rows.filter((r) => matches({ ...r, sourcingJobId: 'job_1', isScored: true }, where));
+  const seen: string[] = [];
+  const totals: number[] = [];
+  let pages = 0;
+  let cursor: string | null = null;
+  let orderBy: Array<Record<string, any>> = [];
+
+  do {
+    const decoded = cursor ? decodeCandidateCursor(cursor, query.sort) : null;
+    const page = buildCandidatePage('job_1', query, decoded);
+    orderBy = page.orderBy;
+
+    const fetched = sortRows(inJob(page.where), orderBy);
+    const shown = page.limit !== null ? fetched.slice(0, page.limit) : fetched;
+
+    pages++;
+    seen.push(...shown.map((r) => r.id));
+    totals.push(inJob(page.countWhere).length);
+    cursor =
+      shown.length < fetched.length
+        ? encodeCandidateCursor(shown[shown.length - 1], query.sort)
+        : null;
+  } while (cursor);
+
+  return { seen, totals, pages, expected: sortRows(rows, orderBy).map((r) => r.id) };
+}
+
+describe('candidate list cursor', () => {
+  const rows: Row[] = [
+    { id: 'a', experienceYears: 5, matchScore: 80 },
+    { id: 'b', experienceYears: null, matchScore: 90 },
+    { id: 'c', experienceYears: 5, matchScore: 70 },
+    { id: 'd', experienceYears: null, matchScore: 80 },
+    { id: 'e', experienceYears: 2, matchScore: 80 },
+    { id: 'f', experienceYears: 9, matchScore: 60 },
+    { id: 'g', experienceYears: null, matchScore: 80 },
+  ];
+
+  for (const sort of [
+    'experienceYears:desc',
+    'experienceYears:asc',
+    'matchScore:desc,experienceYears:asc',
+    'experienceYears:desc,matchScore:asc',
+  ]) {
+    it(`visits every row once across pages with nulls (${sort})`, () => {
+      for (const limit of [1, 2, 3]) {
+        const { seen, expected } = paginate(rows, sort, limit);
+        assert.deepEqual(seen, expected, `limit ${limit}`);
+      }
+    });
+  }
+
+  it('reports the same total on every page', () => {
+    const { totals, pages } = paginate(rows, 'matchScore:desc', 2);
+
+    assert.equal(pages, 4);
+    assert.deepEqual(totals, [7, 7, 7, 7]);
+  });
+
+  it('returns every row in one page when neither limit nor cursor is given', () => {
+    const { seen, expected, pages } = paginate(rows, 'experienceYears:desc');
+
+    assert.equal(pages, 1);
+    assert.deepEqual(seen, expected);
+  });
+
+  it('pages by the default size when only a cursor is given', () => {
+    const query = sourcingCandidateListQuerySchema.parse({});
+    const page = buildCandidatePage('job_1', query, { values: [80], id: 'a' });
+
+    assert.equal(page.limit, 50);
+  });
+
+  it('rejects cursors made for another sort or tampered with', () => {
+    const [sortA, sortB] = ['matchScore:desc', 'matchScore:desc,fullName:asc'].map(
+      (sort) => sourcingCandidateListQuerySchema.parse({ sort }).sort
+    );
+    const cursor = encodeCandidateCursor({ id: 'a', matchScore: 80 }, sortA);
+
+    assert.deepEqual(decodeCandidateCursor(cursor, sortA), { values: [80], id: 'a' });
+    assert.equal(decodeCandidateCursor(cursor, sortB), null);
+    assert.equal(decodeCandidateCursor('not-a-cursor', sortA), null);
+  });
+});
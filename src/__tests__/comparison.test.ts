@@ -0,0 +1,320 @@
+import { fakePrisma, rowsOf, seed } from './helpers/fake-prisma';
+import { authHeader } from './helpers/auth';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './helpers/server';
+import jobByIdRouter from '../routes/jobById';
+import sourcingByIdRouter from '../routes/sourcingById';
+import { buildComparison, ComparisonEntry } from '../lib/scoring/comparison';
+import { setModelInterceptor } from '../lib/ai/models';
+import { createRecordedModel } from '../lib/ai/stand-in';
+
+const OWNER = 'user_owner';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let modelCalls = 0;
+
+async function request(path: string, body: unknown) {
+  const response = await fetch(`${server.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeader(OWNER) },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json().catch(() => null)) as any };
+}
+
+function entry(overrides: Partial<ComparisonEntry> & { id: string }): ComparisonEntry {
+  return {
+    name: overrides.id,
+    headline: null,
+    matchScore: null,
+    verdict: null,
+    summary: null,
+    experienceYears: null,
+    scores: {},
+    matchedSkills: [],
+    missingSkills: [],
+    bonusSkills: [],
+    strengths: [],
+    redFlags: [],
+    gapsAndTradeoffs: null,
+    experience: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Answer every model call with a recommendation for candidate B
+ */
+function recommendSecondCandidate() {
+  setModelInterceptor(() => {
+    modelCalls++;
+    return createRecordedModel(
+      JSON.stringify({
+        summary: 'B has the stronger backend record.',
+        recommended: 'B',
+        ranking: [
+          { candidate: 'B', rationale: 'Deeper Go experience' },
+          { candidate: 'A', rationale: 'Solid, but lacks Kubernetes' },
+        ],
+        tradeoffs: [],
+        interviewFocus: ['On-call experience'],
+      })
+    );
+  });
+}
+
+function failModelCalls() {
+  setModelInterceptor(() => {
+    modelCalls++;
+    throw new Error('Provider unavailable');
+  });
+}
+
+before(async () => {
+  server = await startTestServer((app) => {
+    app.use('/api/jobs/:jobId', jobByIdRouter);
+    app.use('/api/sourcing/:jobId', sourcingByIdRouter);
+  });
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  fakePrisma.$reset();
+  modelCalls = 0;
+
+  seed('job', {
+    id: 'job_1',
+    userId: OWNER,
+    title: 'Backend Engineer',
+    description: 'Build Go services',
+    requiredSkills: ['Go'],
+    experienceRequired: '5+ years',
+  });
+  seed(
+    'candidate',
+    ...['c1', 'c2'].map((id, i) => ({
+      id,
+      jobId: 'job_1',
+      name: `Candidate ${i + 1}`,
+      matchScore: 70 + i * 10,
+      scoreBreakdown: {},
+      experience: [],
+      matchedSkills: ['Go'],
+      missingSkills: [],
+      strengths: [],
+      weaknesses: [],
+    }))
+  );
+
+  seed('sourcingJob', {
+    id: 'sourcing_1',
+    userId: OWNER,
+    title: 'Data Engineer',
+    rawJobDescription: 'Build data pipelines',
+  });
+  seed(
+    'linkedInCandidate',
+    ...['l1', 'l2'].map((id, i) => ({
+      id,
+      sourcingJobId: 'sourcing_1',
+      fullName: `Sourced ${i + 1}`,
+      isScored: true,
+      matchScore: 60 + i * 10,
+      experience: [],
+    }))
+  );
+});
+
+afterEach(() => setModelInterceptor(null));
+
+describe('buildComparison', () => {
+  const dimensions = [
+    { key: 'matchScore', label: 'Overall match' },
+    { key: 'skillsScore', label: 'Skills' },
+    { key: 'titleScore', label: 'Title' },
+  ];
+
+  const entries = [
+    entry({
+      id: 'a',
+      matchScore: 80,
+      scores: { matchScore: 80, skillsScore: 70, titleScore: null },
+      matchedSkills: ['Go', 'Postgres'],
+      missingSkills: ['Kubernetes'],
+      bonusSkills: ['Rust', 'TypeScript'],
+      gapsAndTradeoffs: { gaps: ['No Kubernetes'] },
+    }),
+    entry({
+      id: 'b',
+      matchScore: 80,
+      scores: { matchScore: 80, skillsScore: 64.26, titleScore: null },
+      matchedSkills: ['go', 'Kubernetes'],
+      missingSkills: ['Postgres'],
+      bonusSkills: ['typescript'],
+    }),
+    entry({
+      id: 'c',
+      scores: { matchScore: null, skillsScore: null, titleScore: null },
+      matchedSkills: ['TYPESCRIPT'],
+      bonusSkills: ['rust', 'AWS'],
+      gapsAndTradeoffs: { gaps: ['Junior'] },
+    }),
+  ];
+
+  it('aligns scores with every leader on a tie and the spread between present values', () => {
+    const { scores, candidates } = buildComparison(entries, dimensions);
+
+    assert.deepEqual(scores, [
+      {
+        dimension: 'matchScore',
+        label: 'Overall match',
+        values: [80, 80, null],
+        leaderIds: ['a', 'b'],
+        spread: 0,
+      },
+      {
+        dimension: 'skillsScore',
+        label: 'Skills',
+        values: [70, 64.26, null],
+        leaderIds: ['a'],
+        spread: 5.7,
+      },
+      {
+        dimension: 'titleScore',
+        label: 'Title',
+        values: [null, null, null],
+        leaderIds: [],
+        spread: 0,
+      },
+    ]);
+
+    assert.deepEqual(
+      candidates.map((c) => [c.id, c.rank]),
+      [
+        ['a', 1],
+        ['b', 2],
+        ['c', null],
+      ]
+    );
+  });
+
+  it('takes the union of skills case-insensitively with one status per candidate', () => {
+    const { skills } = buildComparison(entries, dimensions);
+
+    assert.deepEqual(
+      skills.map((s) => [s.skill, s.required, s.status, s.coveredBy]),
+      [
+        // Required skills that separate candidates, most covered first
+        ['Go', true, ['matched', 'matched', null], 2],
+        ['Kubernetes', true, ['missing', 'matched', null], 1],
+        ['Postgres', true, ['matched', 'missing', null], 1],
+        // Required by someone and covered by all
+        ['TypeScript', true, ['bonus', 'bonus', 'matched'], 3],
+        ['Rust', false, ['bonus', null, 'bonus'], 2],
+        ['AWS', false, [null, null, 'bonus'], 1],
+      ]
+    );
+  });
+
+  it('keeps gaps and other per-candidate lists in candidate order', () => {
+    const { gapsAndTradeoffs, redFlags } = buildComparison(entries, dimensions);
+
+    assert.deepEqual(gapsAndTradeoffs, [{ gaps: ['No Kubernetes'] }, null, { gaps: ['Junior'] }]);
+    assert.deepEqual(redFlags, [[], [], []]);
+  });
+});
+
+describe('POST /api/jobs/:jobId/compare', () => {
+  const compare = () =>
+    request('/api/jobs/job_1/compare', { candidateIds: ['c1', 'c2'], recommendation: true });
+
+  it('charges one screening credit once the recommendation is generated', async () => {
+    seed('userCredits', { id: 'uc_1', userId: OWNER, sourcingCredits: 0, screeningCredits: 5 });
+    recommendSecondCandidate();
+
+    const { status, body } = await compare();
+
+    assert.equal(status, 200);
+    assert.equal(body.recommendation.recommendedCandidateId, 'c2');
+    assert.equal(rowsOf('userCredits')[0].screeningCredits, 4);
+    assert.equal(rowsOf('creditTransaction').length, 1);
+    assert.equal(rowsOf('creditTransaction')[0].referenceId, 'job_1');
+  });
+
+  it('charges nothing when the model call fails', async () => {
+    seed('userCredits', { id: 'uc_1', userId: OWNER, sourcingCredits: 0, screeningCredits: 5 });
+    failModelCalls();
+
+    const { status, body } = await compare();
+
+    assert.equal(status, 200);
+    assert.equal(body.recommendation, null);
+    assert.match(body.recommendationError, /Failed to generate/);
+    assert.equal(body.candidates.length, 2);
+    assert.equal(rowsOf('userCredits')[0].screeningCredits, 5);
+    assert.equal(rowsOf('creditTransaction').length, 0);
+  });
+
+  it('skips the model and charges nothing when the balance is short', async () => {
+    seed('userCredits', { id: 'uc_1', userId: OWNER, sourcingCredits: 5, screeningCredits: 0 });
+    recommendSecondCandidate();
+
+    const { status, body } = await compare();
+
+    assert.equal(status, 200);
+    assert.equal(body.recommendation, null);
+    assert.match(body.recommendationError, /you have 0 available/);
+    assert.equal(modelCalls, 0);
+    assert.equal(rowsOf('userCredits')[0].screeningCredits, 0);
+    assert.equal(rowsOf('creditTransaction').length, 0);
+  });
+});
+
+describe('POST /api/sourcing/:jobId/compare', () => {
+  const compare = () =>
+    request('/api/sourcing/sourcing_1/compare', {
+      candidateIds: ['l1', 'l2'],
+      recommendation: true,
+    });
+
+  it('charges one sourcing credit once the recommendation is generated', async () => {
+    seed('userCredits', { id: 'uc_1', userId: OWNER, sourcingCredits: 3, screeningCredits: 0 });
+    recommendSecondCandidate();
+
+    const { status, body } = await compare();
+
+    assert.equal(status, 200);
+    assert.equal(body.recommendation.recommendedCandidateId, 'l2');
+    assert.equal(rowsOf('userCredits')[0].sourcingCredits, 2);
+    assert.equal(rowsOf('creditTransaction').length, 1);
+  });
+
+  it('charges nothing when the model call fails', async () => {
+    seed('userCredits', { id: 'uc_1', userId: OWNER, sourcingCredits: 3, screeningCredits: 0 });
+    failModelCalls();
+
+    const { status, body } = await compare();
+
+    assert.equal(status, 200);
+    assert.equal(body.recommendation, null);
+    assert.match(body.recommendationError, /Failed to generate/);
+    assert.equal(rowsOf('userCredits')[0].sourcingCredits, 3);
+    assert.equal(rowsOf('creditTransaction').length, 0);
+  });
+
+  it('skips the model and charges nothing when the balance is short', async () => {
+    seed('userCredits', { id: 'uc_1', userId: OWNER, sourcingCredits: 0, screeningCredits: 5 });
+    recommendSecondCandidate();
+
+    const { status, body } = await compare();
+
+    assert.equal(status, 200);
+    assert.equal(body.recommendation, null);
+    assert.match(body.recommendationError, /you have 0 available/);
+    assert.equal(modelCalls, 0);
+    assert.equal(rowsOf('userCredits')[0].sourcingCredits, 0);
+    assert.equal(rowsOf('creditTransaction').length, 0);
+  });
+});
@@ -0,0 +1,193 @@
+import { fakePrisma, rowsOf, seed } from './helpers/fake-prisma';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CreditService } from '../services/credit.service';
+
+const creditService = new CreditService();
+const USER = 'user_credits';
+
+function seedCredits(sourcingCredits: number, screeningCredits: number) {
+  seed('userCredits', { id: 'uc_1', userId: USER, sourcingCredits, screeningCredits });
+}
+
+/**
+ * Every ledger row's balanceAfter must equal the running balance of its category
+ */
+function assertLedgerConsistent(category: 'SOURCING' | 'SCREENING', startingBalance: number) {
+  let balance = startingBalance;
+
+  for (const tx of rowsOf('creditTransaction').filter((t) => t.category === category)) {
+    balance += tx.amount;
+    assert.equal(tx.balanceAfter, balance, `balanceAfter of ${tx.type} ${tx.amount}`);
+  }
+
+  return balance;
+}
+
+describe('CreditService', () => {
+  beforeEach(() => fakePrisma.$reset());
+
+  describe('deductCredits', () => {
+    it('debits the balance and logs a negative ledger entry', async () => {
+      seedCredits(10, 5);
+
+      await creditService.deductCredits(USER, 'SOURCING', 3, 'job_1', 'SOURCING_JOB');
+
+      const [credits] = rowsOf('userCredits');
+      assert.equal(credits.sourcingCredits, 7);
+      assert.equal(credits.screeningCredits, 5);
+
+      const [tx] = rowsOf('creditTransaction');
+      assert.equal(tx.type, 'DEBIT');
+      assert.equal(tx.amount, -3);
+      assert.equal(tx.balanceAfter, 7);
+      assert.equal(tx.referenceId, 'job_1');
+    });
+
+    it('never lets a balance go negative', async () => {
+      seedCredits(2, 0);
+
+      await assert.rejects(
+        creditService.deductCredits(USER, 'SOURCING', 3),
+        /Insufficient sourcing credits/
+      );
+      await assert.rejects(
+        creditService.deductCredits(USER, 'SCREENING', 1),
+        /Insufficient screening credits/
+      );
+
+      const [credits] = rowsOf('userCredits');
+      assert.equal(credits.sourcingCredits, 2);
+      assert.equal(credits.screeningCredits, 0);
+      assert.equal(rowsOf('creditTransaction').length, 0);
+    });
+
+    it('allows spending the exact remaining balance', async () => {
+      seedCredits(4, 0);
+
+      await creditService.deductCredits(USER, 'SOURCING', 4);
+
+      assert.equal(rowsOf('userCredits')[0].sourcingCredits, 0);
+      await assert.rejects(creditService.deductCredits(USER, 'SOURCING', 1));
+    });
+
+    it('fails when the user has no credits record', async () => {
+      await assert.rejects(
+        creditService.deductCredits(USER, 'SOURCING', 1),
+        /User credits not initialized/
+      );
+      assert.equal(rowsOf('creditTransaction').length, 0);
+    });
+  });
+
+  describe('refundCredits', () => {
+    it('restores the balance and logs a positive ledger entry', async () => {
+      seedCredits(10, 0);
+
+      await creditService.deductCredits(USER, 'SOURCING', 6, 'job_1');
+      await creditService.refundCredits(USER, 'SOURCING', 2, 'job_1');
+
+      assert.equal(rowsOf('userCredits')[0].sourcingCredits, 6);
+
+      const refund = rowsOf('creditTransaction').find((t) => t.type === 'REFUND');
+      assert.equal(refund?.amount, 2);
+      assert.equal(refund?.balanceAfter, 6);
+    });
+
+    it('fails when the user has no credits record', async () => {
+      await assert.rejects(creditService.refundCredits(USER, 'SOURCING', 1), /User credits not found/);
+    });
+  });
+
+  describe('ledger consistency', () => {
+    it('replays the ledger to the stored balance after mixed debits and refunds', async () => {
+      seedCredits(20, 8);
+
+      await creditService.deductCredits(USER, 'SOURCING', 5, 'job_1');
+      await creditService.deductCredits(USER, 'SCREENING', 3, 'job_2');
+      await creditService.refundCredits(USER, 'SOURCING', 2, 'job_1');
+      await creditService.deductCredits(USER, 'SOURCING', 7, 'job_3');
+      await assert.rejects(creditService.deductCredits(USER, 'SOURCING', 100, 'job_4'));
+      await creditService.refundCredits(USER, 'SCREENING', 3, 'job_2');
+
+      const [credits] = rowsOf('userCredits');
+      assert.equal(assertLedgerConsistent('SOURCING', 20), credits.sourcingCredits);
+      assert.equal(assertLedgerConsistent('SCREENING', 8), credits.screeningCredits);
+      assert.equal(credits.sourcingCredits, 10);
+      assert.equal(credits.screeningCredits, 8);
+
+      // The failed debit left no trace
+      assert.ok(!rowsOf('creditTransaction').some((t) => t.referenceId === 'job_4'));
+    });
+  });
+
+  describe('getNetChargedForReference', () => {
+    it('is debits minus refunds for the reference and never below zero', async () => {
+      seedCredits(20, 0);
+
+      await creditService.deductCredits(USER, 'SOURCING', 10, 'job_1');
+      await creditService.deductCredits(USER, 'SOURCING', 4, 'job_other');
+      assert.equal(await creditService.getNetChargedForReference(USER, 'SOURCING', 'job_1'), 10);
+
+      await creditService.refundCredits(USER, 'SOURCING', 4, 'job_1');
+      assert.equal(await creditService.getNetChargedForReference(USER, 'SOURCING', 'job_1'), 6);
+
+      await creditService.refundCredits(USER, 'SOURCING', 9, 'job_1');
+      assert.equal(await creditService.getNetChargedForReference(USER, 'SOURCING', 'job_1'), 0);
+
+      assert.equal(await creditService.getNetChargedForReference(USER, 'SCREENING', 'job_1'), 0);
+      assert.equal(await creditService.getNetChargedForReference('nobody', 'SOURCING', 'job_1'), 0);
+    });
+  });
+
+  describe('initializeUserCredits', () => {
+    it('grants plan credits once and logs them', async () => {
+      seed('plan', { id: 'plan_pro', sourcingCredits: 50, screeningCredits: 200 });
+
+      await creditService.initializeUserCredits(USER, 'plan_pro');
+      await creditService.deductCredits(USER, 'SOURCING', 5);
+      await creditService.initializeUserCredits(USER, 'plan_pro');
+
+      assert.equal(rowsOf('userCredits').length, 1);
+      assert.equal(rowsOf('userCredits')[0].sourcingCredits, 45);
+      assert.equal(rowsOf('creditTransaction').filter((t) => t.type === 'CREDIT').length, 2);
+      assert.equal(assertLedgerConsistent('SOURCING', 0), 45);
+    });
+  });
+
+  describe('resetCredits', () => {
+    it('requires an active subscription', async () => {
+      seedCredits(1, 1);
+      seed('subscription', {
+        userId: USER,
+        status: 'CANCELLED',
+        plan: { sourcingCredits: 50, screeningCredits: 200 },
+      });
+
+      await assert.rejects(creditService.resetCredits(USER), /not active/);
+      assert.equal(rowsOf('userCredits')[0].sourcingCredits, 1);
+    });
+
+    it('resets both balances to the plan and logs RESET entries', async () => {
+      seedCredits(3, 0);
+      seed('subscription', {
+        userId: USER,
+        status: 'ACTIVE',
+        plan: { sourcingCredits: 50, screeningCredits: 200 },
+      });
+
+      await creditService.resetCredits(USER);
+
+      const [credits] = rowsOf('userCredits');
+      assert.equal(credits.sourcingCredits, 50);
+      assert.equal(credits.screeningCredits, 200);
+      assert.deepEqual(
+        rowsOf('creditTransaction').map((t) => [t.type, t.category, t.balanceAfter]),
+        [
+          ['RESET', 'SOURCING', 50],
+          ['RESET', 'SCREENING', 200],
+        ]
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { fakePrisma, rowsOf } from './helpers/fake-prisma';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cosineSimilarity } from 'ai';
+import { EmbeddingSubject } from '@prisma/client';
+import {
+  createHashEmbeddingProvider,
+  setEmbeddingProvider,
+  EmbeddingProvider,
+} from '../lib/embeddings/providers';
+import { embeddingService } from '../services/embedding.service';
+
+const USER = 'user_1';
+
+/**
+ * Hash provider that counts how many texts it was asked to embed
+ */
+function countingProvider(id?: string) {
+  const inner = createHashEmbeddingProvider();
+  const provider: EmbeddingProvider & { calls: number } = {
+    id: id || inner.id,
+    dimensions: inner.dimensions,
+    calls: 0,
+    async embed(texts) {
+      provider.calls += texts.length;
+      return inner.embed(texts);
+    },
+  };
+  return provider;
+}
+
+describe('hash embedding provider', () => {
+  const provider = createHashEmbeddingProvider();
+
+  it('is deterministic and unit length', async () => {
+    const [a] = await provider.embed(['Senior Node.js engineer building APIs']);
+    const [b] = await provider.embed(['Senior Node.js engineer building APIs']);
+
+    assert.deepEqual(a, b);
+    assert.equal(a.length, provider.dimensions);
+    assert.ok(Math.abs(Math.hypot(...a) - 1) < 1e-9);
+  });
+
+  it('returns a zero vector for empty text', async () => {
+    const [vector] = await provider.embed(['']);
+    assert.ok(vector.every((v) => v === 0));
+  });
+
+  it('ranks related profiles above unrelated ones', async () => {
+    const [job, backend, designer] = await provider.embed([
+      'Backend engineer: Node.js, PostgreSQL, REST APIs',
+      'Built REST APIs in nodejs on top of postgres for a payments company',
+      'Brand designer creating illustrations and marketing visuals in Figma',
+    ]);
+
+    assert.ok(cosineSimilarity(job, backend) > cosineSimilarity(job, designer));
+  });
+});
+
+describe('ensureEmbeddings', () => {
+  beforeEach(() => fakePrisma.$reset());
+  afterEach(() => setEmbeddingProvider(null));
+
+  const subjects = [
+    { type: EmbeddingSubject.CANDIDATE, id: 'c1', text: 'Go developer, Kubernetes' },
+    { type: EmbeddingSubject.LINKEDIN_CANDIDATE, id: 'l1', text: 'Data engineer, Spark' },
+    { type: EmbeddingSubject.JOB, id: 'j1', text: '' },
+  ];
+
+  it('stores vectors and skips subjects without text', async () => {
+    const provider = countingProvider();
+    setEmbeddingProvider(provider);
+
+    const { vectors, computed } = await embeddingService.ensureEmbeddings(USER, subjects);
+
+    assert.equal(computed, 2);
+    assert.equal(provider.calls, 2);
+    assert.equal(vectors.size, 2);
+    assert.equal(rowsOf('embedding').length, 2);
+    assert.equal(rowsOf('embedding')[0].model, provider.id);
+  });
+
+  it('reuses stored vectors until the text changes', async () => {
+    const provider = countingProvider();
+    setEmbeddingProvider(provider);
+
+    await embeddingService.ensureEmbeddings(USER, subjects);
+    const again = await embeddingService.ensureEmbeddings(USER, subjects);
+
+    assert.equal(again.computed, 0);
+    assert.equal(again.vectors.size, 2);
+
+    const edited = await embeddingService.ensureEmbeddings(USER, [
+      { ...subjects[0], text: 'Go developer, Kubernetes, Terraform' },
+      subjects[1],
+    ]);
+
+    assert.equal(edited.computed, 1);
+    assert.equal(provider.calls, 3);
+    assert.equal(rowsOf('embedding').length, 2);
+  });
+
+  it('recomputes vectors made by another model', async () => {
+    setEmbeddingProvider(countingProvider('hash:old'));
+    await embeddingService.ensureEmbeddings(USER, subjects);
+
+    const provider = countingProvider();
+    setEmbeddingProvider(provider);
+    const { computed } = await embeddingService.ensureEmbeddings(USER, subjects);
+
+    assert.equal(computed, 2);
+    assert.ok(rowsOf('embedding').every((row) => row.model === provider.id));
+  });
+});
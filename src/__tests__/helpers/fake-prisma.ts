@@ -0,0 +1,330 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+
+// -------------------------
+// IN-MEMORY PRISMA
+// Importing this module installs the fake as the shared client, so it must be
+// imported before anything that imports lib/prisma
+// -------------------------
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+
+// Schema defaults that code reads back before ever writing them
+const COLUMN_DEFAULTS: Record<string, Row> = {
+  linkedInCandidate: {
+    hasContactInfo: false,
+    isScored: false,
+    isDuplicate: false,
+    matchScore: 0,
+    tags: [],
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function sameValue(a: unknown, b: unknown) {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return (a ?? null) === (b ?? null);
+}
+
+export type RawSqlHandler = (query: Prisma.Sql) => Promise<{ rows: Row[]; affectedRows: number }>;
+
+// Runs $queryRaw/$executeRaw statements (see helpers/pglite); unset, raw SQL fails the test
+let rawSqlHandler: RawSqlHandler | null = null;
+
+export function setRawSqlHandler(handler: RawSqlHandler | null) {
+  rawSqlHandler = handler;
+}
+
+async function runRawSql(query: Prisma.Sql | TemplateStringsArray, values: unknown[]) {
+  if (!rawSqlHandler) throw new Error('Raw SQL needs a handler, see helpers/pglite');
+
+  // Called either as a tagged template or with a Prisma.sql query
+  const sql = Array.isArray(query)
+    ? Prisma.sql(query as TemplateStringsArray, ...values)
+    : (query as Prisma.Sql);
+
+  return rawSqlHandler(sql);
+}
+
+// Resolves a relation filter (e.g. { job: { userId } }) to the related row; set by createFakePrisma
+let relatedRow: (model: string, id: unknown) => Row | undefined = () => undefined;
+
+const OPERATORS = new Set(['equals', 'in', 'not', 'gt', 'gte', 'lt', 'lte', 'has', 'hasEvery']);
+
+function matchesOperators(value: unknown, condition: Record<string, any>): boolean {
+  const fold = (v: unknown) =>
+    condition.mode === 'insensitive' && typeof v === 'string' ? v.toLowerCase() : v;
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'equals':
+        return sameValue(fold(value), fold(operand));
+      case 'in':
+        return operand.some((v: unknown) => sameValue(value, v));
+      case 'not':
+        return isPlainObject(operand) ? !matchesOperators(value, operand) : !sameValue(value, operand);
+      case 'gt':
+        return value !== null && value !== undefined && (value as any) > operand;
+      case 'gte':
+        return value !== null && value !== undefined && (value as any) >= operand;
+      case 'lt':
+        return value !== null && value !== undefined && (value as any) < operand;
+      case 'lte':
+        return value !== null && value !== undefined && (value as any) <= operand;
+      case 'has':
+        return Array.isArray(value) && value.includes(operand);
+      case 'hasEvery':
+        return Array.isArray(value) && operand.every((v: unknown) => value.includes(v));
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Supports equality, AND/OR, the operators above, relation filters through the
+ * `<relation>Id` column and compound unique keys
+ * (e.g. { sourcingJobId_profileUrl: { sourcingJobId, profileUrl } })
+ */
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition === undefined) return true;
+    if (field === 'AND') return condition.every((w: Where) => matches(row, w));
+    if (field === 'OR') return condition.some((w: Where) => matches(row, w));
+
+    if (isPlainObject(condition)) {
+      if (Object.keys(condition).some((key) => OPERATORS.has(key))) {
+        return matchesOperators(row[field], condition);
+      }
+
+      if (!(field in row)) {
+        if (`${field}Id` in row) {
+          const related = relatedRow(field, row[`${field}Id`]);
+          return !!related && matches(related, condition);
+        }
+
+        return matches(row, condition);
+      }
+    }
+
+    return sameValue(row[field], condition);
+  });
+}
+
+/**
+ * Assign update data, applying { increment } and { decrement }
+ */
+function applyData(row: Row, data: Row) {
+  for (const [field, value] of Object.entries(data)) {
+    if (isPlainObject(value) && 'increment' in value) {
+      row[field] = (row[field] ?? 0) + value.increment;
+    } else if (isPlainObject(value) && 'decrement' in value) {
+      row[field] = (row[field] ?? 0) - value.decrement;
+    } else {
+      row[field] = value;
+    }
+  }
+}
+
+/**
+ * Sort like Prisma's orderBy, nulls last
+ */
+function sortRows(rows: Row[], orderBy?: Row | Row[]) {
+  if (!orderBy) return rows;
+
+  const keys = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap((o) => Object.entries(o));
+
+  return [...rows].sort((a, b) => {
+    for (const [field, spec] of keys) {
+      const direction = typeof spec === 'string' ? spec : (spec as Row).sort;
+      const [x, y] = [a[field] ?? null, b[field] ?? null];
+
+      if (sameValue(x, y)) continue;
+      if (x === null) return 1;
+      if (y === null) return -1;
+      return (x < y ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+    }
+    return 0;
+  });
+}
+
+class FakeTable {
+  rows: Row[] = [];
+
+  constructor(private readonly name: string) {}
+
+  private notFound(): never {
+    const error: any = new Error(`No ${this.name} record found`);
+    error.code = 'P2025';
+    throw error;
+  }
+
+  async findUnique({ where }: { where: Where }) {
+    const row = this.rows.find((r) => matches(r, where));
+    return row ? { ...row } : null;
+  }
+
+  async findFirst({ where }: { where?: Where } = {}) {
+    return this.findUnique({ where: where || {} });
+  }
+
+  async findMany({
+    where,
+    orderBy,
+    take,
+    skip,
+  }: { where?: Where; orderBy?: Row | Row[]; take?: number; skip?: number } = {}) {
+    const rows = sortRows(this.rows.filter((r) => matches(r, where)), orderBy).map((r) => ({ ...r }));
+    return rows.slice(skip || 0, take !== undefined ? (skip || 0) + take : undefined);
+  }
+
+  async groupBy({ by, where, _count }: { by: string[]; where?: Where; _count?: { _all: true } }) {
+    const groups = new Map<string, Row[]>();
+
+    for (const row of this.rows.filter((r) => matches(r, where))) {
+      const key = JSON.stringify(by.map((field) => row[field] ?? null));
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+
+    return [...groups.values()].map((rows) => ({
+      ...Object.fromEntries(by.map((field) => [field, rows[0][field] ?? null])),
+      ...(_count && { _count: { _all: rows.length } }),
+    }));
+  }
+
+  async count({ where }: { where?: Where } = {}) {
+    return this.rows.filter((r) => matches(r, where)).length;
+  }
+
+  async create({ data }: { data: Row }) {
+    const row = {
+      id: randomUUID(),
+      createdAt: new Date(),
+      ...structuredClone(COLUMN_DEFAULTS[this.name] ?? {}),
+      ...data,
+    };
+    this.rows.push(row);
+    return { ...row };
+  }
+
+  async createMany({ data }: { data: Row[] }) {
+    for (const row of data) await this.create({ data: row });
+    return { count: data.length };
+  }
+
+  async update({ where, data }: { where: Where; data: Row }) {
+    const row = this.rows.find((r) => matches(r, where));
+    if (!row) this.notFound();
+
+    applyData(row, data);
+    return { ...row };
+  }
+
+  async upsert({ where, create, update }: { where: Where; create: Row; update: Row }) {
+    const row = this.rows.find((r) => matches(r, where));
+    return row ? this.update({ where, data: update }) : this.create({ data: create });
+  }
+
+  async updateMany({ where, data }: { where?: Where; data: Row }) {
+    const rows = this.rows.filter((r) => matches(r, where));
+    rows.forEach((row) => applyData(row, data));
+    return { count: rows.length };
+  }
+
+  async delete({ where }: { where: Where }) {
+    const index = this.rows.findIndex((r) => matches(r, where));
+    if (index < 0) this.notFound();
+
+    return this.rows.splice(index, 1)[0];
+  }
+
+  async aggregate({ where, _sum = {} }: { where?: Where; _sum?: Record<string, boolean> }) {
+    const rows = this.rows.filter((r) => matches(r, where));
+
+    return {
+      _sum: Object.fromEntries(
+        Object.keys(_sum).map((field) => [
+          field,
+          rows.length > 0 ? rows.reduce((sum, r) => sum + (r[field] || 0), 0) : null,
+        ])
+      ),
+    };
+  }
+}
+
+export interface FakePrisma {
+  [model: string]: any;
+  $transaction: (arg: any) => Promise<any>;
+  $reset: () => void;
+  $table: (model: string) => FakeTable;
+}
+
+function createFakePrisma(): FakePrisma {
+  const tables = new Map<string, FakeTable>();
+
+  const table = (model: string) => {
+    if (!tables.has(model)) tables.set(model, new FakeTable(model));
+    return tables.get(model)!;
+  };
+
+  relatedRow = (model, id) => table(model).rows.find((r) => r.id === id);
+
+  const client: FakePrisma = new Proxy({} as FakePrisma, {
+    get(_target, property: string) {
+      if (property === '$reset') return () => tables.clear();
+      if (property === '$table') return table;
+      if (property === '$queryRaw') {
+        return async (query: any, ...values: unknown[]) => (await runRawSql(query, values)).rows;
+      }
+      if (property === '$executeRaw') {
+        return async (query: any, ...values: unknown[]) =>
+          (await runRawSql(query, values)).affectedRows;
+      }
+
+      // Interactive transactions roll back every table when the callback throws
+      if (property === '$transaction') {
+        return async (arg: any) => {
+          if (Array.isArray(arg)) return Promise.all(arg);
+
+          const snapshot = new Map(
+            [...tables].map(([name, t]) => [name, structuredClone(t.rows)])
+          );
+
+          try {
+            return await arg(client);
+          } catch (error) {
+            for (const [name, rows] of snapshot) table(name).rows = rows;
+            throw error;
+          }
+        };
+      }
+
+      if (typeof property !== 'string' || property.startsWith('$') || property === 'then') {
+        return undefined;
+      }
+
+      return table(property);
+    },
+  });
+
+  return client;
+}
+
+export const fakePrisma = createFakePrisma();
+
+(globalThis as any).prisma = fakePrisma;
+
+/**
+ * Insert rows directly, bypassing create() defaults
+ */
+export function seed(model: string, ...rows: Row[]) {
+  fakePrisma.$table(model).rows.push(...rows.map((row) => ({ ...row })));
+}
+
+export function rowsOf(model: string): Row[] {
+  return fakePrisma.$table(model).rows;
+}
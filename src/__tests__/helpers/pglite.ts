@@ -0,0 +1,60 @@
+import { PGlite } from '@electric-sql/pglite';
+import { rowsOf, setRawSqlHandler } from './fake-prisma';
+
+// -------------------------
+// RAW SQL ON PGLITE
+// Statements sent through $queryRaw/$executeRaw run on an in-process Postgres
+// over a copy of the fake rows, so their SQL is tested as written. Only the
+// listed columns are mirrored, and changes to them are copied back
+// -------------------------
+
+export interface MirroredTable {
+  model: string;
+  table: string;
+  // Column name → SQL type; "id" is always mirrored as the text primary key
+  columns: Record<string, string>;
+}
+
+const quote = (name: string) => `"${name}"`;
+
+export async function mirrorRawSql(tables: MirroredTable[]) {
+  const db = new PGlite();
+
+  for (const { table, columns } of tables) {
+    const definitions = Object.entries(columns).map(([name, type]) => `${quote(name)} ${type}`);
+    await db.exec(`CREATE TABLE ${quote(table)} ("id" text PRIMARY KEY, ${definitions.join(', ')})`);
+  }
+
+  setRawSqlHandler(async (query) => {
+    for (const { model, table, columns } of tables) {
+      const names = ['id', ...Object.keys(columns)];
+
+      await db.exec(`TRUNCATE ${quote(table)}`);
+      for (const row of rowsOf(model)) {
+        await db.query(
+          `INSERT INTO ${quote(table)} (${names.map(quote).join(', ')}) ` +
+            `VALUES (${names.map((_, i) => `$${i + 1}`).join(', ')})`,
+          names.map((name) => row[name] ?? null)
+        );
+      }
+    }
+
+    const result = await db.query<Record<string, any>>(query.text, query.values);
+
+    for (const { model, table } of tables) {
+      const { rows } = await db.query<Record<string, any>>(`SELECT * FROM ${quote(table)}`);
+      for (const mirrored of rows) {
+        Object.assign(rowsOf(model).find((row) => row.id === mirrored.id)!, mirrored);
+      }
+    }
+
+    return { rows: result.rows, affectedRows: result.affectedRows ?? 0 };
+  });
+
+  return {
+    close: async () => {
+      setRawSqlHandler(null);
+      await db.close();
+    },
+  };
+}
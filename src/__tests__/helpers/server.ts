@@ -0,0 +1,29 @@
+import express, { Application } from 'express';
+import type { AddressInfo } from 'net';
+import { errorHandler, notFound } from '../../middleware/errorHandler';
+
+// Storage clients check their config on import; routes never reach them in tests
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://127.0.0.1:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key';
+
+/**
+ * Serve routers on a random local port, mounted the way server.ts mounts them
+ */
+export async function startTestServer(mount: (app: Application) => void) {
+  const app = express();
+  app.use(express.json());
+  mount(app);
+  app.use(notFound);
+  app.use(errorHandler);
+
+  const server = await new Promise<ReturnType<Application['listen']>>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
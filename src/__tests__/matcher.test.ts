@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMatchScore, clampLlmAdjustment } from '../lib/ai/matcher';
+
+describe('calculateMatchScore', () => {
+  it('does not treat ordinary words in the resume as skills', () => {
+    const result = calculateMatchScore(
+      ['Excel'],
+      ['Go', 'REST APIs', 'C', 'Swift'],
+      5,
+      '3',
+      'Happy to go the extra mile with the rest of the team on Plan C; swift delivery.'
+    );
+
+    assert.deepEqual(result.matchedSkills, []);
+    assert.deepEqual(result.missingSkills, ['Go', 'REST APIs', 'C', 'Swift']);
+    assert.equal(result.skillScore, 0);
+    assert.equal(result.score, 30);
+  });
+
+  it('finds skills the extraction missed through unambiguous names and aliases', () => {
+    const result = calculateMatchScore(
+      [],
+      ['Go', 'React', 'Kubernetes', 'REST APIs'],
+      5,
+      '3',
+      'Built Golang services behind RESTful APIs with a React.js front end, deployed on k8s.'
+    );
+
+    assert.deepEqual(result.matchedSkills, ['Go', 'React', 'Kubernetes', 'REST APIs']);
+    assert.equal(result.score, 100);
+  });
+
+  it('still matches ambiguous skills from the extracted skill list', () => {
+    const result = calculateMatchScore(['golang', 'Swift', 'C'], ['Go', 'Swift', 'C'], 5, '3');
+
+    assert.deepEqual(result.missingSkills, []);
+  });
+
+  it('matches skills outside the taxonomy only with the casing the job uses', () => {
+    const prose = calculateMatchScore([], ['Excel'], 5, '3', 'I excel at stakeholder work.');
+    const named = calculateMatchScore([], ['Excel'], 5, '3', 'Advanced Excel modelling.');
+
+    assert.deepEqual(prose.matchedSkills, []);
+    assert.deepEqual(named.matchedSkills, ['Excel']);
+  });
+
+  it('lets a more specific candidate skill cover the required one by whole word', () => {
+    const result = calculateMatchScore(['Excel', 'React Hooks'], ['C', 'React'], 5, '3');
+
+    assert.deepEqual(result.matchedSkills, ['React']);
+    assert.deepEqual(result.missingSkills, ['C']);
+  });
+});
+
+describe('clampLlmAdjustment', () => {
+  it('clamps out-of-range and fractional adjustments instead of rejecting them', () => {
+    assert.equal(clampLlmAdjustment(16), 15);
+    assert.equal(clampLlmAdjustment(-40), -15);
+    assert.equal(clampLlmAdjustment(7.5), 8);
+    assert.equal(clampLlmAdjustment(-3), -3);
+  });
+
+  it('treats a missing adjustment as zero', () => {
+    assert.equal(clampLlmAdjustment(undefined), 0);
+    assert.equal(clampLlmAdjustment(null), 0);
+  });
+});
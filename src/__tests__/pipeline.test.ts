@@ -0,0 +1,285 @@
+import { fakePrisma, rowsOf, seed } from './helpers/fake-prisma';
+import { authHeader } from './helpers/auth';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './helpers/server';
+import pipelineRouter from '../routes/pipeline';
+import { pipelineService } from '../services/pipeline.service';
+
+const OWNER = 'user_owner';
+const OTHER = 'user_other';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+async function request(method: string, path: string, body?: unknown) {
+  const response = await fetch(`${server.url}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...authHeader(OWNER) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json().catch(() => null)) as any };
+}
+
+/**
+ * The owner's default stages, keyed by name
+ */
+async function stagesByName(userId = OWNER) {
+  const stages = await pipelineService.getStages(userId);
+  return Object.fromEntries(stages.map((s) => [s.name, s]));
+}
+
+function uniqueViolation() {
+  return Object.assign(new Error('Unique constraint failed on the fields: (`userId`,`name`)'), {
+    code: 'P2002',
+  });
+}
+
+before(async () => {
+  server = await startTestServer((app) => {
+    app.use('/api/pipeline', pipelineRouter);
+  });
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  fakePrisma.$reset();
+
+  seed('job', { id: 'job_1', userId: OWNER, title: 'Backend Engineer' });
+  seed('job', { id: 'job_other', userId: OTHER, title: 'Designer' });
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('PipelineService.reorderStages', () => {
+  it('pins stageless candidates to the old first stage before it moves', async () => {
+    const { New, Shortlisted } = await stagesByName();
+    seed(
+      'candidate',
+      { id: 'c_stageless', jobId: 'job_1', pipelineStageId: null },
+      { id: 'c_staged', jobId: 'job_1', pipelineStageId: Shortlisted.id },
+      { id: 'c_other_user', jobId: 'job_other', pipelineStageId: null }
+    );
+
+    const order = (await pipelineService.getStages(OWNER)).map((s) => s.id);
+    const reordered = await pipelineService.reorderStages(OWNER, [
+      Shortlisted.id,
+      ...order.filter((id) => id !== Shortlisted.id),
+    ]);
+
+    assert.deepEqual(
+      reordered!.slice(0, 2).map((s) => s.name),
+      ['Shortlisted', 'New']
+    );
+
+    const candidates = Object.fromEntries(rowsOf('candidate').map((c) => [c.id, c]));
+    assert.equal(candidates.c_stageless.pipelineStageId, New.id);
+    assert.equal(candidates.c_staged.pipelineStageId, Shortlisted.id);
+    // Another user's candidates follow that user's own first stage
+    assert.equal(candidates.c_other_user.pipelineStageId, null);
+  });
+
+  it('leaves stageless candidates alone when the first stage stays first', async () => {
+    const { Offer, Hired } = await stagesByName();
+    seed('candidate', { id: 'c_stageless', jobId: 'job_1', pipelineStageId: null });
+
+    const order = (await pipelineService.getStages(OWNER)).map((s) => s.id);
+    const swapped = order.map((id) => (id === Offer.id ? Hired.id : id === Hired.id ? Offer.id : id));
+
+    const reordered = await pipelineService.reorderStages(OWNER, swapped);
+
+    assert.deepEqual(
+      reordered!.map((s) => s.id),
+      swapped
+    );
+    assert.equal(rowsOf('candidate')[0].pipelineStageId, null);
+  });
+
+  it('rejects orders that do not list every stage exactly once', async () => {
+    const order = (await pipelineService.getStages(OWNER)).map((s) => s.id);
+
+    assert.equal(await pipelineService.reorderStages(OWNER, order.slice(1)), null);
+    assert.equal(await pipelineService.reorderStages(OWNER, [order[0], ...order.slice(0, -1)]), null);
+    assert.equal(await pipelineService.reorderStages(OWNER, [...order.slice(0, -1), 'unknown']), null);
+  });
+});
+
+describe('PipelineService.moveCandidates', () => {
+  async function ownedCandidates() {
+    const { Shortlisted } = await stagesByName();
+    seed(
+      'candidate',
+      { id: 'c_stageless', jobId: 'job_1', pipelineStageId: null },
+      { id: 'c_shortlisted', jobId: 'job_1', pipelineStageId: Shortlisted.id }
+    );
+
+    return pipelineService.getOwnedCandidates(OWNER, 'screening', ['c_stageless', 'c_shortlisted']);
+  }
+
+  it('treats stageless candidates as already in the first stage', async () => {
+    const { New, Shortlisted } = await stagesByName();
+    const candidates = await ownedCandidates();
+
+    const result = await pipelineService.moveCandidates(OWNER, 'screening', candidates, New);
+
+    assert.equal(result.moved, 1);
+    assert.equal(result.unchanged, 1);
+
+    const [change] = rowsOf('candidateStageChange');
+    assert.equal(rowsOf('candidateStageChange').length, 1);
+    assert.equal(change.candidateId, 'c_shortlisted');
+    assert.equal(change.fromStageId, Shortlisted.id);
+    assert.equal(change.toStageName, 'New');
+    assert.equal(change.jobId, 'job_1');
+  });
+
+  it('logs the first stage as the origin of a stageless candidate', async () => {
+    const { New, Shortlisted } = await stagesByName();
+    const candidates = await ownedCandidates();
+
+    const result = await pipelineService.moveCandidates(
+      OWNER,
+      'screening',
+      candidates,
+      Shortlisted,
+      'Strong systems design'
+    );
+
+    assert.equal(result.moved, 1);
+    assert.equal(result.unchanged, 1);
+
+    const [change] = rowsOf('candidateStageChange');
+    assert.equal(change.candidateId, 'c_stageless');
+    assert.equal(change.fromStageId, New.id);
+    assert.equal(change.fromStageName, 'New');
+    assert.equal(change.reason, 'Strong systems design');
+    assert.equal(rowsOf('candidate')[0].pipelineStageId, Shortlisted.id);
+  });
+
+  it('only returns candidates from the user\'s own jobs', async () => {
+    seed(
+      'candidate',
+      { id: 'c_stageless', jobId: 'job_1', pipelineStageId: null },
+      { id: 'c_other_user', jobId: 'job_other', pipelineStageId: null }
+    );
+
+    const owned = await pipelineService.getOwnedCandidates(OWNER, 'screening', [
+      'c_stageless',
+      'c_other_user',
+    ]);
+
+    assert.deepEqual(
+      owned.map((c) => c.id),
+      ['c_stageless']
+    );
+  });
+});
+
+describe('PipelineService.getFunnel', () => {
+  it('counts current and entered candidates per stage with conversion between open stages', async () => {
+    const stages = await stagesByName();
+    const move = (candidateId: string, stage: string) => ({
+      userId: OWNER,
+      candidateId,
+      linkedInCandidateId: null,
+      jobId: 'job_1',
+      toStageId: stages[stage].id,
+      toStageName: stage,
+    });
+
+    seed(
+      'candidate',
+      { id: 'c1', jobId: 'job_1', pipelineStageId: null },
+      { id: 'c2', jobId: 'job_1', pipelineStageId: stages.Shortlisted.id },
+      { id: 'c3', jobId: 'job_1', pipelineStageId: stages.Interviewing.id },
+      { id: 'c4', jobId: 'job_1', pipelineStageId: stages.Rejected.id },
+      { id: 'c_other_job', jobId: 'job_other', pipelineStageId: null }
+    );
+    seed(
+      'candidateStageChange',
+      move('c2', 'Shortlisted'),
+      // Re-entering a stage counts once
+      move('c2', 'Shortlisted'),
+      move('c3', 'Shortlisted'),
+      move('c3', 'Contacted'),
+      move('c3', 'Interviewing'),
+      move('c4', 'Shortlisted'),
+      move('c4', 'Rejected')
+    );
+
+    const { totals, stages: funnel } = await pipelineService.getFunnel(OWNER, { jobId: 'job_1' });
+    const byName = Object.fromEntries(funnel.map((s) => [s.name, s]));
+
+    assert.deepEqual(totals, { candidates: 4, hired: 0, rejected: 1, inProgress: 3 });
+
+    assert.deepEqual(
+      funnel.map((s) => [s.name, s.current, s.entered]),
+      [
+        ['New', 1, 4],
+        ['Shortlisted', 1, 3],
+        ['Contacted', 0, 1],
+        ['Interviewing', 1, 1],
+        ['Offer', 0, 0],
+        ['Hired', 0, 0],
+        ['Rejected', 1, 1],
+      ]
+    );
+
+    assert.equal(byName.New.conversionFromPrevious, null);
+    assert.equal(byName.Shortlisted.conversionFromPrevious, 0.75);
+    assert.equal(byName.Contacted.conversionFromPrevious, 0.333);
+    assert.equal(byName.Interviewing.conversionFromPrevious, 1);
+    assert.equal(byName.Offer.conversionFromPrevious, 0);
+    // Nobody reached Offer, so Hired has nothing to convert from
+    assert.equal(byName.Hired.conversionFromPrevious, 0);
+    assert.equal(byName.Rejected.conversionFromPrevious, null);
+  });
+});
+
+describe('pipeline stage routes', () => {
+  it('rejects a stage name that differs only in case', async () => {
+    await pipelineService.getStages(OWNER);
+
+    const { status, body } = await request('POST', '/api/pipeline/stages', { name: 'shortlisted' });
+
+    assert.equal(status, 409);
+    assert.match(body.error, /already exists/);
+  });
+
+  it('answers 409 when a concurrent create wins the unique index', async () => {
+    mock.method(pipelineService, 'createStage', async () => {
+      throw uniqueViolation();
+    });
+
+    const { status, body } = await request('POST', '/api/pipeline/stages', { name: 'Phone screen' });
+
+    assert.equal(status, 409);
+    assert.match(body.error, /already exists/);
+  });
+
+  it('answers 409 when a concurrent rename wins the unique index', async () => {
+    const { Offer } = await stagesByName();
+    mock.method(pipelineService, 'updateStage', async () => {
+      throw uniqueViolation();
+    });
+
+    const { status } = await request('PATCH', `/api/pipeline/stages/${Offer.id}`, {
+      name: 'Final round',
+    });
+
+    assert.equal(status, 409);
+  });
+
+  it('inserts a stage in the middle and shifts later stages down', async () => {
+    const { status, body } = await request('POST', '/api/pipeline/stages', {
+      name: 'Phone screen',
+      position: 2,
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.stage.position, 2);
+
+    const names = (await pipelineService.getStages(OWNER)).map((s) => s.name);
+    assert.deepEqual(names.slice(0, 4), ['New', 'Shortlisted', 'Phone screen', 'Contacted']);
+  });
+});
@@ -0,0 +1,190 @@
+import { fakePrisma, rowsOf, seed } from './helpers/fake-prisma';
+import { authHeader, signTestToken } from './helpers/auth';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './helpers/server';
+import jobsRouter from '../routes/job';
+import jobByIdRouter from '../routes/jobById';
+import processRouter from '../routes/process';
+import sourcingRouter from '../routes/sourcing';
+import sourcingByIdRouter from '../routes/sourcingById';
+
+const OWNER = 'user_owner';
+const OTHER = 'user_other';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+async function request(method: string, path: string, headers: Record<string, string> = {}) {
+  const response = await fetch(`${server.url}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+  return { status: response.status, body: (await response.json().catch(() => null)) as any };
+}
+
+before(async () => {
+  server = await startTestServer((app) => {
+    app.use('/api/jobs/:jobId', jobByIdRouter);
+    app.use('/api/jobs', jobsRouter);
+    app.use('/api/jobs/process', processRouter);
+    app.use('/api/sourcing/:jobId', sourcingByIdRouter);
+    app.use('/api/sourcing', sourcingRouter);
+  });
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  fakePrisma.$reset();
+
+  seed('sourcingJob', {
+    id: 'sourcing_1',
+    userId: OWNER,
+    title: 'Backend Engineer',
+    status: 'COMPLETED',
+    totalProfilesFound: 4,
+    profilesScored: 2,
+    scoringRevision: 1,
+  });
+
+  seed('job', {
+    id: 'screening_1',
+    userId: OWNER,
+    title: 'Frontend Engineer',
+    description: 'Original description',
+    scoringRevision: 1,
+  });
+});
+
+describe('requireAuth', () => {
+  it('rejects requests without a bearer token', async () => {
+    const { status, body } = await request('GET', '/api/sourcing/sourcing_1');
+
+    assert.equal(status, 401);
+    assert.match(body.error, /No token provided/);
+  });
+
+  it('rejects malformed tokens', async () => {
+    const { status } = await request('GET', '/api/sourcing/sourcing_1', {
+      Authorization: 'Bearer not-a-jwt',
+    });
+
+    assert.equal(status, 401);
+  });
+
+  it('rejects expired tokens', async () => {
+    const { status } = await request('GET', '/api/jobs/screening_1', {
+      Authorization: `Bearer ${signTestToken(OWNER, -60)}`,
+    });
+
+    assert.equal(status, 401);
+  });
+
+  it('rejects tokens whose signature was tampered with', async () => {
+    const [header, payload, signature] = signTestToken(OWNER).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: OTHER })).toString('base64url');
+
+    const { status } = await request('GET', '/api/jobs/screening_1', {
+      Authorization: `Bearer ${header}.${forged}.${signature}`,
+    });
+
+    assert.equal(status, 401);
+  });
+});
+
+describe('sourcing router ownership', () => {
+  it('returns the job to its owner', async () => {
+    const { status, body } = await request('GET', '/api/sourcing/sourcing_1', authHeader(OWNER));
+
+    assert.equal(status, 200);
+    assert.equal(body.id, 'sourcing_1');
+    assert.equal(body.progress.percentage, 50);
+  });
+
+  it('forbids other users', async () => {
+    const { status } = await request('GET', '/api/sourcing/sourcing_1', authHeader(OTHER));
+    assert.equal(status, 403);
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    const { status } = await request('GET', '/api/sourcing/missing', authHeader(OWNER));
+    assert.equal(status, 404);
+  });
+
+  it('does not let other users delete a job', async () => {
+    const { status } = await request('DELETE', '/api/sourcing/sourcing_1', authHeader(OTHER));
+
+    assert.equal(status, 403);
+    assert.equal(rowsOf('sourcingJob').length, 1);
+  });
+
+  it('does not let other users cancel or rescore a job', async () => {
+    for (const path of ['/cancel', '/pause', '/rescore']) {
+      const { status } = await request('POST', `/api/sourcing/sourcing_1${path}`, authHeader(OTHER));
+      assert.equal(status, 403, path);
+    }
+
+    assert.equal(rowsOf('sourcingJob')[0].status, 'COMPLETED');
+  });
+
+  it('hides score history from other users', async () => {
+    const { status } = await request(
+      'GET',
+      '/api/sourcing/sourcing_1/score-versions',
+      authHeader(OTHER)
+    );
+    assert.equal(status, 403);
+  });
+});
+
+describe('screening router ownership', () => {
+  it('returns the job to its owner', async () => {
+    const { status, body } = await request('GET', '/api/jobs/screening_1', authHeader(OWNER));
+
+    assert.equal(status, 200);
+    assert.equal(body.id, 'screening_1');
+  });
+
+  it('answers 404 to other users so job ids are not disclosed', async () => {
+    const { status } = await request('GET', '/api/jobs/screening_1', authHeader(OTHER));
+    assert.equal(status, 404);
+  });
+
+  it('does not let other users edit or delete a job', async () => {
+    const patch = await fetch(`${server.url}/api/jobs/screening_1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...authHeader(OTHER) },
+      body: JSON.stringify({ title: 'Hijacked' }),
+    });
+    assert.equal(patch.status, 404);
+
+    const { status } = await request('DELETE', '/api/jobs/screening_1', authHeader(OTHER));
+    assert.equal(status, 404);
+
+    assert.equal(rowsOf('job').length, 1);
+    assert.equal(rowsOf('job')[0].title, 'Frontend Engineer');
+  });
+
+  it('hides processing status and score history from other users', async () => {
+    for (const path of ['/status', '/score-versions', '/score-diff']) {
+      const { status } = await request(
+        'GET',
+        `/api/jobs/process/screening_1${path}`,
+        authHeader(OTHER)
+      );
+      assert.equal(status, 404, path);
+    }
+  });
+
+  it('does not let other users rescore or cancel screening', async () => {
+    for (const path of ['/rescore', '/cancel']) {
+      const { status } = await request(
+        'POST',
+        `/api/jobs/process/screening_1${path}`,
+        authHeader(OTHER)
+      );
+      assert.equal(status, 404, path);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { fakePrisma, rowsOf, seed } from './helpers/fake-prisma';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { MemorySaver } from '@langchain/langgraph';
+import { createSourcingWorkflow, buildResumeState } from '../lib/sourcing/workflow';
+import { startReplay, stopReplay } from '../lib/replay';
+
+const JOB_ID = 'job_replay';
+const USER = 'user_replay';
+const FIXTURES = path.resolve(__dirname, '../../eval/sourcing');
+
+const JOB_REQUIREMENTS = {
+  requiredSkills: 'Node.js, TypeScript, PostgreSQL, Kubernetes',
+  experience: '5+ years',
+  location: 'Berlin, Germany',
+};
+
+function seedJob(maxCandidates: number) {
+  seed('userCredits', { id: 'uc_replay', userId: USER, sourcingCredits: 10, screeningCredits: 0 });
+  seed('sourcingJob', {
+    id: JOB_ID,
+    userId: USER,
+    title: 'Senior Backend Engineer',
+    rawJobDescription:
+      'Senior Backend Engineer in Berlin. Build Node.js and TypeScript services on PostgreSQL, ' +
+      'deployed to Kubernetes. 5+ years of backend experience.',
+    jobRequirements: JOB_REQUIREMENTS,
+    maxCandidates,
+    status: 'CREATED',
+    reviewSearchFilters: false,
+    scoringRubric: null,
+    scoringRevision: 0,
+    retryCount: 0,
+    discoveredUrls: [],
+    enrichedUrls: [],
+    usedQueryIndices: [],
+    cancelRequestedAt: null,
+    pauseRequestedAt: null,
+    candidates: [],
+  });
+}
+
+function initialState(maxCandidates: number) {
+  return {
+    jobId: JOB_ID,
+    userId: USER,
+    rawJobDescription: rowsOf('sourcingJob')[0].rawJobDescription,
+    jobRequirements: JOB_REQUIREMENTS,
+    maxCandidates,
+  };
+}
+
+const config = { configurable: { thread_id: JOB_ID } };
+
+describe('sourcing workflow replay', () => {
+  const providers = process.env.ENRICHMENT_PROVIDERS;
+
+  beforeEach(() => fakePrisma.$reset());
+
+  afterEach(() => {
+    stopReplay();
+    if (providers === undefined) delete process.env.ENRICHMENT_PROVIDERS;
+    else process.env.ENRICHMENT_PROVIDERS = providers;
+  });
+
+  it('ends in handle_no_candidates when every search comes back empty', async () => {
+    seedJob(5);
+    startReplay('replay', path.join(FIXTURES, 'no-candidates.json'));
+
+    const app = await createSourcingWorkflow(new MemorySaver());
+    await app.invoke(initialState(5), config);
+
+    const [job] = rowsOf('sourcingJob');
+    assert.equal(job.status, 'COMPLETED');
+    assert.equal(job.currentStage, 'NO_CANDIDATES_FOUND');
+    assert.equal(rowsOf('linkedInCandidate').length, 0);
+  });
+
+  it('stops as RATE_LIMITED and completes once resumed', async () => {
+    seedJob(1);
+    process.env.ENRICHMENT_PROVIDERS = 'salesql';
+    startReplay('replay', path.join(FIXTURES, 'rate-limited-then-resumed.json'));
+
+    const app = await createSourcingWorkflow(new MemorySaver());
+    await app.invoke(initialState(1), config);
+
+    let [job] = rowsOf('sourcingJob');
+    assert.equal(job.status, 'RATE_LIMITED');
+
+    // What cron recovery does once the limit has reset
+    const resumeState = await buildResumeState(JOB_ID);
+    await app.invoke(resumeState as any, config);
+
+    [job] = rowsOf('sourcingJob');
+    assert.equal(job.status, 'COMPLETED');
+    assert.equal(job.currentStage, 'SCORING_COMPLETE');
+
+    const [candidate] = rowsOf('linkedInCandidate');
+    assert.equal(candidate.email, 'jonas.weber@example.com');
+    assert.equal(candidate.isScored, true);
+    assert.equal(candidate.matchScore, 86);
+
+    // Scored candidates are embedded for similarity search
+    const [embedding] = rowsOf('embedding');
+    assert.equal(embedding.subjectId, candidate.id);
+  });
+});
@@ -0,0 +1,179 @@
+import { fakePrisma, seed } from './helpers/fake-prisma';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildResumeState, routeAfterEnrichment } from '../lib/sourcing/workflow';
+import type { SourcingState } from '../lib/sourcing/state';
+
+const JOB_ID = 'job_sourcing';
+
+function seedJob(overrides: Record<string, any> = {}) {
+  seed('sourcingJob', {
+    id: JOB_ID,
+    userId: 'user_1',
+    rawJobDescription: 'Senior backend engineer',
+    jobRequirements: { requiredSkills: 'Node.js' },
+    maxCandidates: 10,
+    searchFilters: null,
+    discoveredUrls: [],
+    enrichedUrls: [],
+    usedQueryIndices: [],
+    scrapedProfilesData: null,
+    parsedProfilesData: null,
+    lastCompletedStage: null,
+    currentStage: null,
+    cancelRequestedAt: null,
+    candidates: [],
+    ...overrides,
+  });
+}
+
+function routingState(overrides: Partial<SourcingState> = {}) {
+  return {
+    jobId: JOB_ID,
+    maxCandidates: 10,
+    candidatesWithEmails: 0,
+    searchIterations: 0,
+    currentStage: 'ENRICHMENT_COMPLETE',
+    ...overrides,
+  } as SourcingState;
+}
+
+describe('buildResumeState', () => {
+  beforeEach(() => fakePrisma.$reset());
+
+  it('throws for an unknown job', async () => {
+    await assert.rejects(buildResumeState('missing'), /Job not found/);
+  });
+
+  it('rebuilds progress from the stored job and candidates', async () => {
+    seedJob({
+      searchFilters: [{ searchQuery: 'A' }, { searchQuery: 'B' }],
+      discoveredUrls: ['u1', 'u2', 'u3', 'u4'],
+      enrichedUrls: ['u1', 'u2'],
+      usedQueryIndices: [0, 3],
+      lastCompletedStage: 'enrich_and_create',
+      currentStage: 'ENRICHMENT_COMPLETE',
+      candidates: [
+        { profileUrl: 'u1', hasContactInfo: true, scrapingStatus: 'PENDING', isScored: false },
+        { profileUrl: 'u2', hasContactInfo: false, scrapingStatus: 'PENDING', isScored: false },
+      ],
+    });
+
+    const state = await buildResumeState(JOB_ID);
+
+    assert.equal(state.jobId, JOB_ID);
+    assert.equal(state.userId, 'user_1');
+    assert.equal(state.candidatesWithEmails, 1);
+    assert.deepEqual(state.searchFiltersVariants, [{ searchQuery: 'A' }, { searchQuery: 'B' }]);
+    assert.deepEqual(state.searchFilters, { searchQuery: 'A' });
+
+    assert.ok(state.discoveredUrls instanceof Set);
+    assert.deepEqual([...state.discoveredUrls], ['u1', 'u2', 'u3', 'u4']);
+    assert.deepEqual([...state.enrichedUrls], ['u1', 'u2']);
+    assert.deepEqual([...state.usedQueryIndices], [0, 3]);
+
+    // Discovered but never enriched URLs are queued again
+    assert.deepEqual(
+      state.currentSearchResults.map((r) => r.profileUrl),
+      ['u3', 'u4']
+    );
+
+    assert.equal(state.searchIterations, 1);
+    assert.equal(state.currentStage, 'ENRICHMENT_COMPLETE');
+    assert.equal(state.entryNode, 'format_jd');
+  });
+
+  it('wraps legacy single-object search filters in a variant list', async () => {
+    seedJob({ searchFilters: { searchQuery: 'legacy' } });
+
+    const state = await buildResumeState(JOB_ID);
+
+    assert.deepEqual(state.searchFiltersVariants, [{ searchQuery: 'legacy' }]);
+    assert.deepEqual(state.searchFilters, { searchQuery: 'legacy' });
+  });
+
+  it('starts from scratch for a job with no progress', async () => {
+    seedJob();
+
+    const state = await buildResumeState(JOB_ID);
+
+    assert.equal(state.candidatesWithEmails, 0);
+    assert.equal(state.searchIterations, 0);
+    assert.deepEqual(state.searchFiltersVariants, []);
+    assert.deepEqual(state.currentSearchResults, []);
+    assert.deepEqual(state.scrapedProfiles, []);
+    assert.equal(state.currentStage, 'CREATED');
+  });
+
+  it('estimates one search iteration per 10 candidates found', async () => {
+    seedJob({
+      discoveredUrls: Array.from({ length: 30 }, (_, i) => `u${i}`),
+      enrichedUrls: Array.from({ length: 30 }, (_, i) => `u${i}`),
+      candidates: Array.from({ length: 25 }, (_, i) => ({
+        profileUrl: `u${i}`,
+        hasContactInfo: true,
+      })),
+    });
+
+    const state = await buildResumeState(JOB_ID);
+
+    assert.equal(state.candidatesWithEmails, 25);
+    assert.equal(state.searchIterations, 2);
+  });
+});
+
+describe('routeAfterEnrichment', () => {
+  beforeEach(() => {
+    fakePrisma.$reset();
+    seedJob();
+  });
+
+  it('moves to scraping once the target is reached', async () => {
+    assert.equal(
+      await routeAfterEnrichment(routingState({ candidatesWithEmails: 10 })),
+      'scrape'
+    );
+    assert.equal(
+      await routeAfterEnrichment(routingState({ candidatesWithEmails: 12, searchIterations: 5 })),
+      'scrape'
+    );
+  });
+
+  it('searches again while under target and below the iteration cap', async () => {
+    assert.equal(
+      await routeAfterEnrichment(routingState({ candidatesWithEmails: 3, searchIterations: 4 })),
+      'search_again'
+    );
+  });
+
+  it('stops searching after 5 iterations', async () => {
+    assert.equal(
+      await routeAfterEnrichment(routingState({ candidatesWithEmails: 3, searchIterations: 5 })),
+      'scrape'
+    );
+    assert.equal(
+      await routeAfterEnrichment(routingState({ candidatesWithEmails: 0, searchIterations: 5 })),
+      'no_candidates'
+    );
+  });
+
+  it('ends the run when rate limited', async () => {
+    assert.equal(
+      await routeAfterEnrichment(
+        routingState({ currentStage: 'RATE_LIMITED', candidatesWithEmails: 10 })
+      ),
+      'end'
+    );
+  });
+
+  it('diverts to cancellation before anything else', async () => {
+    fakePrisma.$table('sourcingJob').rows[0].cancelRequestedAt = new Date();
+
+    assert.equal(
+      await routeAfterEnrichment(
+        routingState({ currentStage: 'RATE_LIMITED', candidatesWithEmails: 10 })
+      ),
+      'cancelled'
+    );
+  });
+});
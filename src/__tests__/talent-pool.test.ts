@@ -0,0 +1,192 @@
+import './helpers/fake-prisma';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildTalentFacets,
+  matchTalentProfile,
+  mergeTalentRecords,
+  TalentRecord,
+} from '../lib/talent-pool/profiles';
+import { talentPoolQuerySchema } from '../lib/validations/talent-pool';
+
+let nextId = 1;
+
+function record(overrides: Partial<TalentRecord> = {}): TalentRecord {
+  const id = nextId++;
+
+  return {
+    source: 'screening',
+    candidateId: `cand_${id}`,
+    jobId: 'job_1',
+    jobTitle: 'Backend Engineer',
+    name: 'Priya Raman',
+    email: null,
+    profileUrl: null,
+    title: null,
+    company: null,
+    location: null,
+    seniority: null,
+    experienceYears: null,
+    skills: [],
+    summary: null,
+    matchScore: null,
+    addedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const query = (input: Record<string, string> = {}) => talentPoolQuerySchema.parse(input);
+
+describe('mergeTalentRecords', () => {
+  it('links records through shared URLs and emails transitively', () => {
+    const profiles = mergeTalentRecords([
+      record({ source: 'sourcing', profileUrl: 'https://www.linkedin.com/in/priya-raman/' }),
+      record({ source: 'screening', email: 'priya@example.com' }),
+      // Shares the URL with the first and the email with the second
+      record({
+        source: 'sourcing',
+        profileUrl: 'https://de.linkedin.com/in/Priya-Raman',
+        email: ' Priya@Example.com ',
+      }),
+      record({ name: 'Someone Else', email: 'else@example.com' }),
+    ]);
+
+    assert.equal(profiles.length, 2);
+
+    const [priya] = profiles;
+    assert.equal(priya.appearances.length, 3);
+    assert.deepEqual(priya.emails, ['priya@example.com']);
+    assert.equal(priya.key, 'https://linkedin.com/in/priya-raman');
+  });
+
+  it('keeps records without a URL or email apart', () => {
+    const a = record({ name: 'Alex Kim' });
+    const b = record({ name: 'Alex Kim' });
+
+    const profiles = mergeTalentRecords([a, b]);
+
+    assert.deepEqual(
+      profiles.map((p) => p.key),
+      [`screening:${a.candidateId}`, `screening:${b.candidateId}`]
+    );
+  });
+
+  it('prefers LinkedIn fields over screening ones and falls back to the newest record', () => {
+    const [profile] = mergeTalentRecords([
+      record({
+        source: 'sourcing',
+        email: 'priya@example.com',
+        profileUrl: 'https://linkedin.com/in/priya',
+        name: 'Priya R.',
+        title: 'Staff Engineer',
+        location: null,
+        experienceYears: 7,
+        matchScore: 62,
+        skills: ['k8s'],
+        addedAt: new Date('2026-01-01T00:00:00Z'),
+      }),
+      record({
+        source: 'screening',
+        email: 'priya@example.com',
+        name: 'Priya Raman',
+        title: 'Backend Developer',
+        location: 'Berlin',
+        experienceYears: 9,
+        matchScore: 88,
+        skills: ['Kubernetes', 'golang'],
+        addedAt: new Date('2026-03-01T00:00:00Z'),
+      }),
+    ]);
+
+    assert.equal(profile.title, 'Staff Engineer');
+    assert.equal(profile.location, 'Berlin');
+    assert.equal(profile.profileUrl, 'https://linkedin.com/in/priya');
+    // Newest record names the person
+    assert.equal(profile.name, 'Priya Raman');
+    assert.equal(profile.experienceYears, 9);
+    assert.equal(profile.bestMatchScore, 88);
+    assert.deepEqual(profile.lastSeenAt, new Date('2026-03-01T00:00:00Z'));
+    assert.deepEqual([...profile.skills].sort(), ['Go', 'Kubernetes']);
+  });
+});
+
+describe('matchTalentProfile', () => {
+  const [profile] = mergeTalentRecords([
+    record({
+      source: 'sourcing',
+      profileUrl: 'https://linkedin.com/in/priya',
+      title: 'Senior Backend Engineer',
+      location: 'Berlin, Germany',
+      seniority: 'Senior',
+      experienceYears: 5,
+      skills: ['Go', 'PostgreSQL'],
+      summary: 'Builds payment systems',
+    }),
+  ]);
+
+  it('counts matched skills, requiring all of them by default', () => {
+    assert.equal(matchTalentProfile(profile, query({ skills: 'golang,Postgres' })), 2);
+    assert.equal(matchTalentProfile(profile, query({ skills: 'Go,React' })), -1);
+  });
+
+  it('needs only one skill with skillMatch=any', () => {
+    assert.equal(matchTalentProfile(profile, query({ skills: 'Go,React', skillMatch: 'any' })), 1);
+    assert.equal(
+      matchTalentProfile(profile, query({ skills: 'React,Vue', skillMatch: 'any' })),
+      -1
+    );
+  });
+
+  it('checks experience bounds inclusively and excludes unknown experience', () => {
+    assert.equal(matchTalentProfile(profile, query({ minExperience: '5', maxExperience: '5' })), 0);
+    assert.equal(matchTalentProfile(profile, query({ maxExperience: '4' })), -1);
+    assert.equal(matchTalentProfile(profile, query({ minExperience: '6' })), -1);
+
+    const [unknown] = mergeTalentRecords([record({ email: 'x@example.com' })]);
+    assert.equal(matchTalentProfile(unknown, query({ maxExperience: '60' })), -1);
+    assert.equal(matchTalentProfile(unknown, query()), 0);
+  });
+
+  it('filters by source, title, location, seniority and free text', () => {
+    assert.equal(matchTalentProfile(profile, query({ source: 'screening' })), -1);
+    assert.equal(matchTalentProfile(profile, query({ title: 'backend' })), 0);
+    assert.equal(matchTalentProfile(profile, query({ location: 'munich' })), -1);
+    assert.equal(matchTalentProfile(profile, query({ seniority: 'senior,lead' })), 0);
+    assert.equal(matchTalentProfile(profile, query({ q: 'payment BERLIN' })), 0);
+    assert.equal(matchTalentProfile(profile, query({ q: 'payment london' })), -1);
+  });
+});
+
+describe('buildTalentFacets', () => {
+  it('counts skills, experience buckets and sources over all profiles', () => {
+    const profiles = mergeTalentRecords([
+      record({ email: 'a@example.com', experienceYears: 2, skills: ['Go', 'React'] }),
+      record({ email: 'b@example.com', experienceYears: 10, skills: ['Go'] }),
+      record({
+        source: 'sourcing',
+        email: 'c@example.com',
+        experienceYears: 11,
+        skills: ['React', 'Go'],
+      }),
+      record({ email: 'd@example.com', skills: ['AWS'] }),
+    ]);
+
+    const facets = buildTalentFacets(profiles);
+
+    assert.deepEqual(facets.skills, [
+      { value: 'Go', count: 3 },
+      { value: 'React', count: 2 },
+      { value: 'AWS', count: 1 },
+    ]);
+    assert.deepEqual(facets.experience, [
+      { value: '0-2', count: 1 },
+      { value: '3-5', count: 0 },
+      { value: '6-10', count: 1 },
+      { value: '10+', count: 1 },
+    ]);
+    assert.deepEqual(facets.sources, [
+      { value: 'screening', count: 3 },
+      { value: 'sourcing', count: 1 },
+    ]);
+  });
+});
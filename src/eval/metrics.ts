@@ -0,0 +1,113 @@
+// eval/metrics.ts
+
+export interface CaseResult {
+  id: string;
+  scorer: string;
+  score: number;
+  verdict: string;
+  expectedVerdict: string;
+  expectedBand: [number, number];
+}
+
+export interface EvalMetrics {
+  cases: number;
+  verdictAgreement: number; // Share of cases with the expected verdict
+  bandAgreement: number; // Share of cases scored inside the expected band
+  rankCorrelation: number | null; // Spearman between expected band midpoints and scores
+}
+
+export interface Baseline {
+  generatedAt: string;
+  mode: string;
+  metrics: Record<string, EvalMetrics>;
+  results: Record<string, { score: number; verdict: string }>;
+}
+
+/**
+ * Average ranks (1-based), ties share the mean of their positions
+ */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+
+    i = j + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Spearman rank correlation; null when there are fewer than 3 points or no variance
+ */
+export function spearman(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 3) return null;
+
+  const ra = ranks(a);
+  const rb = ranks(b);
+  const mean = (a.length + 1) / 2;
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+
+  for (let i = 0; i < ra.length; i++) {
+    cov += (ra[i] - mean) * (rb[i] - mean);
+    varA += (ra[i] - mean) ** 2;
+    varB += (rb[i] - mean) ** 2;
+  }
+
+  if (varA === 0 || varB === 0) return null;
+
+  return Math.round((cov / Math.sqrt(varA * varB)) * 1000) / 1000;
+}
+
+export function computeMetrics(results: CaseResult[]): EvalMetrics {
+  const share = (count: number) =>
+    results.length > 0 ? Math.round((count / results.length) * 1000) / 1000 : 0;
+
+  return {
+    cases: results.length,
+    verdictAgreement: share(results.filter((r) => r.verdict === r.expectedVerdict).length),
+    bandAgreement: share(
+      results.filter((r) => r.score >= r.expectedBand[0] && r.score <= r.expectedBand[1]).length
+    ),
+    rankCorrelation: spearman(
+      results.map((r) => (r.expectedBand[0] + r.expectedBand[1]) / 2),
+      results.map((r) => r.score)
+    ),
+  };
+}
+
+/**
+ * Per-case score drift and verdict flips versus a saved baseline
+ */
+export function computeDrift(results: CaseResult[], baseline: Baseline) {
+  const compared = results.filter((r) => baseline.results[r.id]);
+  const deltas = compared.map((r) => ({
+    id: r.id,
+    scoreDelta: r.score - baseline.results[r.id].score,
+    previousVerdict: baseline.results[r.id].verdict,
+    verdict: r.verdict,
+  }));
+
+  const absolute = deltas.map((d) => Math.abs(d.scoreDelta));
+
+  return {
+    compared: compared.length,
+    newCases: results.length - compared.length,
+    meanAbsScoreDrift:
+      absolute.length > 0
+        ? Math.round((absolute.reduce((sum, d) => sum + d, 0) / absolute.length) * 10) / 10
+        : 0,
+    maxAbsScoreDrift: absolute.length > 0 ? Math.max(...absolute) : 0,
+    verdictFlips: deltas.filter((d) => d.previousVerdict !== d.verdict),
+    deltas,
+  };
+}
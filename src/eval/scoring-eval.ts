@@ -0,0 +1,291 @@
+// eval/scoring-eval.ts
+//
+// Offline regression check for the screening and LinkedIn scorers
+//
+//   npm run eval:scoring                          replay recorded responses (no API calls)
+//   npm run eval:scoring -- --mode live           call the models routed for each task
+//                                                 (point LLM_ROUTE_* at a local server to stay offline)
+//   npm run eval:scoring -- --mode live --record  refresh recordedResponse in the dataset
+//   npm run eval:scoring -- --update-baseline     save this run as the new baseline
+//
+// Exits with code 1 when verdict or band agreement drops below the baseline by more than --tolerance,
+// or when a recorded response was made for a different prompt or response schema than the scorer
+// now sends (re-record those cases, or pass --allow-stale to only report them)
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { setModelInterceptor } from "../lib/ai/models";
+import { captureResponses, createRecordedModel, ModelCallOptions } from "../lib/ai/stand-in";
+import { requestKey } from "../lib/replay/cassette";
+import { processResumeCombined } from "../lib/ai/resume-processor";
+import { scoreCandidateWithFullAnalysis } from "../lib/ai/linkedin-scorer";
+import { applyRubric } from "../lib/sourcing/rubric";
+import { scoringRubricSchema } from "../lib/validations/sourcing";
+import { Baseline, CaseResult, computeDrift, computeMetrics, EvalMetrics } from "./metrics";
+
+const DEFAULT_DIR = path.resolve(__dirname, "../../eval/scoring");
+
+const evalCaseSchema = z.object({
+  id: z.string(),
+  scorer: z.enum(["resume", "linkedin"]),
+  jobDescription: z.string().optional(),
+  jobRequirements: z.any(),
+  resumeText: z.string().optional(),
+  profile: z.any().optional(),
+  rubric: scoringRubricSchema.optional(),
+  expected: z.object({
+    verdict: z.string(),
+    scoreBand: z.tuple([z.number(), z.number()]),
+  }),
+  recordedResponse: z.any().optional(),
+  // Key of the prompt and response schema recordedResponse answered (see promptKey)
+  recordedPromptKey: z.string().optional(),
+});
+
+const datasetSchema = z.object({
+  description: z.string().optional(),
+  cases: z.array(evalCaseSchema),
+});
+
+type EvalCase = z.infer<typeof evalCaseSchema>;
+
+interface Options {
+  mode: "recorded" | "live";
+  record: boolean;
+  updateBaseline: boolean;
+  datasetPath: string;
+  baselinePath: string;
+  tolerance: number;
+  allowStale: boolean;
+  only?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const mode = value("--mode") || "recorded";
+  if (mode !== "recorded" && mode !== "live") {
+    throw new Error(`Unknown mode "${mode}" (expected recorded or live)`);
+  }
+
+  const record = argv.includes("--record");
+  if (record && mode !== "live") {
+    throw new Error("--record needs --mode live");
+  }
+
+  return {
+    mode,
+    record,
+    updateBaseline: argv.includes("--update-baseline"),
+    datasetPath: path.resolve(value("--dataset") || path.join(DEFAULT_DIR, "dataset.json")),
+    baselinePath: path.resolve(value("--baseline") || path.join(DEFAULT_DIR, "baseline.json")),
+    tolerance: parseFloat(value("--tolerance") || "0.05"),
+    allowStale: argv.includes("--allow-stale"),
+    only: value("--only"),
+  };
+}
+
+/**
+ * Identifies what a scorer asked the model; changes whenever the rendered
+ * prompt or the response schema changes
+ */
+function promptKey(options: ModelCallOptions): string {
+  return requestKey({ prompt: options.prompt, responseFormat: options.responseFormat });
+}
+
+/**
+ * Run one case through its scorer and return the final score and verdict
+ */
+async function runCase(evalCase: EvalCase) {
+  if (evalCase.scorer === "resume") {
+    const result = await processResumeCombined(evalCase.resumeText || "", evalCase.jobRequirements);
+    return { score: result.matchScore, verdict: result.fitVerdict };
+  }
+
+  const score = await scoreCandidateWithFullAnalysis(
+    evalCase.profile,
+    evalCase.jobDescription || "",
+    evalCase.jobRequirements,
+    evalCase.rubric
+  );
+
+  if (evalCase.rubric) {
+    const applied = applyRubric(score, evalCase.rubric);
+    return { score: applied.matchScore, verdict: applied.interviewReadiness };
+  }
+
+  return { score: score.totalScore, verdict: score.interviewReadiness };
+}
+
+function formatMetrics(name: string, metrics: EvalMetrics, baseline?: EvalMetrics) {
+  const delta = (current: number | null, previous: number | null | undefined) =>
+    current !== null && previous !== null && previous !== undefined
+      ? ` (${current - previous >= 0 ? "+" : ""}${(current - previous).toFixed(3)})`
+      : "";
+
+  return [
+    `  ${name} (${metrics.cases} cases)`,
+    `    verdict agreement: ${metrics.verdictAgreement}${delta(metrics.verdictAgreement, baseline?.verdictAgreement)}`,
+    `    band agreement:    ${metrics.bandAgreement}${delta(metrics.bandAgreement, baseline?.bandAgreement)}`,
+    `    rank correlation:  ${metrics.rankCorrelation ?? "n/a"}${delta(metrics.rankCorrelation, baseline?.rankCorrelation)}`,
+  ].join("\n");
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dataset = datasetSchema.parse(JSON.parse(fs.readFileSync(options.datasetPath, "utf-8")));
+  const cases = dataset.cases.filter((c) => !options.only || c.scorer === options.only);
+
+  console.log(`🧪 Scoring eval: ${cases.length} cases, mode ${options.mode}`);
+
+  let current: EvalCase | null = null;
+  let captured: { text: string; promptKey: string } | null = null;
+  // Cases whose recorded response answered another prompt, with the key of the current one
+  const stale = new Map<string, string>();
+
+  setModelInterceptor((task, route, create) => {
+    if (options.mode === "recorded") {
+      return createRecordedModel((callOptions) => {
+        const key = promptKey(callOptions);
+        if (current && current.recordedPromptKey !== key) stale.set(current.id, key);
+
+        return JSON.stringify(current?.recordedResponse ?? {});
+      }, `recorded:${task}`);
+    }
+
+    return options.record
+      ? captureResponses(create(), (text, callOptions) => {
+          captured = { text, promptKey: promptKey(callOptions) };
+        })
+      : create();
+  });
+
+  const results: CaseResult[] = [];
+  const failures: Array<{ id: string; error: string }> = [];
+
+  for (const evalCase of cases) {
+    if (options.mode === "recorded" && !evalCase.recordedResponse) {
+      console.log(`   ⏭️ ${evalCase.id}: no recorded response, skipped`);
+      continue;
+    }
+
+    current = evalCase;
+    captured = null;
+
+    try {
+      const { score, verdict } = await runCase(evalCase);
+
+      results.push({
+        id: evalCase.id,
+        scorer: evalCase.scorer,
+        score,
+        verdict,
+        expectedVerdict: evalCase.expected.verdict,
+        expectedBand: evalCase.expected.scoreBand,
+      });
+
+      if (options.record && captured) {
+        const { text, promptKey: key } = captured as { text: string; promptKey: string };
+        evalCase.recordedResponse = JSON.parse(text);
+        evalCase.recordedPromptKey = key;
+      }
+
+      const inBand = score >= evalCase.expected.scoreBand[0] && score <= evalCase.expected.scoreBand[1];
+      const verdictOk = verdict === evalCase.expected.verdict;
+      console.log(
+        `   ${inBand && verdictOk ? "✓" : "✗"} ${evalCase.id}: ${score} ${verdict}` +
+          (verdictOk ? "" : ` (expected ${evalCase.expected.verdict})`) +
+          (inBand ? "" : ` (expected ${evalCase.expected.scoreBand.join("-")})`)
+      );
+    } catch (error: any) {
+      failures.push({ id: evalCase.id, error: error.message });
+      console.log(`   ❌ ${evalCase.id}: ${error.message}`);
+    }
+  }
+
+  setModelInterceptor(null);
+
+  const metrics: Record<string, EvalMetrics> = { overall: computeMetrics(results) };
+  for (const scorer of ["resume", "linkedin"]) {
+    const subset = results.filter((r) => r.scorer === scorer);
+    if (subset.length > 0) metrics[scorer] = computeMetrics(subset);
+  }
+
+  const baseline: Baseline | null = fs.existsSync(options.baselinePath)
+    ? JSON.parse(fs.readFileSync(options.baselinePath, "utf-8"))
+    : null;
+
+  console.log("\n📊 Metrics");
+  for (const [name, value] of Object.entries(metrics)) {
+    console.log(formatMetrics(name, value, baseline?.metrics[name]));
+  }
+
+  let regressed = false;
+
+  if (baseline) {
+    const drift = computeDrift(results, baseline);
+
+    console.log(`\n📈 Drift vs baseline (${baseline.generatedAt}, mode ${baseline.mode})`);
+    console.log(`  mean |score drift|: ${drift.meanAbsScoreDrift}, max: ${drift.maxAbsScoreDrift}`);
+    console.log(`  verdict flips: ${drift.verdictFlips.length}`);
+    for (const flip of drift.verdictFlips) {
+      console.log(`    ${flip.id}: ${flip.previousVerdict} → ${flip.verdict}`);
+    }
+    if (drift.newCases > 0) console.log(`  new cases not in baseline: ${drift.newCases}`);
+
+    const previous = baseline.metrics.overall;
+    regressed =
+      !!previous &&
+      (metrics.overall.verdictAgreement < previous.verdictAgreement - options.tolerance ||
+        metrics.overall.bandAgreement < previous.bandAgreement - options.tolerance);
+  } else {
+    console.log("\nℹ️ No baseline yet, run with --update-baseline to save one");
+  }
+
+  if (failures.length > 0) {
+    console.log(`\n❌ ${failures.length} cases failed to score`);
+  }
+
+  // A replayed response cannot show what a changed prompt would do, so its score proves nothing
+  if (stale.size > 0) {
+    console.log(
+      `\n⚠️ ${stale.size} recorded responses were made for a different prompt or schema. ` +
+        `Re-record them with --mode live --record:`
+    );
+    for (const [id, key] of stale) {
+      console.log(`    ${id} (prompt now ${key})`);
+    }
+  }
+
+  if (options.record) {
+    fs.writeFileSync(options.datasetPath, JSON.stringify(dataset, null, 2) + "\n");
+    console.log(`\n💾 Recorded responses saved to ${options.datasetPath}`);
+  }
+
+  if (options.updateBaseline) {
+    const next: Baseline = {
+      generatedAt: new Date().toISOString(),
+      mode: options.mode,
+      metrics,
+      results: Object.fromEntries(results.map((r) => [r.id, { score: r.score, verdict: r.verdict }])),
+    };
+    fs.writeFileSync(options.baselinePath, JSON.stringify(next, null, 2) + "\n");
+    console.log(`💾 Baseline saved to ${options.baselinePath}`);
+  } else if (regressed) {
+    console.log(`\n🚨 Agreement dropped by more than ${options.tolerance} versus the baseline`);
+    process.exitCode = 1;
+  }
+
+  if (failures.length > 0 || (stale.size > 0 && !options.allowStale)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("Scoring eval failed:", error);
+  process.exit(1);
+});
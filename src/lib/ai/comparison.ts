@@ -0,0 +1,116 @@
+import { OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { withModelFallback } from './models';
+import type { ComparisonEntry } from '../scoring/comparison';
+
+// Candidates are labelled A, B, C... in the prompt so the model never has to copy ids
+const LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+const RecommendationSchema = z.object({
+  summary: z
+    .string()
+    .describe('3-5 sentence overview of how the finalists differ and who fits the role best'),
+  recommended: z.string().describe('Label of the recommended candidate (e.g. "A")'),
+  ranking: z
+    .array(
+      z.object({
+        candidate: z.string().describe('Candidate label'),
+        rationale: z.string().describe('One or two sentences on why they are placed here'),
+      })
+    )
+    .describe('Every candidate, best first'),
+  tradeoffs: z
+    .array(
+      z.object({
+        candidates: z.array(z.string()).describe('Labels of the candidates being contrasted'),
+        tradeoff: z.string().describe('What you gain and give up choosing one over the other'),
+      })
+    )
+    .describe('The 2-4 most decision-relevant trade-offs'),
+  interviewFocus: z
+    .array(z.string())
+    .describe('Open questions that interviews should settle before deciding'),
+});
+
+function describeCandidate(label: string, entry: ComparisonEntry) {
+  const scores = Object.entries(entry.scores)
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+
+  const roles = entry.experience
+    .slice(0, 5)
+    .map(
+      (e) =>
+        `${e.title || 'Unknown role'} at ${e.company || 'unknown company'}` +
+        (e.duration ? ` (${e.duration})` : '')
+    )
+    .join('; ');
+
+  return `
+Candidate ${label}: ${entry.name}${entry.headline ? ` - ${entry.headline}` : ''}
+- Experience: ${entry.experienceYears ?? 'unknown'} years; ${roles || 'no roles listed'}
+- Scores: ${scores || 'not scored'}
+- Matched skills: ${entry.matchedSkills.join(', ') || 'none'}
+- Missing skills: ${entry.missingSkills.join(', ') || 'none'}
+- Bonus skills: ${entry.bonusSkills.join(', ') || 'none'}
+- Strengths: ${entry.strengths.join(' | ') || 'none listed'}
+- Concerns: ${entry.redFlags.join(' | ') || 'none listed'}
+- Summary: ${entry.summary || 'n/a'}`.trim();
+}
+
+/**
+ * Comparative hiring recommendation for 2-5 finalists of one job
+ */
+export async function generateComparativeRecommendation(
+  job: { title: string; description: string },
+  entries: ComparisonEntry[]
+) {
+  const labelled = entries.map((entry, i) => ({ label: LABELS[i], entry }));
+  const idFor = (label: string) =>
+    labelled.find((l) => l.label === label.trim().toUpperCase())?.entry.id ?? null;
+
+  try {
+    const { object } = await withModelFallback('candidate_comparison', (model) =>
+      generateObject({
+        model,
+        temperature: 0.2,
+        schema: RecommendationSchema,
+        providerOptions: {
+          openai: {
+            strictJsonSchema: false,
+          } satisfies OpenAIChatLanguageModelOptions,
+        },
+        prompt: `
+You are a senior technical recruiter helping a hiring manager choose between finalists.
+Compare the candidates below against the role. Ground every claim in the data given;
+do not invent experience. Be direct about trade-offs rather than praising everyone.
+
+Role: ${job.title}
+${job.description.slice(0, 4000)}
+
+${labelled.map(({ label, entry }) => describeCandidate(label, entry)).join('\n\n')}
+
+Refer to candidates only by their label (${labelled.map((l) => l.label).join(', ')}).
+        `.trim(),
+      })
+    );
+
+    return {
+      summary: object.summary,
+      recommendedCandidateId: idFor(object.recommended),
+      ranking: object.ranking
+        .map((r) => ({ candidateId: idFor(r.candidate), rationale: r.rationale }))
+        .filter((r) => r.candidateId !== null),
+      tradeoffs: object.tradeoffs.map((t) => ({
+        candidateIds: t.candidates.map(idFor).filter((id): id is string => id !== null),
+        tradeoff: t.tradeoff,
+      })),
+      interviewFocus: object.interviewFocus,
+    };
+  } catch (error) {
+    console.error('Error generating comparison:', error);
+    throw new Error('Failed to generate comparative recommendation');
+  }
+}
@@ -1,7 +1,8 @@
 // lib/ai/job-description-formator.ts
 
-import { openai, OpenAIChatLanguageModelOptions } from "@ai-sdk/openai";
+import { OpenAIChatLanguageModelOptions } from "@ai-sdk/openai";
 import { generateObject } from "ai";
+import { withModelFallback } from "./models";
 import { z } from "zod";
 import { INDUSTRY_TO_LINKEDIN_ID, SENIORITY_LEVEL_IDS_MAPPING, YEARS_OF_EXPERIENCE_IDS_MAPPING } from "../constants/linkedin-mappings";
 
@@ -35,15 +36,16 @@ export async function formatJobDescriptionForLinkedIn(
     console.log("🎨 Formatting job description with AI-powered variants...");
 
     // ✅ STEP 1: Let AI generate 3 different search variants
-    const { object } = await generateObject({
-      model: openai("gpt-4o"),
-      schema: linkedInSearchVariantsSchema,
-      providerOptions: {
-        openai: {
-          strictJsonSchema: false,
-        } satisfies OpenAIChatLanguageModelOptions,
-      },
-      system: `You are creating diverse LinkedIn search strategies to find candidates for a job posting.
+    const { object } = await withModelFallback("query_generation", (model) =>
+      generateObject({
+        model,
+        schema: linkedInSearchVariantsSchema,
+        providerOptions: {
+          openai: {
+            strictJsonSchema: false,
+          } satisfies OpenAIChatLanguageModelOptions,
+        },
+        system: `You are creating diverse LinkedIn search strategies to find candidates for a job posting.
 
 CRITICAL: Generate EXACTLY 3 DIFFERENT search variants. Each variant should find the same type of candidate but use different approaches.
 
@@ -78,7 +80,7 @@ IMPORTANT:
 - All variants should target the same seniority level and experience
 - Don't over-filter - we score candidates later`,
 
-      prompt: `Job Description:
+        prompt: `Job Description:
 ${jobDescription}
 
 Job Requirements:
@@ -88,7 +90,8 @@ Job Requirements:
 - Experience Level: ${jobRequirements?.yearsOfExperience || 'Not specified'}
 
 Generate 3 DIFFERENT LinkedIn search variants that will find relevant candidates using different keyword strategies.`,
-    });
+      })
+    );
 
     console.log("✅ AI generated 3 search variants:");
     object.variants.forEach((variant, idx) => {
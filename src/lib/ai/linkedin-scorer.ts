@@ -1,6 +1,9 @@
-import { openai, OpenAIChatLanguageModelOptions } from "@ai-sdk/openai";
+import { OpenAIChatLanguageModelOptions } from "@ai-sdk/openai";
 import { generateObject } from "ai";
-import { CandidateScore, candidateScoreSchema } from "../validations/sourcing";
+import { withModelFallback } from "./models";
+import { CandidateScore, candidateScoreSchema, ScoringRubric } from "../validations/sourcing";
+import { formatRubricForPrompt } from "../sourcing/rubric";
+import { expandSkills, normalizeSkills, parseSkillList } from "../skills/taxonomy";
 
 /**
  * ✅ ENHANCED: Score candidate with skill matching and experience analysis
@@ -19,20 +22,28 @@ export async function scoreCandidateWithFullAnalysis(
     industry?: string;
     educationLevel?: string;
     companyType?: string;
-  }
+  },
+  rubric?: ScoringRubric | null
 ): Promise<CandidateScore> {
+  // Canonical names so "k8s" in the JD and "Kubernetes" on the profile line up
+  const requiredSkills = parseSkillList(jobRequirements?.requiredSkills);
+  const niceToHaveSkills = parseSkillList(jobRequirements?.niceToHave);
+  const candidateSkills = normalizeSkills(candidate.skills || []);
+  const impliedSkills = expandSkills(candidateSkills).slice(candidateSkills.length);
+
   try {
-    const { object } = await generateObject({
-      model: openai("gpt-4o"),
-      providerOptions: {
-        openai: {
-          strictJsonSchema: false,
-        } satisfies OpenAIChatLanguageModelOptions,
-      },
-      temperature: 0, // Consistent scoring
-      schema: candidateScoreSchema,
-      system: ENHANCED_SYSTEM_PROMPT,
-      prompt: `
+    const { object } = await withModelFallback("candidate_scoring", (model) =>
+      generateObject({
+        model,
+        providerOptions: {
+          openai: {
+            strictJsonSchema: false,
+          } satisfies OpenAIChatLanguageModelOptions,
+        },
+        temperature: 0, // Consistent scoring
+        schema: candidateScoreSchema,
+        system: ENHANCED_SYSTEM_PROMPT,
+        prompt: `
       # JOB POSTING
         ${jobDescription}
 
@@ -40,14 +51,15 @@ export async function scoreCandidateWithFullAnalysis(
           jobRequirements
             ? `
         REQUIREMENTS:
-        - Must-Have Skills: ${jobRequirements.requiredSkills || "Not specified"}
-        - Nice-to-Have Skills: ${jobRequirements.niceToHave || "Not specified"}
+        - Must-Have Skills: ${requiredSkills.join(", ") || "Not specified"}
+        - Nice-to-Have Skills: ${niceToHaveSkills.join(", ") || "Not specified"}
         - Experience Needed: ${jobRequirements.yearsOfExperience || "Not specified"}
         - Industry: ${jobRequirements.industry || "Any"}
         - Education: ${jobRequirements.educationLevel || "Not specified"}
         `
             : ""
         }
+        ${rubric ? formatRubricForPrompt(rubric) : ""}
       # CANDIDATE PROFILE
         Name: ${candidate.fullName}
         Current Role: ${candidate.currentPosition || "N/A"} at ${
@@ -56,7 +68,8 @@ export async function scoreCandidateWithFullAnalysis(
         Location: ${candidate.location || "N/A"}
 
         Total Experience: ${candidate.experienceYears || "Unknown"} years
-        Skills Listed: ${candidate.skills?.join(", ") || "None"}
+        Skills Listed: ${candidateSkills.join(", ") || "None"}
+        Implied by Listed Skills: ${impliedSkills.join(", ") || "None"}
 
         Work History (last 3 roles):
         ${JSON.stringify(candidate.experience?.slice(0, 3) || []).substring(0, 1000)}
@@ -73,9 +86,15 @@ export async function scoreCandidateWithFullAnalysis(
         5. Interview Focus Areas (actionable plan)
         Be thorough, specific, and helpful.
 `,
-    });
+      })
+    );
 
-    return object;
+    return {
+      ...object,
+      matchedSkills: normalizeSkills(object.matchedSkills || []),
+      missingSkills: normalizeSkills(object.missingSkills || []),
+      bonusSkills: normalizeSkills(object.bonusSkills || []),
+    };
   } catch (error) {
     console.error("Error scoring candidate:", error);
     throw new Error("Failed to score candidate");
@@ -115,7 +134,8 @@ export async function scoreCandidatesInParallel(
   candidates: any[],
   jobDescription: string,
   jobRequirements: any,
-  concurrencyLimit: number = 5
+  concurrencyLimit: number = 5,
+  rubric?: ScoringRubric | null
 ): Promise<
   Array<{
     candidateId: string;
@@ -150,7 +170,8 @@ export async function scoreCandidatesInParallel(
           const score = await scoreCandidateWithFullAnalysis(
             candidate,
             jobDescription,
-            jobRequirements
+            jobRequirements,
+            rubric
           );
           return {
             candidateId: candidate.id,
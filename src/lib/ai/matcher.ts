@@ -1,46 +1,69 @@
+import {
+  expandSkills,
+  getSkillTerms,
+  isKnownSkill,
+  normalizeSkills,
+  skillKey,
+} from '../skills/taxonomy';
+
 export interface MatchResult {
   score: number;
   matchedSkills: string[];
   missingSkills: string[];
+  skillScore: number; // out of 70
+  experienceScore: number; // out of 30
 }
 
+/**
+ * Deterministic skill + experience score (0-100)
+ * Skills are compared by their canonical taxonomy name, and a candidate skill
+ * also covers the skills it implies (Django → Python). Fuzzy matching is only
+ * used when a skill is not in the taxonomy.
+ * When resumeText is given, a required skill named verbatim in the resume also
+ * counts as matched, so a skill the extraction step missed is not lost. Terms
+ * that are ordinary words ("Go", "rest") are never searched for in the text.
+ * Deterministic for a given input; in screening, candidateSkills and
+ * candidateExperience come from the LLM extraction, so the score is only as
+ * stable as that extraction
+ */
 export function calculateMatchScore(
   candidateSkills: string[],
   requiredSkills: string[],
   candidateExperience: number,
-  requiredExperience: string
+  requiredExperience: string,
+  resumeText?: string
 ): MatchResult {
-  // Normalize skills to lowercase for comparison
-  const normalizeCandidateSkills = candidateSkills.map((s) =>
-    s.toLowerCase().trim()
-  );
-  const normalizeRequiredSkills = requiredSkills.map((s) =>
-    s.toLowerCase().trim()
-  );
+  // Canonical names, with implied skills added on the candidate side
+  const normalizeCandidateSkills = expandSkills(candidateSkills);
+  const candidateKeys = new Set(normalizeCandidateSkills.map(skillKey));
+  const normalizeRequiredSkills = normalizeSkills(requiredSkills);
 
-  // Find matched skills (exact or partial match)
+  // Find matched skills (taxonomy, then partial match for unknown skills)
   const matchedSkills: string[] = [];
   const missingSkills: string[] = [];
 
   for (const reqSkill of normalizeRequiredSkills) {
-    const found = normalizeCandidateSkills.some(
-      (candSkill) =>
-        candSkill.includes(reqSkill) ||
-        reqSkill.includes(candSkill) ||
-        levenshteinSimilarity(candSkill, reqSkill) > 0.8
-    );
+    const reqLower = reqSkill.toLowerCase();
+
+    const found =
+      candidateKeys.has(skillKey(reqSkill)) ||
+      normalizeCandidateSkills.some((candSkill) => {
+        if (isKnownSkill(candSkill) && isKnownSkill(reqSkill)) return false;
+
+        const candLower = candSkill.toLowerCase();
+        // Whole words only: "React Hooks" covers React, "Excel" does not cover C
+        return (
+          mentionsSkill(candSkill, reqSkill, false) ||
+          mentionsSkill(reqSkill, candSkill, false) ||
+          levenshteinSimilarity(candLower, reqLower) > 0.8
+        );
+      }) ||
+      (!!resumeText && mentionedInText(resumeText, reqSkill));
 
     if (found) {
-      // Find original casing from requiredSkills
-      const originalSkill = requiredSkills.find(
-        (s) => s.toLowerCase().trim() === reqSkill
-      )!;
-      matchedSkills.push(originalSkill);
+      matchedSkills.push(reqSkill);
     } else {
-      const originalSkill = requiredSkills.find(
-        (s) => s.toLowerCase().trim() === reqSkill
-      )!;
-      missingSkills.push(originalSkill);
+      missingSkills.push(reqSkill);
     }
   }
 
@@ -72,9 +95,45 @@ export function calculateMatchScore(
     score: Math.min(totalScore, 100),
     matchedSkills,
     missingSkills,
+    skillScore: Math.round(skillScore * 10) / 10,
+    experienceScore: Math.round(expScore * 10) / 10,
   };
 }
 
+// Most points the LLM may move the deterministic score in hybrid screening
+export const MAX_LLM_ADJUSTMENT = 15;
+
+/**
+ * Bound the LLM's suggested adjustment to a whole number within ±MAX_LLM_ADJUSTMENT
+ * The model is only asked to stay in range, so replies like 16 or 7.5 land here
+ * instead of failing the candidate
+ */
+export function clampLlmAdjustment(adjustment: number | null | undefined): number {
+  return Math.max(
+    -MAX_LLM_ADJUSTMENT,
+    Math.min(MAX_LLM_ADJUSTMENT, Math.round(adjustment || 0))
+  );
+}
+
+// Helper: Whether a required skill is named in the resume text
+// Taxonomy terms match in any case (ambiguous ones are excluded by getSkillTerms);
+// skills outside the taxonomy must keep the job's casing, so "Excel" is not
+// found in "I excel at"
+function mentionedInText(text: string, skill: string): boolean {
+  const caseSensitive = !isKnownSkill(skill);
+  return getSkillTerms(skill).some((term) => mentionsSkill(text, term, caseSensitive));
+}
+
+// Helper: Whole-word mention of a skill in free text
+function mentionsSkill(text: string, skill: string, caseSensitive: boolean): boolean {
+  if (!skill) return false;
+
+  const escaped = skill.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^A-Za-z0-9])${escaped}($|[^A-Za-z0-9])`, caseSensitive ? '' : 'i').test(
+    text
+  );
+}
+
 // Helper: Extract years from experience string
 function extractExperienceYears(expString: string): number {
   const match = expString.match(/(\d+)/);
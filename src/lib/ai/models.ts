@@ -0,0 +1,178 @@
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import type { LanguageModel, LanguageModelUsage } from 'ai';
+import { recordUsage } from './usage';
+
+// -------------------------
+// TYPES
+// -------------------------
+
+export type LLMTask =
+  | 'jd_extraction'
+  | 'query_generation'
+  | 'resume_extraction'
+  | 'resume_screening'
+  | 'candidate_summary'
+  | 'profile_parsing'
+  | 'candidate_scoring'
+  | 'candidate_comparison';
+
+export type LLMProviderName = 'openai' | 'openrouter' | 'local';
+
+export interface ModelRoute {
+  provider: LLMProviderName;
+  modelId: string;
+}
+
+// Swaps or wraps the model of a call; `create` builds the real one lazily
+export type ModelInterceptor = (
+  task: LLMTask,
+  route: ModelRoute,
+  create: () => LanguageModel
+) => LanguageModel;
+
+// -------------------------
+// DEFAULT ROUTES
+// -------------------------
+
+// Used when LLM_ROUTE_<TASK> is not set (e.g. LLM_ROUTE_CANDIDATE_SCORING)
+const DEFAULT_ROUTES: Record<LLMTask, string> = {
+  jd_extraction: 'openai:gpt-4o-mini',
+  query_generation: 'openai:gpt-4o',
+  resume_extraction: 'openai:gpt-4o-mini',
+  resume_screening: 'openai:gpt-4o-mini',
+  candidate_summary: 'openai:gpt-4o-mini',
+  profile_parsing: 'openai:gpt-4o',
+  candidate_scoring: 'openai:gpt-4o',
+  candidate_comparison: 'openai:gpt-4o',
+};
+
+// -------------------------
+// PROVIDERS
+// -------------------------
+
+let interceptor: ModelInterceptor | null = null;
+let openrouter: ReturnType<typeof createOpenAI> | null = null;
+let local: ReturnType<typeof createOpenAI> | null = null;
+
+/**
+ * Build a model for a provider
+ * OpenRouter and local servers (Ollama, vLLM, LM Studio...) speak the
+ * OpenAI chat completions API, so they reuse the OpenAI provider
+ */
+function createModel(route: ModelRoute): LanguageModel {
+  switch (route.provider) {
+    case 'openai':
+      return openai(route.modelId);
+
+    case 'openrouter':
+      if (!process.env.OPENROUTER_API_KEY) {
+        throw new Error('OPENROUTER_API_KEY is not configured');
+      }
+      openrouter ??= createOpenAI({
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey: process.env.OPENROUTER_API_KEY,
+      });
+      return openrouter.chat(route.modelId);
+
+    case 'local':
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        throw new Error('LOCAL_LLM_BASE_URL is not configured');
+      }
+      local ??= createOpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+      });
+      return local.chat(route.modelId);
+  }
+}
+
+/**
+ * Route every AI call through an interceptor (offline evaluation, replay);
+ * pass null to restore the real models. Usage is not recorded while one is set
+ */
+export function setModelInterceptor(next: ModelInterceptor | null) {
+  interceptor = next;
+}
+
+/**
+ * Parse "openai:gpt-4o, openrouter:anthropic/claude-3.5-sonnet" into routes
+ * A bare model id means OpenAI
+ */
+export function parseModelRoutes(value: string): ModelRoute[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const provider = (separator > 0 ? entry.slice(0, separator) : 'openai') as LLMProviderName;
+      const modelId = separator > 0 ? entry.slice(separator + 1) : entry;
+
+      if (!['openai', 'openrouter', 'local'].includes(provider)) {
+        throw new Error(`Unknown LLM provider "${provider}" in route "${entry}"`);
+      }
+
+      return { provider, modelId };
+    });
+}
+
+/**
+ * Ordered model chain for a task: the configured route, then LLM_FALLBACK_ROUTES
+ */
+export function getModelRoutes(task: LLMTask): ModelRoute[] {
+  const configured = process.env[`LLM_ROUTE_${task.toUpperCase()}`] || DEFAULT_ROUTES[task];
+  const fallbacks = process.env.LLM_FALLBACK_ROUTES || '';
+
+  const routes = parseModelRoutes(`${configured},${fallbacks}`);
+
+  // Drop duplicates so a fallback equal to the primary is not retried
+  return routes.filter(
+    (route, i) =>
+      routes.findIndex((r) => r.provider === route.provider && r.modelId === route.modelId) === i
+  );
+}
+
+/**
+ * Run an AI call against the task's model chain, falling back to the next
+ * model when one fails (provider down, rate limited, not configured...)
+ * Token usage of the successful call is recorded against the current usage context
+ *
+ * @example
+ * const { object } = await withModelFallback('jd_extraction', (model) =>
+ *   generateObject({ model, schema, prompt })
+ * );
+ */
+export async function withModelFallback<T>(
+  task: LLMTask,
+  call: (model: LanguageModel, route: ModelRoute) => Promise<T>
+): Promise<T> {
+  const routes = getModelRoutes(task);
+  let lastError: unknown;
+
+  for (const [i, route] of routes.entries()) {
+    try {
+      const model = interceptor
+        ? interceptor(task, route, () => createModel(route))
+        : createModel(route);
+      const result = await call(model, route);
+
+      // Stand-in and eval calls are not real spend
+      if (!interceptor) {
+        await recordUsage(task, route, (result as { usage?: LanguageModelUsage })?.usage);
+      }
+
+      return result;
+    } catch (error: any) {
+      lastError = error;
+
+      if (i < routes.length - 1) {
+        const next = routes[i + 1];
+        console.warn(
+          `⚠️ ${task} failed on ${route.provider}:${route.modelId} (${error?.message}), trying ${next.provider}:${next.modelId}`
+        );
+      }
+    }
+  }
+
+  throw lastError;
+}
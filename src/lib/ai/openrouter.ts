@@ -1,11 +0,0 @@
-// import { createOpenRouter } from "@openrouter/ai-sdk-provider"
-
-// export const openrouter = createOpenRouter({
-//   apiKey: process.env.OPENROUTER_API_KEY!,
-// });
-
-// // Use free models from OpenRouter
-// export const FREE_MODEL = 'meta-llama/llama-3.1-8b-instruct';
-// export const PAID_MODEL = 'google/gemini-2.0-flash-lite-001'
-// // or 'google/gemma-2-9b-it:free'
-// // or 'mistralai/mistral-7b-instruct:free'
\ No newline at end of file
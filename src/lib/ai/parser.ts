@@ -1,6 +1,8 @@
-import { openai, OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
+import { OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
+import { withModelFallback } from './models';
 import { z } from 'zod';
+import { normalizeSkills } from '../skills/taxonomy';
 
 const JDSchema = z.object({
   requiredSkills: z.array(z.string()).describe('Array of required technical and soft skills'),
@@ -11,27 +13,32 @@ const JDSchema = z.object({
 
 export async function extractJDRequirements(jdText: string) {
   try {
-    const { object } = await generateObject({
-      model: openai("gpt-4o-mini"),
-      schema: JDSchema,
-      providerOptions: {
-                    openai: {
-                      strictJsonSchema: false,
-                    } satisfies OpenAIChatLanguageModelOptions,
-                  },
-      messages: [
-        {
-          role: "user",
-          content: `
+    const { object } = await withModelFallback('jd_extraction', (model) =>
+      generateObject({
+        model,
+        schema: JDSchema,
+        providerOptions: {
+                      openai: {
+                        strictJsonSchema: false,
+                      } satisfies OpenAIChatLanguageModelOptions,
+                    },
+        messages: [
+          {
+            role: "user",
+            content: `
           Extract structured information from this job description:
 
           ${jdText}
           `.trim(),
-        },
-      ],
-    });
+          },
+        ],
+      })
+    );
 
-    return object;
+    return {
+      ...object,
+      requiredSkills: normalizeSkills(object.requiredSkills),
+    };
   } catch (error) {
     console.error('Error extracting JD requirements:', error);
     throw new Error('Failed to extract job requirements');
@@ -65,15 +72,16 @@ const ResumeSchema = z.object({
 
 export async function extractResumeInfo(resumeText: string) {
   try {
-    const { object } = await generateObject({
-      model: openai("gpt-4o-mini"),
-      schema: ResumeSchema,
-      providerOptions: {
-                    openai: {
-                      strictJsonSchema: false,
-                    } satisfies OpenAIChatLanguageModelOptions,
-                  },
-      prompt: `
+    const { object } = await withModelFallback('resume_extraction', (model) =>
+      generateObject({
+        model,
+        schema: ResumeSchema,
+        providerOptions: {
+                      openai: {
+                        strictJsonSchema: false,
+                      } satisfies OpenAIChatLanguageModelOptions,
+                    },
+        prompt: `
         Extract structured information from this resume:
 
         Resume Text:
@@ -86,9 +94,13 @@ export async function extractResumeInfo(resumeText: string) {
         - Educational background
         - Calculate total years of experience
               `.trim(),
-            });
+      })
+    );
 
-    return object;
+    return {
+      ...object,
+      skills: normalizeSkills(object.skills),
+    };
   } catch (error) {
     console.error('Error extracting resume info:', error);
     throw new Error('Failed to extract resume information');
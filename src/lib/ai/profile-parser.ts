@@ -1,6 +1,8 @@
-import { openai, OpenAIChatLanguageModelOptions } from "@ai-sdk/openai";
+import { OpenAIChatLanguageModelOptions } from "@ai-sdk/openai";
 import { generateObject } from "ai";
+import { withModelFallback } from "./models";
 import { structuredCandidateSchema } from "../validations/sourcing";
+import { normalizeSkills } from "../skills/taxonomy";
 
 /**
  * Parse cleaned profile into structured format using GPT-4o mini
@@ -44,18 +46,20 @@ export async function parseProfileWithAI(cleanedProfile: any): Promise<any> {
       return createFallbackProfile(cleanedProfile);
     }
 
-    const { object } = await generateObject({
-      model: openai("gpt-4o"),
-      temperature: 0,
-      schema: structuredCandidateSchema,
-      system: SYSTEM_PROMPT,
-      providerOptions: {
-              openai: {
-                strictJsonSchema: false,
-              } satisfies OpenAIChatLanguageModelOptions,
-            },
-      prompt: buildParsingPrompt(cleanedProfile),
-    });
+    const { object } = await withModelFallback("profile_parsing", (model) =>
+      generateObject({
+        model,
+        temperature: 0,
+        schema: structuredCandidateSchema,
+        system: SYSTEM_PROMPT,
+        providerOptions: {
+                openai: {
+                  strictJsonSchema: false,
+                } satisfies OpenAIChatLanguageModelOptions,
+              },
+        prompt: buildParsingPrompt(cleanedProfile),
+      })
+    );
 
     // Validate result
     if (!object.fullName || !object.profileUrl) {
@@ -63,7 +67,10 @@ export async function parseProfileWithAI(cleanedProfile: any): Promise<any> {
     }
 
     console.log(`✓ Parsed: ${object.fullName}`);
-    return object;
+    return {
+      ...object,
+      ...(object.skills && { skills: normalizeSkills(object.skills) }),
+    };
   } catch (error: any) {
     console.error(
       `❌ AI parsing failed for ${cleanedProfile.fullName}:`,
@@ -1,7 +1,14 @@
-import { openai, OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
+import { OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
+import { withModelFallback } from './models';
 import { z } from 'zod';
-import { calculateMatchScore } from './matcher';
+import { calculateMatchScore, clampLlmAdjustment, MAX_LLM_ADJUSTMENT } from './matcher';
+import { normalizeSkills } from '../skills/taxonomy';
+
+// 'hybrid' lets the LLM move the deterministic score by up to MAX_LLM_ADJUSTMENT points;
+// 'deterministic' keeps the matcher score as-is (adjustment is still recorded)
+const SCREENING_SCORE_MODE =
+  process.env.SCREENING_SCORE_MODE === 'deterministic' ? 'deterministic' : 'hybrid';
 
 // -------------------------
 // SCHEMAS
@@ -49,6 +56,15 @@ const SummarySchema = z.object({
   fitVerdict: z
     .enum(['Good Fit', 'Moderate Fit', 'Low Fit'])
     .describe('Overall fit assessment'),
+  scoreAdjustment: z
+    .number()
+    // Range is only described; clampLlmAdjustment bounds the reply so it can't fail the candidate
+    .describe(
+      `Points (-${MAX_LLM_ADJUSTMENT} to +${MAX_LLM_ADJUSTMENT}) to add to the keyword-based base score for factors it cannot see`
+    ),
+  adjustmentReason: z
+    .string()
+    .describe('One or two sentences justifying the score adjustment with evidence from the resume'),
 });
 
 // Combined schema for single-pass processing
@@ -85,6 +101,20 @@ export interface ProcessedResumeResult {
   strengths: string[];
   weaknesses: string[];
   fitVerdict: 'Good Fit' | 'Moderate Fit' | 'Low Fit';
+  baseScore: number;
+  llmAdjustment: number;
+  llmAdjustmentReason: string;
+  scoreBreakdown: ScoreBreakdown;
+}
+
+export interface ScoreBreakdown {
+  mode: 'hybrid' | 'deterministic';
+  skillScore: number;
+  experienceScore: number;
+  baseScore: number;
+  llmAdjustment: number;
+  appliedAdjustment: number;
+  maxAdjustment: number;
 }
 
 export interface JobRequirements {
@@ -111,16 +141,17 @@ export async function processResumeCombined(
 ): Promise<ProcessedResumeResult> {
   try {
     // Single AI call for both extraction and analysis
-    const { object } = await generateObject({
-      model: openai('gpt-4o-mini'),
-      schema: CombinedResumeProcessingSchema,
-      temperature: 0,
-      providerOptions: {
-        openai: {
-          strictJsonSchema: false,
-        } satisfies OpenAIChatLanguageModelOptions,
-      },
-      prompt: `
+    const { object } = await withModelFallback('resume_screening', (model) =>
+      generateObject({
+        model,
+        schema: CombinedResumeProcessingSchema,
+        temperature: 0,
+        providerOptions: {
+          openai: {
+            strictJsonSchema: false,
+          } satisfies OpenAIChatLanguageModelOptions,
+        },
+        prompt: `
 You are a recruitment expert. Extract structured information from this resume AND analyze the candidate's fit for the role.
 
 Resume Text:
@@ -143,34 +174,59 @@ TASK 2 - Analyze candidate fit:
 - List top 3 strengths relative to the job requirements
 - List top 3 weaknesses or gaps
 - Provide overall fit verdict based on match between candidate profile and job requirements (Good Fit if highly qualified, Moderate Fit if partially qualified, Low Fit if poorly qualified)
+
+TASK 3 - Adjust the base score:
+A base score (0-100) is computed separately: 70 points for the share of required skills found in the resume, 30 points for years of experience versus the requirement.
+Suggest an adjustment between -${MAX_LLM_ADJUSTMENT} and +${MAX_LLM_ADJUSTMENT} for what keyword matching misses: depth and recency of the skills, relevance of the experience, qualifications, seniority. Use 0 when the base score is fair, and justify any non-zero adjustment with evidence from the resume.
       `.trim(),
-    });
+      })
+    );
 
     const { extraction, analysis } = object;
 
-    // Calculate match score using existing algorithm
+    const skills = normalizeSkills(extraction.skills || []);
+
+    // Deterministic base score from the extracted skills and experience; the LLM
+    // only nudges it within a fixed bound
     const matchResult = calculateMatchScore(
-      extraction.skills || [],
+      skills,
       jobRequirements.requiredSkills || [],
       extraction.totalExperienceYears || 0,
-      jobRequirements.experienceRequired || '0'
+      jobRequirements.experienceRequired || '0',
+      resumeText
     );
 
+    const llmAdjustment = clampLlmAdjustment(analysis.scoreAdjustment);
+    const appliedAdjustment = SCREENING_SCORE_MODE === 'hybrid' ? llmAdjustment : 0;
+    const matchScore = Math.max(0, Math.min(100, matchResult.score + appliedAdjustment));
+
     return {
       name: extraction.name,
       email: extraction.email,
       phone: extraction.phone,
-      skills: extraction.skills || [],
+      skills,
       experience: extraction.experience || [],
       education: extraction.education || [],
       totalExperienceYears: extraction.totalExperienceYears || 0,
-      matchScore: matchResult.score,
+      matchScore,
       matchedSkills: matchResult.matchedSkills,
       missingSkills: matchResult.missingSkills,
       summary: analysis.summary,
       strengths: analysis.strengths || [],
       weaknesses: analysis.weaknesses || [],
       fitVerdict: analysis.fitVerdict,
+      baseScore: matchResult.score,
+      llmAdjustment,
+      llmAdjustmentReason: analysis.adjustmentReason,
+      scoreBreakdown: {
+        mode: SCREENING_SCORE_MODE,
+        skillScore: matchResult.skillScore,
+        experienceScore: matchResult.experienceScore,
+        baseScore: matchResult.score,
+        llmAdjustment,
+        appliedAdjustment,
+        maxAdjustment: MAX_LLM_ADJUSTMENT,
+      },
     };
   } catch (error: any) {
     console.error('Error processing resume:', error);
@@ -1,5 +1,6 @@
-import { openai, OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
+import { OpenAIChatLanguageModelOptions } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
+import { withModelFallback } from './models';
 import { z } from 'zod';
 
 const SummarySchema = z.object({
@@ -15,15 +16,16 @@ export async function generateCandidateSummary(
   matchScore: number
 ) {
   try {
-    const { object } = await generateObject({
-      model: openai("gpt-4o-mini"),
-      schema: SummarySchema,
-      providerOptions: {
-              openai: {
-                strictJsonSchema: false,
-              } satisfies OpenAIChatLanguageModelOptions,
-            },
-      prompt: `
+    const { object } = await withModelFallback('candidate_summary', (model) =>
+      generateObject({
+        model,
+        schema: SummarySchema,
+        providerOptions: {
+                openai: {
+                  strictJsonSchema: false,
+                } satisfies OpenAIChatLanguageModelOptions,
+              },
+        prompt: `
         You are a recruitment expert. Analyze this candidate against the job requirements.
 
         Candidate Profile:
@@ -43,7 +45,8 @@ export async function generateCandidateSummary(
         3. Top 3 weaknesses or gaps
         4. Overall fit verdict (Good Fit if score >= 70, Moderate Fit if 40-69, Low Fit if < 40)
             `.trim(),
-            });
+              })
+    );
 
     return object;
   } catch (error) {
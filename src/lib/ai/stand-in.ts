@@ -0,0 +1,72 @@
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModel } from 'ai';
+import type { MockLanguageModelV3 } from 'ai/test';
+
+// -------------------------
+// STAND-IN MODELS
+// Used with setModelInterceptor to run AI code paths without a provider
+// -------------------------
+
+// Call options (prompt, response format...) the AI SDK passes to a model
+export type ModelCallOptions = Parameters<MockLanguageModelV3['doGenerate']>[0];
+
+/**
+ * Model that answers every call with a previously recorded response text,
+ * or with the text returned for the call when given a function
+ */
+export function createRecordedModel(
+  response: string | ((options: ModelCallOptions) => string | Promise<string>),
+  modelId = 'recorded'
+): LanguageModel {
+  // Test utilities are only loaded once a replay or eval actually needs a stand-in
+  const { MockLanguageModelV3 } = require('ai/test') as typeof import('ai/test');
+
+  return new MockLanguageModelV3({
+    provider: 'recorded',
+    modelId,
+    doGenerate: async (options) => ({
+      content: [
+        {
+          type: 'text',
+          text: typeof response === 'string' ? response : await response(options),
+        },
+      ],
+      finishReason: { unified: 'stop', raw: undefined },
+      usage: {
+        inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 0, text: 0, reasoning: 0 },
+      },
+      warnings: [],
+    }),
+  });
+}
+
+/**
+ * Wrap a real model and hand every raw response text (and the call that
+ * produced it) to onResponse, so it can be saved and replayed later
+ * with createRecordedModel
+ */
+export function captureResponses(
+  model: LanguageModel,
+  onResponse: (text: string, options: ModelCallOptions) => void
+): LanguageModel {
+  if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+    throw new Error('Only v3 language models can be captured');
+  }
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      specificationVersion: 'v3',
+      wrapGenerate: async ({ doGenerate, params }) => {
+        const result = await doGenerate();
+        const text = result.content
+          .map((part) => (part.type === 'text' ? part.text : ''))
+          .join('');
+
+        onResponse(text, params);
+        return result;
+      },
+    },
+  });
+}
@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LanguageModelUsage } from 'ai';
+import type { LLMTask, ModelRoute } from './models';
+
+// -------------------------
+// TYPES
+// -------------------------
+
+export interface UsageContext {
+  userId?: string;
+  jobId?: string; // Screening job
+  sourcingJobId?: string;
+}
+
+interface ModelPrice {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+// -------------------------
+// PRICING
+// -------------------------
+
+// Keyed by model id; extend or override with LLM_PRICING_JSON='{"llama3": {"input": 0, "output": 0}}'
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+let pricing: Record<string, ModelPrice> | null = null;
+
+function getPricing(): Record<string, ModelPrice> {
+  if (pricing) return pricing;
+
+  pricing = { ...MODEL_PRICING };
+
+  if (process.env.LLM_PRICING_JSON) {
+    try {
+      Object.assign(pricing, JSON.parse(process.env.LLM_PRICING_JSON));
+    } catch (error: any) {
+      console.error('⚠️ Invalid LLM_PRICING_JSON:', error.message);
+    }
+  }
+
+  return pricing;
+}
+
+/**
+ * Cost of a call in USD, or null when the model has no known price
+ */
+export function estimateCostUsd(
+  modelId: string,
+  inputTokens: number,
+  outputTokens: number
+): number | null {
+  const price = getPricing()[modelId];
+  if (!price) return null;
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+// -------------------------
+// ATTRIBUTION
+// -------------------------
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Attribute every AI call made inside fn (including nested async work)
+ * to a user and job
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Persist the token usage of one AI call
+ * Never throws: losing a usage row must not fail the AI call itself
+ */
+export async function recordUsage(
+  task: LLMTask,
+  route: ModelRoute,
+  usage: LanguageModelUsage | undefined
+) {
+  if (!usage) return;
+
+  const context = usageContext.getStore() || {};
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+
+  try {
+    // Loaded on first use, so code that never records (evals, replays) needs no database
+    const { prisma } = require('../prisma') as typeof import('../prisma');
+
+    await prisma.aIUsage.create({
+      data: {
+        userId: context.userId,
+        jobId: context.jobId,
+        sourcingJobId: context.sourcingJobId,
+        task,
+        provider: route.provider,
+        model: route.modelId,
+        inputTokens,
+        outputTokens,
+        totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+        costUsd: estimateCostUsd(route.modelId, inputTokens, outputTokens),
+      },
+    });
+  } catch (error: any) {
+    console.error(`⚠️ Failed to record AI usage for ${task}:`, error.message);
+  }
+}
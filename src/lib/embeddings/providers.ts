@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import { embedMany, type EmbeddingModel } from 'ai';
+import { expandSkills, isKnownSkill } from '../skills/taxonomy';
+
+// -------------------------
+// TYPES
+// -------------------------
+
+export interface EmbeddingProvider {
+  // Stored with each vector; vectors from another model are recomputed
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'hash';
+
+// -------------------------
+// PROVIDERS
+// -------------------------
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_DIMENSIONS = 512;
+const HASH_DIMENSIONS = 256;
+
+let override: EmbeddingProvider | null = null;
+
+/**
+ * OpenAI, or any server speaking the OpenAI embeddings API (Ollama, vLLM...)
+ */
+function createApiEmbeddingProvider(
+  name: 'openai' | 'local',
+  modelId: string,
+  dimensions: number
+): EmbeddingProvider {
+  let model: EmbeddingModel;
+
+  if (name === 'local') {
+    if (!process.env.LOCAL_LLM_BASE_URL) {
+      throw new Error('LOCAL_LLM_BASE_URL is not configured');
+    }
+    model = createOpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    }).embedding(modelId);
+  } else {
+    model = openai.embedding(modelId);
+  }
+
+  return {
+    id: `${name}:${modelId}`,
+    dimensions,
+    async embed(texts) {
+      const { embeddings } = await embedMany({
+        model,
+        values: texts,
+        providerOptions: { openai: { dimensions } },
+      });
+      return embeddings;
+    },
+  };
+}
+
+function hashToken(token: string): number {
+  return createHash('md5').update(token).digest().readUInt32LE(0);
+}
+
+/**
+ * Deterministic, offline stand-in: signed feature hashing of words, word
+ * pairs and the skills they imply. Only captures lexical overlap (plus skill
+ * aliases), but it needs no API key and gives stable vectors for tests.
+ */
+export function createHashEmbeddingProvider(dimensions = HASH_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) || [];
+    const skills = expandSkills(words.filter(isKnownSkill)).map((s) => `skill:${s.toLowerCase()}`);
+
+    const features: Array<[string, number]> = [
+      ...words.map((w): [string, number] => [w, 1]),
+      ...words.slice(1).map((w, i): [string, number] => [`${words[i]} ${w}`, 0.5]),
+      ...skills.map((s): [string, number] => [s, 2]),
+    ];
+
+    for (const [feature, weight] of features) {
+      const hash = hashToken(feature);
+      vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  };
+
+  return {
+    id: `hash:v1-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * Replace the configured provider (tests, offline evaluation); pass null to
+ * restore it
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+  override = provider;
+}
+
+/**
+ * Provider from EMBEDDING_PROVIDER (openai | local | hash), EMBEDDING_MODEL and
+ * EMBEDDING_DIMENSIONS. Without configuration, OpenAI is used when a key is
+ * present and the hash provider otherwise
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (override) return override;
+
+  const name = (process.env.EMBEDDING_PROVIDER ||
+    (process.env.OPENAI_API_KEY ? 'openai' : 'hash')) as EmbeddingProviderName;
+  const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '') || DEFAULT_DIMENSIONS;
+
+  switch (name) {
+    case 'openai':
+      return createApiEmbeddingProvider(
+        'openai',
+        process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_MODEL,
+        dimensions
+      );
+
+    case 'local':
+      if (!process.env.EMBEDDING_MODEL) {
+        throw new Error('EMBEDDING_MODEL is required for the local embedding provider');
+      }
+      return createApiEmbeddingProvider('local', process.env.EMBEDDING_MODEL, dimensions);
+
+    case 'hash':
+      return createHashEmbeddingProvider();
+
+    default:
+      throw new Error(`Unknown embedding provider "${name}"`);
+  }
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+
+// Embedding models truncate long input anyway; keep requests small
+const MAX_TEXT_LENGTH = 8000;
+
+function join(parts: Array<string | null | undefined | false>) {
+  return parts
+    .filter(Boolean)
+    .join('\n')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH);
+}
+
+function jsonStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+export function contentHash(text: string) {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * Screening candidate: the resume itself, or the extracted fields when the
+ * raw text was not kept
+ */
+export function candidateText(candidate: {
+  resumeText: string | null;
+  summary: string | null;
+  skills: string[];
+  experience: unknown;
+}) {
+  if (candidate.resumeText?.trim()) {
+    return join([candidate.resumeText]);
+  }
+
+  const roles = Array.isArray(candidate.experience)
+    ? candidate.experience.map((e: any) => join([e?.role, e?.company, e?.description]))
+    : [];
+
+  return join([candidate.summary, ...roles, candidate.skills.join(', ')]);
+}
+
+/**
+ * Sourced profile: headline, current role and each past role with its description
+ */
+export function linkedInCandidateText(candidate: {
+  headline: string | null;
+  currentPosition: string | null;
+  currentCompany: string | null;
+  experience: unknown;
+  skills: unknown;
+}) {
+  const roles = Array.isArray(candidate.experience)
+    ? candidate.experience.map((e: any) => join([e?.title, e?.company, e?.description]))
+    : [];
+
+  return join([
+    candidate.headline,
+    candidate.currentPosition &&
+      `${candidate.currentPosition}${candidate.currentCompany ? ` at ${candidate.currentCompany}` : ''}`,
+    ...roles,
+    jsonStrings(candidate.skills).join(', '),
+  ]);
+}
+
+export function jobText(job: {
+  title: string;
+  description: string | null;
+  requiredSkills: string[];
+  qualifications: string[];
+}) {
+  return join([
+    job.title,
+    job.description,
+    job.requiredSkills.length > 0 && `Required skills: ${job.requiredSkills.join(', ')}`,
+    job.qualifications.length > 0 && `Qualifications: ${job.qualifications.join(', ')}`,
+  ]);
+}
+
+export function sourcingJobText(job: {
+  title: string;
+  rawJobDescription: string;
+  jobRequirements: unknown;
+}) {
+  const requirements = (job.jobRequirements || {}) as Record<string, unknown>;
+
+  return join([
+    job.title,
+    job.rawJobDescription,
+    typeof requirements.requiredSkills === 'string' &&
+      `Required skills: ${requirements.requiredSkills}`,
+    typeof requirements.niceToHave === 'string' && `Nice to have: ${requirements.niceToHave}`,
+  ]);
+}
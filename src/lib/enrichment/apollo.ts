@@ -0,0 +1,89 @@
+// lib/enrichment/apollo.ts
+import { RateLimitError } from "../errors/rate-limit-error";
+import type { EnrichmentProvider, EnrichmentResult } from "./types";
+
+interface ApolloPerson {
+  name?: string;
+  headline?: string;
+  email?: string | null;
+  email_status?: string | null;
+  photo_url?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  phone_numbers?: Array<{ sanitized_number?: string; raw_number?: string }>;
+}
+
+interface ApolloMatchResponse {
+  person?: ApolloPerson | null;
+}
+
+export const apolloProvider: EnrichmentProvider = {
+  name: "apollo",
+
+  isConfigured() {
+    return !!process.env.APOLLO_API_KEY;
+  },
+
+  async enrich({ profileUrl }): Promise<EnrichmentResult> {
+    try {
+      const response = await fetch("https://api.apollo.io/api/v1/people/match", {
+        method: "POST",
+        headers: {
+          "X-Api-Key": process.env.APOLLO_API_KEY!,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ linkedin_url: profileUrl }),
+      });
+
+      if (response.status === 429) {
+        console.error(`⚠️ Apollo rate limit hit`);
+
+        const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+        const resetAt = Number.isFinite(retryAfter)
+          ? new Date(Date.now() + retryAfter * 1000)
+          : new Date(Date.now() + 60 * 60 * 1000); // Default: 1 hour
+
+        throw new RateLimitError("Apollo rate limit exceeded", {
+          type: "apollo",
+          resetAt,
+          retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined,
+          message:
+            "Email enrichment service limit reached. Will retry automatically.",
+        });
+      }
+
+      // 404 is the provider's "unknown person"; anything else is a failed lookup
+      if (!response.ok) {
+        return { hasEmail: false, failed: response.status !== 404 };
+      }
+
+      const { person } = (await response.json()) as ApolloMatchResponse;
+
+      if (!person?.email) {
+        return { hasEmail: false };
+      }
+
+      const phone = person.phone_numbers?.[0];
+
+      return {
+        hasEmail: true,
+        email: person.email,
+        phone: phone?.sanitized_number || phone?.raw_number,
+        emailStatus: person.email_status || undefined,
+        fullName: person.name,
+        headline: person.headline,
+        location: person.city
+          ? `${person.city}, ${person.state || person.country}`
+          : undefined,
+        photoUrl: person.photo_url || undefined,
+        rawData: person,
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) throw error;
+
+      console.error(`❌ Apollo error:`, error.message);
+      return { hasEmail: false, failed: true };
+    }
+  },
+};
@@ -0,0 +1,95 @@
+// lib/enrichment/contact-cache.ts
+import { prisma } from "../prisma";
+import { normalizeLinkedInUrl } from "../utils/deduplication";
+import type { EnrichmentProviderName } from "./types";
+import type { WaterfallResult } from "./index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Contacts found by a provider stay valid for a while; misses are retried sooner
+const POSITIVE_TTL_DAYS = parseInt(process.env.CONTACT_CACHE_TTL_DAYS || "90", 10);
+const NEGATIVE_TTL_DAYS = parseInt(process.env.CONTACT_CACHE_MISS_TTL_DAYS || "14", 10);
+
+/**
+ * Get a non-expired enrichment result the user already paid for
+ */
+export async function getCachedContact(
+  userId: string,
+  profileUrl: string
+): Promise<WaterfallResult | null> {
+  const entry = await prisma.contactCache.findUnique({
+    where: {
+      userId_profileUrl: {
+        userId,
+        profileUrl: normalizeLinkedInUrl(profileUrl),
+      },
+    },
+  });
+
+  if (!entry || entry.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return {
+    hasEmail: entry.hasEmail,
+    email: entry.email || undefined,
+    phone: entry.phone || undefined,
+    emailType: entry.emailType || undefined,
+    emailStatus: entry.emailStatus || undefined,
+    fullName: entry.fullName || undefined,
+    headline: entry.headline || undefined,
+    location: entry.location || undefined,
+    photoUrl: entry.photoUrl || undefined,
+    rawData: entry.rawData,
+    source: (entry.emailSource as EnrichmentProviderName) || undefined,
+  };
+}
+
+/**
+ * Store a waterfall result for reuse in the user's other jobs
+ * Misses are only stored when every provider answered "not found"; a miss
+ * caused by rate limits or provider errors is retried on the next lookup
+ */
+export async function cacheContact(
+  userId: string,
+  profileUrl: string,
+  result: WaterfallResult
+) {
+  if (!result.hasEmail && !result.complete) return;
+
+  const ttlDays = result.hasEmail ? POSITIVE_TTL_DAYS : NEGATIVE_TTL_DAYS;
+
+  const data = {
+    hasEmail: result.hasEmail,
+    email: result.email ?? null,
+    phone: result.phone ?? null,
+    emailSource: result.source ?? null,
+    emailType: result.emailType ?? null,
+    emailStatus: result.emailStatus ?? null,
+    fullName: result.fullName ?? null,
+    headline: result.headline ?? null,
+    location: result.location ?? null,
+    photoUrl: result.photoUrl ?? null,
+    rawData: (result.rawData as any) ?? undefined,
+    expiresAt: new Date(Date.now() + ttlDays * DAY_MS),
+  };
+
+  const normalizedUrl = normalizeLinkedInUrl(profileUrl);
+
+  await prisma.contactCache.upsert({
+    where: { userId_profileUrl: { userId, profileUrl: normalizedUrl } },
+    create: { userId, profileUrl: normalizedUrl, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Remove expired entries (called from the cron cleanup)
+ */
+export async function purgeExpiredContacts() {
+  const { count } = await prisma.contactCache.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  return count;
+}
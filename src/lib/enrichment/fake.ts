@@ -0,0 +1,63 @@
+// lib/enrichment/fake.ts
+import { createHash } from "crypto";
+import { RateLimitError } from "../errors/rate-limit-error";
+import type { EnrichmentProvider, EnrichmentResult } from "./types";
+
+export interface FakeProviderOptions {
+  // Share of profiles (0-1) that get an email; decided per URL so runs are repeatable
+  hitRate?: number;
+  // Throw RateLimitError after this many calls
+  rateLimitAfter?: number;
+}
+
+/**
+ * Local provider that never calls the network
+ * Used in development and tests (ENRICHMENT_PROVIDERS=fake)
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): EnrichmentProvider {
+  const hitRate = options.hitRate ?? 1;
+  let calls = 0;
+
+  return {
+    name: "fake",
+
+    isConfigured() {
+      return true;
+    },
+
+    async enrich({ profileUrl, fullName }): Promise<EnrichmentResult> {
+      calls++;
+
+      if (options.rateLimitAfter !== undefined && calls > options.rateLimitAfter) {
+        throw new RateLimitError("Fake provider rate limit exceeded", {
+          type: "fake",
+          resetAt: new Date(Date.now() + 60 * 1000),
+          message: "Fake enrichment limit reached.",
+        });
+      }
+
+      const digest = createHash("sha1").update(profileUrl).digest();
+      if (digest[0] / 255 >= hitRate) {
+        return { hasEmail: false };
+      }
+
+      const slug =
+        profileUrl.replace(/\/+$/, "").split("/").pop()?.toLowerCase() || "candidate";
+
+      return {
+        hasEmail: true,
+        email: `${slug}@example.com`,
+        emailType: "Direct",
+        emailStatus: "Valid",
+        fullName: fullName || undefined,
+        rawData: { fake: true, profileUrl },
+      };
+    },
+  };
+}
+
+export const fakeProvider = createFakeProvider({
+  hitRate: process.env.FAKE_ENRICHMENT_HIT_RATE
+    ? parseFloat(process.env.FAKE_ENRICHMENT_HIT_RATE)
+    : 1,
+});
@@ -0,0 +1,106 @@
+// lib/enrichment/index.ts
+import { RateLimitError } from "../errors/rate-limit-error";
+import { salesqlProvider } from "./salesql";
+import { apolloProvider } from "./apollo";
+import { fakeProvider } from "./fake";
+import { isReplayActive, replayableProvider } from "../replay";
+import type {
+  EnrichmentInput,
+  EnrichmentProvider,
+  EnrichmentProviderName,
+  EnrichmentResult,
+} from "./types";
+
+export * from "./types";
+export { createFakeProvider } from "./fake";
+export { getCachedContact, cacheContact, purgeExpiredContacts } from "./contact-cache";
+
+const PROVIDERS: Record<EnrichmentProviderName, EnrichmentProvider> = {
+  salesql: salesqlProvider,
+  apollo: apolloProvider,
+  fake: fakeProvider,
+};
+
+const DEFAULT_WATERFALL = "salesql,apollo";
+
+/**
+ * Configured providers in waterfall order
+ * Order comes from ENRICHMENT_PROVIDERS (e.g. "salesql,apollo"); providers
+ * without credentials are left out. Lookups are recorded or replayed while a
+ * replay session is active
+ */
+export function getEnrichmentProviders(): EnrichmentProvider[] {
+  const names = (process.env.ENRICHMENT_PROVIDERS || DEFAULT_WATERFALL)
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names
+    .map((name) => {
+      const provider = PROVIDERS[name as EnrichmentProviderName];
+      if (!provider) {
+        console.warn(`⚠️ Unknown enrichment provider "${name}" - skipping`);
+        return provider;
+      }
+      return isReplayActive() ? replayableProvider(provider) : provider;
+    })
+    .filter((provider): provider is EnrichmentProvider => !!provider && provider.isConfigured());
+}
+
+export interface WaterfallResult extends EnrichmentResult {
+  // Provider that found the email (recorded as emailSource)
+  source?: EnrichmentProviderName;
+  // On a miss: every provider was asked and answered "not found". A miss
+  // with rate-limited or failed providers is not definitive
+  complete?: boolean;
+}
+
+/**
+ * Tries providers in order until one returns an email
+ * Rate-limited providers are skipped for the rest of the run via rateLimitedUntil;
+ * RateLimitError is only thrown when every provider is rate-limited
+ */
+export async function enrichWithWaterfall(
+  input: EnrichmentInput,
+  providers: EnrichmentProvider[],
+  rateLimitedUntil: Map<EnrichmentProviderName, RateLimitError>
+): Promise<WaterfallResult> {
+  let complete = true;
+
+  for (const provider of providers) {
+    const limited = rateLimitedUntil.get(provider.name);
+
+    if (limited) {
+      if (limited.metadata.resetAt > new Date()) {
+        complete = false;
+        continue;
+      }
+      rateLimitedUntil.delete(provider.name);
+    }
+
+    try {
+      const result = await provider.enrich(input);
+
+      if (result.hasEmail) {
+        return { ...result, source: provider.name };
+      }
+
+      if (result.failed) complete = false;
+    } catch (error: any) {
+      if (!(error instanceof RateLimitError)) throw error;
+
+      console.warn(`   ⏭️  ${provider.name} rate limited - falling through to next provider`);
+      rateLimitedUntil.set(provider.name, error);
+      complete = false;
+    }
+  }
+
+  // Every provider is throttled: surface the one that recovers first
+  if (providers.length > 0 && providers.every((p) => rateLimitedUntil.has(p.name))) {
+    const errors = providers.map((p) => rateLimitedUntil.get(p.name)!);
+    errors.sort((a, b) => a.metadata.resetAt.getTime() - b.metadata.resetAt.getTime());
+    throw errors[0];
+  }
+
+  return { hasEmail: false, complete: complete && providers.length > 0 };
+}
@@ -0,0 +1,129 @@
+// lib/enrichment/salesql.ts
+import { RateLimitError } from "../errors/rate-limit-error";
+import type { EnrichmentProvider, EnrichmentResult } from "./types";
+
+interface SalesQLEmail {
+  email: string;
+  type: string;
+  status: "Valid" | "Unverifiable" | string;
+}
+
+interface SalesQLPhone {
+  phone: string;
+  type: string;
+  country_code?: string;
+  is_valid?: boolean;
+}
+
+interface SalesQLLocation {
+  city?: string;
+  state?: string;
+  country_code?: string;
+  country?: string;
+}
+
+interface SalesQLResponse {
+  uuid?: string;
+  first_name?: string;
+  last_name?: string;
+  full_name?: string;
+  linkedin_url?: string;
+  headline?: string;
+  emails?: SalesQLEmail[];
+  phones?: SalesQLPhone[];
+  location?: SalesQLLocation;
+  industry?: string;
+  image?: string;
+}
+
+export const salesqlProvider: EnrichmentProvider = {
+  name: "salesql",
+
+  isConfigured() {
+    return !!process.env.SALESQL_API_KEY;
+  },
+
+  async enrich({ profileUrl }): Promise<EnrichmentResult> {
+    try {
+      const response = await fetch(
+        `https://api-public.salesql.com/v1/persons/enrich/?linkedin_url=${encodeURIComponent(
+          profileUrl
+        )}`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${process.env.SALESQL_API_KEY}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (response.status === 429) {
+        console.error(`⚠️ SalesQL rate limit hit`);
+
+        // Try to get reset time from headers (if available)
+        const resetHeader =
+          response.headers.get("X-RateLimit-Reset") ||
+          response.headers.get("Retry-After");
+
+        const resetAt = resetHeader
+          ? new Date(parseInt(resetHeader) * 1000)
+          : new Date(Date.now() + 24 * 60 * 60 * 1000); // Default: 24 hours
+
+        throw new RateLimitError("SalesQL rate limit exceeded", {
+          type: "salesql",
+          resetAt,
+          message:
+            "Email enrichment service limit reached. Will retry automatically.",
+        });
+      }
+
+      // 404 is the provider's "unknown person"; anything else is a failed lookup
+      if (!response.ok) {
+        return { hasEmail: false, failed: response.status !== 404 };
+      }
+
+      const data: SalesQLResponse = (await response.json()) as SalesQLResponse;
+
+      if (!data.emails || data.emails.length === 0) {
+        return { hasEmail: false };
+      }
+
+      const validDirect = data.emails.find(
+        (e: SalesQLEmail) => e.status === "Valid" && e.type === "Direct"
+      );
+      const validAny = data.emails.find(
+        (e: SalesQLEmail) => e.status === "Valid"
+      );
+      const bestEmail = validDirect || validAny || data.emails[0];
+
+      let phone: string | undefined;
+      if (data.phones && data.phones.length > 0) {
+        const validPhone = data.phones.find(
+          (p: SalesQLPhone) => p.is_valid === true
+        );
+        phone = (validPhone || data.phones[0]).phone;
+      }
+
+      return {
+        hasEmail: true,
+        email: bestEmail.email,
+        phone,
+        emailType: bestEmail.type,
+        emailStatus: bestEmail.status,
+        fullName: data.full_name,
+        headline: data.headline,
+        location: data.location?.city
+          ? `${data.location.city}, ${data.location.state || data.location.country}`
+          : undefined,
+        photoUrl: data.image,
+        rawData: data,
+      };
+    } catch (error: any) {
+      if (error instanceof RateLimitError) throw error;
+
+      console.error(`❌ SalesQL error:`, error.message);
+      return { hasEmail: false, failed: true };
+    }
+  },
+};
@@ -0,0 +1,43 @@
+// lib/enrichment/types.ts
+
+export type EnrichmentProviderName = "salesql" | "apollo" | "fake";
+
+/**
+ * Contact data returned by a provider, normalized across providers
+ */
+export interface EnrichmentResult {
+  hasEmail: boolean;
+  // The provider could not answer (network error, non-OK response), so a
+  // missing email says nothing about the person
+  failed?: boolean;
+  email?: string;
+  phone?: string;
+  emailType?: string;
+  emailStatus?: string;
+  fullName?: string;
+  headline?: string;
+  location?: string;
+  photoUrl?: string;
+  rawData?: unknown;
+}
+
+/**
+ * Search result fields providers can use to match a person
+ */
+export interface EnrichmentInput {
+  profileUrl: string;
+  fullName?: string | null;
+  currentCompany?: string | null;
+}
+
+/**
+ * A contact-enrichment service
+ * enrich() resolves { hasEmail: false } when the person is unknown,
+ * { hasEmail: false, failed: true } when the lookup itself failed, and throws
+ * RateLimitError when the provider is throttling us
+ */
+export interface EnrichmentProvider {
+  name: EnrichmentProviderName;
+  isConfigured(): boolean;
+  enrich(input: EnrichmentInput): Promise<EnrichmentResult>;
+}
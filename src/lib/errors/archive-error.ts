@@ -0,0 +1,16 @@
+// lib/errors/archive-error.ts
+
+export interface ArchiveErrorMetadata {
+  reason: "invalid_archive" | "too_many_entries" | "too_large" | "suspicious_compression";
+  fileName?: string;
+}
+
+export class ArchiveError extends Error {
+  public metadata: ArchiveErrorMetadata;
+
+  constructor(message: string, metadata: ArchiveErrorMetadata) {
+    super(message);
+    this.name = "ArchiveError";
+    this.metadata = metadata;
+  }
+}
@@ -1,7 +1,7 @@
 // lib/errors/rate-limit-error.ts
 
 export interface RateLimitMetadata {
-  type: "apify_search" | "apify_scrape" | "salesql";
+  type: "apify_search" | "apify_scrape" | "salesql" | "apollo" | "fake";
   resetAt: Date;
   retryAfter?: number; // seconds
   message?: string;
@@ -0,0 +1,226 @@
+import { Candidate, CreditCategory } from '@prisma/client';
+import { prisma } from '../prisma';
+import { parseResumeBuffer } from '../utils/file-parser';
+import { processResumeCombined, JobRequirements } from '../ai/resume-processor';
+import { getSupabaseFile } from '../storage/supabase';
+import { creditService } from '../../services/credit.service';
+
+export interface ScreeningJobContext {
+  jobId: string;
+  userId: string;
+  jobRequirements: JobRequirements;
+  scoringVersion: string;
+}
+
+export interface ScreeningBatchResult {
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Screen a batch of candidates belonging to the same job
+ * Fetches, parses and analyzes resumes in parallel, then persists results,
+ * deducts one screening credit per success and records failures per candidate
+ *
+ * @param batch - Candidates already marked as processing
+ * @param context - Job the candidates belong to
+ * @returns Number of processed and failed candidates
+ */
+export async function processScreeningBatch(
+  batch: Candidate[],
+  context: ScreeningJobContext
+): Promise<ScreeningBatchResult> {
+  const { jobId, userId, jobRequirements, scoringVersion } = context;
+
+  try {
+    // Pre-fetch all files in parallel
+    console.log('Fetching files in parallel...');
+    const fileResults = await Promise.allSettled(
+      batch.map(async (candidate) => {
+        if (!candidate.resumePath) {
+          throw new Error('Resume path is missing');
+        }
+
+        const { buffer: fileBuffer, mimeType } = await getSupabaseFile(
+          candidate.resumePath
+        );
+
+        return {
+          candidateId: candidate.id,
+          buffer: fileBuffer,
+          mimeType,
+          resumePath: candidate.resumePath,
+        };
+      })
+    );
+
+    // Parse all files in parallel
+    console.log('Parsing files in parallel...');
+    const parseResults = await Promise.allSettled(
+      fileResults.map(async (result) => {
+        if (result.status === 'rejected') {
+          throw result.reason;
+        }
+
+        const { candidateId, buffer, mimeType, resumePath } = result.value;
+
+        const resumeText = await parseResumeBuffer(buffer, mimeType, resumePath);
+
+        if (!resumeText || resumeText.trim().length === 0) {
+          throw new Error('Resume parsing returned empty text');
+        }
+
+        // Surface progress to screening stream subscribers
+        await prisma.candidate.update({
+          where: { id: candidateId },
+          data: { processingStage: 'parsed', resumeText },
+        });
+
+        return {
+          candidateId,
+          resumeText,
+        };
+      })
+    );
+
+    // Process all resumes with AI in parallel (combined extraction + analysis)
+    console.log('Processing with AI in parallel (combined extraction + summary)...');
+    const aiResults = await Promise.allSettled(
+      parseResults.map(async (result) => {
+        if (result.status === 'rejected') {
+          throw result.reason;
+        }
+
+        const { candidateId, resumeText } = result.value;
+
+        const processedResult = await processResumeCombined(
+          resumeText,
+          jobRequirements
+        );
+
+        return {
+          candidateId,
+          resumeText,
+          ...processedResult,
+        };
+      })
+    );
+
+    // Batch update all successful candidates
+    const successfulUpdates = aiResults
+      .map((result, idx) => ({
+        result,
+        candidate: batch[idx],
+      }))
+      .filter((item) => item.result.status === 'fulfilled')
+      .map((item) => ({
+        candidate: item.candidate,
+        data: (item.result as PromiseFulfilledResult<any>).value,
+      }));
+
+    console.log(`Updating ${successfulUpdates.length} successful candidates...`);
+
+    await Promise.all(
+      successfulUpdates.map(({ candidate, data }) =>
+        prisma.candidate.update({
+          where: { id: candidate.id },
+          data: {
+            name: data.name,
+            email: data.email,
+            phone: data.phone,
+            resumeText: data.resumeText,
+            skills: data.skills,
+            experience: data.experience as any,
+            education: data.education as any,
+            totalExperienceYears: data.totalExperienceYears,
+            matchScore: data.matchScore,
+            baseScore: data.baseScore,
+            llmAdjustment: data.llmAdjustment,
+            llmAdjustmentReason: data.llmAdjustmentReason,
+            scoreBreakdown: data.scoreBreakdown as any,
+            matchedSkills: data.matchedSkills,
+            missingSkills: data.missingSkills,
+            fitVerdict: data.fitVerdict,
+            summary: data.summary,
+            strengths: data.strengths,
+            weaknesses: data.weaknesses,
+            scoringVersion,
+            processingStatus: 'completed',
+            processingStage: 'scored',
+            processingError: null,
+            updatedAt: new Date(),
+          },
+        })
+      )
+    );
+
+    // Deduct screening credits for each successfully processed candidate
+    for (const { candidate } of successfulUpdates) {
+      try {
+        await creditService.deductCredits(
+          userId,
+          CreditCategory.SCREENING,
+          1,
+          jobId,
+          'JOB',
+          `Resume screening for candidate ${candidate.id}`
+        );
+      } catch (creditError: any) {
+        console.error(`⚠️ Failed to deduct screening credit:`, creditError.message);
+        // Don't fail the entire batch, just log the error
+      }
+    }
+
+    // Handle failures
+    const failures = aiResults
+      .map((result, idx) => ({
+        result,
+        candidate: batch[idx],
+      }))
+      .filter((item) => item.result.status === 'rejected');
+
+    if (failures.length > 0) {
+      console.log(`Handling ${failures.length} failed candidates...`);
+
+      await Promise.all(
+        failures.map(({ candidate, result }) =>
+          prisma.candidate.update({
+            where: { id: candidate.id },
+            data: {
+              processingStatus: 'failed',
+              processingStage: 'failed',
+              processingError:
+                (result as PromiseRejectedResult).reason?.message || 'Processing failed',
+            },
+          })
+        )
+      );
+    }
+
+    return {
+      processed: successfulUpdates.length,
+      failed: failures.length,
+    };
+  } catch (batchErr: any) {
+    console.error('Critical batch error:', batchErr);
+
+    // Mark all candidates in this batch as failed
+    await Promise.all(
+      batch.map((candidate) =>
+        prisma.candidate.update({
+          where: { id: candidate.id },
+          data: {
+            processingStatus: 'failed',
+            processingStage: 'failed',
+            processingError: batchErr?.message || 'Batch processing failed',
+          },
+        })
+      )
+    );
+
+    return {
+      processed: 0,
+      failed: batch.length,
+    };
+  }
+}
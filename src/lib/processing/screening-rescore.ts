@@ -0,0 +1,94 @@
+import { prisma } from '../prisma';
+import { processResumeCombined } from '../ai/resume-processor';
+import { scoringVersionFor } from '../scoring/score-history';
+
+const BATCH_SIZE = 12;
+
+/**
+ * Re-score a screening job's completed candidates against its current requirements
+ * Reuses the resume text parsed during screening, so no files are fetched and
+ * no screening credits are charged. The caller snapshots the previous ranking
+ * and bumps scoringRevision first
+ */
+export async function rescoreScreeningJob(jobId: string) {
+  const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+  if (!job) throw new Error('Job not found');
+
+  const scoringVersion = scoringVersionFor(job.scoringRevision);
+  const jobRequirements = {
+    requiredSkills: job.requiredSkills || [],
+    experienceRequired: job.experienceRequired || '0',
+    qualifications: job.qualifications || [],
+  };
+
+  const failedIds: string[] = [];
+  let rescored = 0;
+
+  try {
+    while (true) {
+      const batch = await prisma.candidate.findMany({
+        where: {
+          jobId,
+          processingStatus: 'completed',
+          resumeText: { not: null },
+          id: { notIn: failedIds },
+          OR: [{ scoringVersion: null }, { scoringVersion: { not: scoringVersion } }],
+        },
+        take: BATCH_SIZE,
+      });
+
+      if (batch.length === 0) break;
+
+      // Keeps cron from treating a long re-score as abandoned
+      await prisma.job.update({ where: { id: jobId }, data: { rescoreStartedAt: new Date() } });
+
+      const results = await Promise.allSettled(
+        batch.map((candidate) => processResumeCombined(candidate.resumeText!, jobRequirements))
+      );
+
+      await Promise.all(
+        results.map((result, idx) => {
+          const candidate = batch[idx];
+
+          if (result.status === 'rejected') {
+            console.error(`❌ Re-scoring failed for candidate ${candidate.id}:`, result.reason?.message);
+            failedIds.push(candidate.id);
+            return null;
+          }
+
+          rescored++;
+
+          // Only the analysis changes; extracted profile data stays as screened
+          return prisma.candidate.update({
+            where: { id: candidate.id },
+            data: {
+              matchScore: result.value.matchScore,
+              baseScore: result.value.baseScore,
+              llmAdjustment: result.value.llmAdjustment,
+              llmAdjustmentReason: result.value.llmAdjustmentReason,
+              scoreBreakdown: result.value.scoreBreakdown as any,
+              matchedSkills: result.value.matchedSkills,
+              missingSkills: result.value.missingSkills,
+              fitVerdict: result.value.fitVerdict,
+              summary: result.value.summary,
+              strengths: result.value.strengths,
+              weaknesses: result.value.weaknesses,
+              scoringVersion,
+            },
+          });
+        })
+      );
+    }
+  } finally {
+    // A screening run started meanwhile owns the status now; leave it alone
+    await prisma.job.updateMany({
+      where: { id: jobId, status: 'rescoring' },
+      data: { status: 'completed', rescoreStartedAt: null },
+    });
+  }
+
+  console.log(`✅ Re-scored ${rescored} candidates for job ${jobId} (${failedIds.length} failed)`);
+
+  return { rescored, failed: failedIds.length };
+}
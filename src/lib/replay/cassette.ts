@@ -0,0 +1,152 @@
+// lib/replay/cassette.ts
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { RateLimitError } from "../errors/rate-limit-error";
+
+/**
+ * One recorded call to an external service
+ * Hand-written fixtures may leave out `key` (matched in order) and set
+ * `repeat` so the same answer is served to every matching call
+ */
+export interface RecordedInteraction {
+  service: string; // "apify_search", "apify_scrape", "enrichment:salesql", "ai:candidate_scoring"...
+  key?: string;
+  request?: unknown;
+  response?: unknown;
+  error?: RecordedError;
+  repeat?: boolean;
+}
+
+export interface RecordedError {
+  name: string;
+  message: string;
+  // RateLimitError metadata; resetAt is stored relative to the call (resetInMs)
+  metadata?: Record<string, any>;
+}
+
+export interface Cassette {
+  description?: string;
+  recordedAt?: string;
+  interactions: RecordedInteraction[];
+}
+
+export class ReplayMissError extends Error {
+  constructor(service: string, key: string) {
+    super(`No recorded interaction left for ${service} (key ${key})`);
+    this.name = "ReplayMissError";
+  }
+}
+
+/**
+ * JSON with sorted object keys, so equal requests hash the same
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+      : v
+  );
+}
+
+export function requestKey(request: unknown): string {
+  return createHash("sha1")
+    .update(stableStringify(request) ?? "")
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function serializeError(error: any): RecordedError {
+  if (error instanceof RateLimitError) {
+    const { resetAt, ...metadata } = error.metadata;
+    return {
+      name: error.name,
+      message: error.message,
+      metadata: { ...metadata, resetInMs: resetAt.getTime() - Date.now() },
+    };
+  }
+
+  return { name: error?.name || "Error", message: error?.message || String(error) };
+}
+
+/**
+ * Rebuild a recorded error; rate limits reset relative to now so a replayed
+ * run sees the same "still throttled" window as the recording did
+ */
+export function deserializeError(recorded: RecordedError): Error {
+  if (recorded.name === "RateLimitError") {
+    const { resetInMs, ...metadata } = recorded.metadata || {};
+    return new RateLimitError(recorded.message, {
+      ...metadata,
+      type: metadata.type,
+      resetAt: new Date(Date.now() + (resetInMs ?? 60 * 60 * 1000)),
+    });
+  }
+
+  const error = new Error(recorded.message);
+  error.name = recorded.name;
+  return error;
+}
+
+/**
+ * Recorded interactions of one run, consumed in order during replay
+ */
+export class CassetteStore {
+  private used = new Set<number>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly cassette: Cassette
+  ) {}
+
+  static load(filePath: string): CassetteStore {
+    const cassette: Cassette = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return new CassetteStore(filePath, { ...cassette, interactions: cassette.interactions || [] });
+  }
+
+  static empty(filePath: string, description?: string): CassetteStore {
+    return new CassetteStore(filePath, {
+      description,
+      recordedAt: new Date().toISOString(),
+      interactions: [],
+    });
+  }
+
+  hasService(service: string): boolean {
+    return this.cassette.interactions.some((i) => i.service === service);
+  }
+
+  /**
+   * Next unused interaction for a service: same key first, then any
+   * interaction without a key, in recorded order
+   */
+  take(service: string, key: string): RecordedInteraction {
+    const candidates = this.cassette.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction, index }) =>
+        interaction.service === service && (interaction.repeat || !this.used.has(index))
+      );
+
+    const match =
+      candidates.find(({ interaction }) => interaction.key === key) ||
+      candidates.find(({ interaction }) => !interaction.key);
+
+    if (!match) {
+      throw new ReplayMissError(service, key);
+    }
+
+    this.used.add(match.index);
+    return match.interaction;
+  }
+
+  /**
+   * Append an interaction and write the cassette straight away, so a run
+   * that crashes midway still leaves a usable fixture
+   */
+  add(interaction: RecordedInteraction) {
+    this.cassette.interactions.push(interaction);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.cassette, null, 2) + "\n");
+  }
+}
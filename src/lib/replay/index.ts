@@ -0,0 +1,140 @@
+// lib/replay/index.ts
+import { setModelInterceptor } from "../ai/models";
+import { captureResponses, createRecordedModel } from "../ai/stand-in";
+import type { EnrichmentProvider } from "../enrichment/types";
+import {
+  CassetteStore,
+  deserializeError,
+  requestKey,
+  serializeError,
+} from "./cassette";
+
+export * from "./cassette";
+
+export type ReplayMode = "record" | "replay";
+
+interface ReplaySession {
+  mode: ReplayMode;
+  store: CassetteStore;
+}
+
+let session: ReplaySession | null = null;
+let envChecked = false;
+
+/**
+ * Record external calls (Apify, enrichment providers, AI) to a fixture file,
+ * or serve them back from one without touching the network
+ * Also enabled from the environment: SOURCING_REPLAY=record|replay and
+ * SOURCING_REPLAY_FIXTURE=path/to/cassette.json
+ */
+export function startReplay(mode: ReplayMode, fixturePath: string, description?: string) {
+  const store =
+    mode === "replay"
+      ? CassetteStore.load(fixturePath)
+      : CassetteStore.empty(fixturePath, description);
+
+  session = { mode, store };
+  envChecked = true;
+
+  setModelInterceptor((task, _route, create) => {
+    const service = `ai:${task}`;
+
+    if (mode === "replay") {
+      // Recorded responses are raw text; hand-written ones may be plain objects
+      return createRecordedModel((options) => {
+        const { response } = store.take(service, requestKey(options.prompt));
+        return typeof response === "string" ? response : JSON.stringify(response);
+      }, `replay:${task}`);
+    }
+
+    return captureResponses(create(), (text, options) => {
+      store.add({ service, key: requestKey(options.prompt), response: text });
+    });
+  });
+
+  console.log(`📼 ${mode === "replay" ? "Replaying" : "Recording"} external calls (${fixturePath})`);
+}
+
+export function stopReplay() {
+  session = null;
+  setModelInterceptor(null);
+}
+
+/**
+ * Start the session configured by SOURCING_REPLAY / SOURCING_REPLAY_FIXTURE
+ * (once per process); a no-op when they are not set
+ */
+export function initReplayFromEnv() {
+  if (envChecked) return;
+  envChecked = true;
+
+  const mode = process.env.SOURCING_REPLAY as ReplayMode | undefined;
+  if (mode === "record" || mode === "replay") {
+    if (!process.env.SOURCING_REPLAY_FIXTURE) {
+      throw new Error("SOURCING_REPLAY_FIXTURE is required when SOURCING_REPLAY is set");
+    }
+    startReplay(mode, process.env.SOURCING_REPLAY_FIXTURE);
+  }
+}
+
+function getSession(): ReplaySession | null {
+  initReplayFromEnv();
+  return session;
+}
+
+export function isReplayActive(): boolean {
+  return getSession() !== null;
+}
+
+/**
+ * Run an external call through the active session: recorded in record mode,
+ * answered from the fixture (including recorded errors) in replay mode,
+ * called directly otherwise
+ */
+export async function withReplay<T>(
+  service: string,
+  request: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  const active = getSession();
+  if (!active) return call();
+
+  const key = requestKey(request);
+
+  if (active.mode === "replay") {
+    const interaction = active.store.take(service, key);
+    if (interaction.error) throw deserializeError(interaction.error);
+    return interaction.response as T;
+  }
+
+  try {
+    const response = await call();
+    active.store.add({ service, key, request, response });
+    return response;
+  } catch (error) {
+    active.store.add({ service, key, request, error: serializeError(error) });
+    throw error;
+  }
+}
+
+/**
+ * Enrichment provider whose lookups go through the active session
+ * During replay a provider counts as configured when the fixture has calls
+ * for it, so the waterfall takes the same path it did while recording
+ */
+export function replayableProvider(provider: EnrichmentProvider): EnrichmentProvider {
+  const service = `enrichment:${provider.name}`;
+
+  return {
+    name: provider.name,
+
+    isConfigured() {
+      const active = getSession();
+      return active?.mode === "replay" ? active.store.hasService(service) : provider.isConfigured();
+    },
+
+    enrich(input) {
+      return withReplay(service, input, () => provider.enrich(input));
+    },
+  };
+}
@@ -0,0 +1,246 @@
+// lib/scoring/comparison.ts
+import { prisma } from "../prisma";
+
+export type SkillStatus = "matched" | "missing" | "bonus" | null;
+
+export interface TimelineEntry {
+  title: string | null;
+  company: string | null;
+  duration: string | null;
+}
+
+/**
+ * One candidate of either type, reduced to what the comparison shows
+ */
+export interface ComparisonEntry {
+  id: string;
+  name: string;
+  headline: string | null;
+  matchScore: number | null;
+  verdict: string | null;
+  summary: string | null;
+  experienceYears: number | null;
+  scores: Record<string, number | null>;
+  matchedSkills: string[];
+  missingSkills: string[];
+  bonusSkills: string[];
+  strengths: string[];
+  redFlags: string[];
+  gapsAndTradeoffs: unknown;
+  experience: TimelineEntry[];
+}
+
+interface ScoreDimension {
+  key: string;
+  label: string;
+}
+
+export const SOURCING_SCORE_DIMENSIONS: ScoreDimension[] = [
+  { key: "matchScore", label: "Overall match" },
+  { key: "skillsScore", label: "Skills" },
+  { key: "experienceScore", label: "Experience" },
+  { key: "industryScore", label: "Industry" },
+  { key: "titleScore", label: "Title" },
+  { key: "niceToHaveScore", label: "Nice to have" },
+  { key: "experienceRelevanceScore", label: "Experience relevance" },
+  { key: "interviewConfidenceScore", label: "Interview confidence" },
+];
+
+export const SCREENING_SCORE_DIMENSIONS: ScoreDimension[] = [
+  { key: "matchScore", label: "Overall match" },
+  { key: "skillScore", label: "Skills" },
+  { key: "experienceScore", label: "Experience" },
+  { key: "baseScore", label: "Base score" },
+  { key: "appliedAdjustment", label: "AI adjustment" },
+];
+
+// Credits of the job's category charged for an AI recommendation
+export const RECOMMENDATION_CREDITS = 1;
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function timeline(value: unknown): TimelineEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.map((e: any) => ({
+    title: e?.title ?? e?.role ?? null,
+    company: e?.company ?? null,
+    duration: e?.duration ?? null,
+  }));
+}
+
+/**
+ * Sourced candidates of one job, in the order of ids; null when any id is
+ * not a candidate of that job
+ */
+export async function loadSourcingComparisonEntries(
+  sourcingJobId: string,
+  ids: string[]
+): Promise<ComparisonEntry[] | null> {
+  const candidates = await prisma.linkedInCandidate.findMany({
+    where: { id: { in: ids }, sourcingJobId },
+  });
+
+  if (candidates.length !== ids.length) return null;
+
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+
+  return ids.map((id) => {
+    const c = byId.get(id)!;
+
+    return {
+      id: c.id,
+      name: c.fullName,
+      headline: c.headline || c.currentPosition,
+      matchScore: c.isScored ? c.matchScore : null,
+      verdict: c.interviewReadiness,
+      summary: c.candidateSummary,
+      experienceYears: c.experienceYears,
+      scores: Object.fromEntries(
+        SOURCING_SCORE_DIMENSIONS.map(({ key }) => [
+          key,
+          c.isScored ? ((c as any)[key] ?? null) : null,
+        ])
+      ),
+      matchedSkills: stringArray(c.matchedSkills),
+      missingSkills: stringArray(c.missingSkills),
+      bonusSkills: stringArray(c.bonusSkills),
+      strengths: stringArray(c.keyStrengths),
+      redFlags: stringArray(c.redFlags),
+      gapsAndTradeoffs: c.gapsAndTradeoffs,
+      experience: timeline(c.experience),
+    };
+  });
+}
+
+/**
+ * Screened candidates of one job, in the order of ids; null when any id is
+ * not a candidate of that job
+ */
+export async function loadScreeningComparisonEntries(
+  jobId: string,
+  ids: string[]
+): Promise<ComparisonEntry[] | null> {
+  const candidates = await prisma.candidate.findMany({
+    where: { id: { in: ids }, jobId },
+  });
+
+  if (candidates.length !== ids.length) return null;
+
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+
+  return ids.map((id) => {
+    const c = byId.get(id)!;
+    const breakdown = (c.scoreBreakdown || {}) as Record<string, unknown>;
+    const score = (key: string) =>
+      typeof breakdown[key] === "number" ? (breakdown[key] as number) : null;
+
+    return {
+      id: c.id,
+      name: c.name,
+      headline: timeline(c.experience)[0]?.title ?? null,
+      matchScore: c.matchScore,
+      verdict: c.fitVerdict,
+      summary: c.summary,
+      experienceYears: c.totalExperienceYears,
+      scores: {
+        matchScore: c.matchScore,
+        skillScore: score("skillScore"),
+        experienceScore: score("experienceScore"),
+        baseScore: c.baseScore ?? score("baseScore"),
+        appliedAdjustment: score("appliedAdjustment") ?? c.llmAdjustment,
+      },
+      matchedSkills: c.matchedSkills,
+      missingSkills: c.missingSkills,
+      bonusSkills: [],
+      strengths: c.strengths,
+      // Screening has no separate red flags; its weaknesses play that role
+      redFlags: c.weaknesses,
+      gapsAndTradeoffs: null,
+      experience: timeline(c.experience),
+    };
+  });
+}
+
+/**
+ * Side-by-side view: every per-candidate list is in the same order as
+ * `candidates`, so index i of any row belongs to candidate i
+ */
+export function buildComparison(entries: ComparisonEntry[], dimensions: ScoreDimension[]) {
+  const ranked = [...entries]
+    .filter((e) => e.matchScore != null)
+    .sort((a, b) => b.matchScore! - a.matchScore!);
+
+  const scores = dimensions.map(({ key, label }) => {
+    const values = entries.map((e) => e.scores[key] ?? null);
+    const present = values.filter((v): v is number => v != null);
+    const best = present.length > 0 ? Math.max(...present) : null;
+
+    return {
+      dimension: key,
+      label,
+      values,
+      // Several leaders on a tie; none when nobody has the score
+      leaderIds: best == null ? [] : entries.filter((_, i) => values[i] === best).map((e) => e.id),
+      spread: present.length > 1 ? Math.round((best! - Math.min(...present)) * 10) / 10 : 0,
+    };
+  });
+
+  const skillNames = new Map<string, string>();
+  for (const e of entries) {
+    for (const skill of [...e.matchedSkills, ...e.missingSkills, ...e.bonusSkills]) {
+      if (!skillNames.has(skill.toLowerCase())) skillNames.set(skill.toLowerCase(), skill);
+    }
+  }
+
+  const has = (list: string[], key: string) => list.some((s) => s.toLowerCase() === key);
+
+  const skills = [...skillNames.entries()]
+    .map(([key, skill]) => {
+      const status: SkillStatus[] = entries.map((e) =>
+        has(e.matchedSkills, key)
+          ? "matched"
+          : has(e.bonusSkills, key)
+            ? "bonus"
+            : has(e.missingSkills, key)
+              ? "missing"
+              : null
+      );
+
+      return {
+        skill,
+        required: entries.some((e) => has(e.matchedSkills, key) || has(e.missingSkills, key)),
+        status,
+        coveredBy: status.filter((s) => s === "matched" || s === "bonus").length,
+      };
+    })
+    // Required skills first; the ones that separate candidates before the ones all share
+    .sort(
+      (a, b) =>
+        Number(b.required) - Number(a.required) ||
+        Number(b.coveredBy < entries.length) - Number(a.coveredBy < entries.length) ||
+        b.coveredBy - a.coveredBy ||
+        a.skill.localeCompare(b.skill)
+    );
+
+  return {
+    candidates: entries.map((e) => ({
+      id: e.id,
+      name: e.name,
+      headline: e.headline,
+      matchScore: e.matchScore,
+      rank: e.matchScore == null ? null : ranked.findIndex((r) => r.id === e.id) + 1,
+      verdict: e.verdict,
+      summary: e.summary,
+      experienceYears: e.experienceYears,
+    })),
+    scores,
+    skills,
+    strengths: entries.map((e) => e.strengths),
+    redFlags: entries.map((e) => e.redFlags),
+    gapsAndTradeoffs: entries.map((e) => e.gapsAndTradeoffs),
+    experience: entries.map((e) => e.experience),
+  };
+}
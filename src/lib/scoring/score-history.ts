@@ -0,0 +1,250 @@
+// lib/scoring/score-history.ts
+import { prisma } from "../prisma";
+
+// Bumped when the scoring prompts change; the job's revision tracks JD edits
+const SCORING_MODEL_VERSION = "v3.0";
+
+export interface RankedScore {
+  candidateId: string;
+  name: string;
+  matchScore: number;
+  rank: number;
+  verdict: string | null;
+}
+
+export interface RankingChange {
+  candidateId: string;
+  name: string;
+  previousRank: number | null;
+  currentRank: number | null;
+  rankChange: number | null; // positive = moved up
+  previousScore: number | null;
+  currentScore: number | null;
+  scoreChange: number | null;
+  previousVerdict: string | null;
+  currentVerdict: string | null;
+}
+
+/**
+ * Version string stored on each scored candidate
+ */
+export function scoringVersionFor(revision: number): string {
+  return `${SCORING_MODEL_VERSION}/r${revision}`;
+}
+
+/**
+ * Rank candidates by score (ties keep the same rank)
+ */
+function rank(
+  rows: Array<{ candidateId: string; name: string; matchScore: number; verdict: string | null }>
+): RankedScore[] {
+  const sorted = [...rows].sort((a, b) => b.matchScore - a.matchScore);
+
+  let previousScore: number | null = null;
+  let previousRank = 0;
+
+  return sorted.map((row, index) => {
+    const rankValue = row.matchScore === previousScore ? previousRank : index + 1;
+    previousScore = row.matchScore;
+    previousRank = rankValue;
+
+    return { ...row, rank: rankValue };
+  });
+}
+
+/**
+ * Current ranking of a sourcing job's scored candidates
+ */
+async function getLiveSourcingRanking(sourcingJobId: string): Promise<RankedScore[]> {
+  const candidates = await prisma.linkedInCandidate.findMany({
+    where: { sourcingJobId, isScored: true },
+    select: { id: true, fullName: true, matchScore: true, interviewReadiness: true },
+  });
+
+  return rank(
+    candidates.map((c) => ({
+      candidateId: c.id,
+      name: c.fullName,
+      matchScore: c.matchScore,
+      verdict: c.interviewReadiness,
+    }))
+  );
+}
+
+/**
+ * Current ranking of a screening job's screened candidates
+ */
+async function getLiveScreeningRanking(jobId: string): Promise<RankedScore[]> {
+  const candidates = await prisma.candidate.findMany({
+    where: { jobId, processingStatus: "completed", matchScore: { not: null } },
+    select: { id: true, name: true, matchScore: true, fitVerdict: true },
+  });
+
+  return rank(
+    candidates.map((c) => ({
+      candidateId: c.id,
+      name: c.name,
+      matchScore: c.matchScore ?? 0,
+      verdict: c.fitVerdict,
+    }))
+  );
+}
+
+/**
+ * Freeze a sourcing job's current ranking before it is re-scored
+ */
+export async function snapshotSourcingScores(sourcingJobId: string) {
+  const job = await prisma.sourcingJob.findUnique({
+    where: { id: sourcingJobId },
+    select: { scoringRevision: true, rawJobDescription: true, jobRequirements: true },
+  });
+
+  if (!job) throw new Error("Job not found");
+
+  const scores = await getLiveSourcingRanking(sourcingJobId);
+
+  return await prisma.scoreSnapshot.upsert({
+    where: {
+      sourcingJobId_revision: { sourcingJobId, revision: job.scoringRevision },
+    },
+    create: {
+      sourcingJobId,
+      revision: job.scoringRevision,
+      jobDescription: job.rawJobDescription,
+      requirements: job.jobRequirements ?? undefined,
+      scores: scores as any,
+    },
+    update: { scores: scores as any },
+  });
+}
+
+/**
+ * Freeze a screening job's current ranking before it is re-scored
+ */
+export async function snapshotScreeningScores(jobId: string) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      scoringRevision: true,
+      description: true,
+      requiredSkills: true,
+      experienceRequired: true,
+      qualifications: true,
+    },
+  });
+
+  if (!job) throw new Error("Job not found");
+
+  const scores = await getLiveScreeningRanking(jobId);
+  const requirements = {
+    requiredSkills: job.requiredSkills,
+    experienceRequired: job.experienceRequired,
+    qualifications: job.qualifications,
+  };
+
+  return await prisma.scoreSnapshot.upsert({
+    where: { jobId_revision: { jobId, revision: job.scoringRevision } },
+    create: {
+      jobId,
+      revision: job.scoringRevision,
+      jobDescription: job.description,
+      requirements,
+      scores: scores as any,
+    },
+    update: { scores: scores as any },
+  });
+}
+
+/**
+ * Revisions available for a job: archived snapshots plus the live one
+ */
+export async function listScoreVersions(
+  owner: { jobId: string } | { sourcingJobId: string },
+  currentRevision: number
+) {
+  const snapshots = await prisma.scoreSnapshot.findMany({
+    where: owner,
+    select: { revision: true, createdAt: true, scores: true },
+    orderBy: { revision: "asc" },
+  });
+
+  return [
+    ...snapshots.map((s) => ({
+      revision: s.revision,
+      current: false,
+      archivedAt: s.createdAt,
+      candidateCount: Array.isArray(s.scores) ? s.scores.length : 0,
+    })),
+    { revision: currentRevision, current: true, archivedAt: null, candidateCount: null },
+  ];
+}
+
+/**
+ * Ranking of a job at a revision; the current revision is read live
+ * Returns null when the revision does not exist
+ */
+export async function getRankingAtRevision(
+  owner: { jobId: string } | { sourcingJobId: string },
+  revision: number,
+  currentRevision: number
+): Promise<RankedScore[] | null> {
+  if (revision === currentRevision) {
+    return "jobId" in owner
+      ? await getLiveScreeningRanking(owner.jobId)
+      : await getLiveSourcingRanking(owner.sourcingJobId);
+  }
+
+  const snapshot = await prisma.scoreSnapshot.findFirst({
+    where: { ...owner, revision },
+    select: { scores: true },
+  });
+
+  return snapshot ? (snapshot.scores as unknown as RankedScore[]) : null;
+}
+
+/**
+ * Compare two rankings candidate by candidate
+ * Candidates missing from one side (added or removed between revisions) get null fields
+ */
+export function diffRankings(before: RankedScore[], after: RankedScore[]) {
+  const previous = new Map(before.map((s) => [s.candidateId, s]));
+  const current = new Map(after.map((s) => [s.candidateId, s]));
+  const ids = new Set([...previous.keys(), ...current.keys()]);
+
+  const changes: RankingChange[] = Array.from(ids).map((candidateId) => {
+    const prev = previous.get(candidateId);
+    const curr = current.get(candidateId);
+
+    return {
+      candidateId,
+      name: curr?.name ?? prev?.name ?? "",
+      previousRank: prev?.rank ?? null,
+      currentRank: curr?.rank ?? null,
+      rankChange: prev && curr ? prev.rank - curr.rank : null,
+      previousScore: prev?.matchScore ?? null,
+      currentScore: curr?.matchScore ?? null,
+      scoreChange: prev && curr ? curr.matchScore - prev.matchScore : null,
+      previousVerdict: prev?.verdict ?? null,
+      currentVerdict: curr?.verdict ?? null,
+    };
+  });
+
+  changes.sort(
+    (a, b) => (a.currentRank ?? Number.MAX_SAFE_INTEGER) - (b.currentRank ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  const compared = changes.filter((c) => c.rankChange !== null);
+
+  return {
+    summary: {
+      compared: compared.length,
+      movedUp: compared.filter((c) => c.rankChange! > 0).length,
+      movedDown: compared.filter((c) => c.rankChange! < 0).length,
+      unchanged: compared.filter((c) => c.rankChange === 0).length,
+      verdictChanged: compared.filter((c) => c.previousVerdict !== c.currentVerdict).length,
+      added: changes.filter((c) => c.previousRank === null).length,
+      removed: changes.filter((c) => c.currentRank === null).length,
+    },
+    changes,
+  };
+}
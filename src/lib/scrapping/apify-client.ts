@@ -2,6 +2,7 @@
 
 import { ApifyClient } from "apify-client";
 import { RateLimitError } from "../errors/rate-limit-error";
+import { withReplay } from "../replay";
 
 // Initialize Apify client
 const client = new ApifyClient({
@@ -47,6 +48,12 @@ function normalizeFiltersForApify(filters: LinkedInSearchFilters) {
  */
 export async function searchLinkedInProfiles(
   searchFilters: LinkedInSearchFilters
+): Promise<ProfileSearchResult[]> {
+  return withReplay("apify_search", searchFilters, () => runProfileSearch(searchFilters));
+}
+
+async function runProfileSearch(
+  searchFilters: LinkedInSearchFilters
 ): Promise<ProfileSearchResult[]> {
   try {
     console.log("🔍 Starting LinkedIn profile search...");
@@ -189,6 +196,10 @@ function mapSearchResults(items: any[]): ProfileSearchResult[] {
 export async function scrapeLinkedInProfiles(
   profileUrls: string[]
 ): Promise<any[]> {
+  return withReplay("apify_scrape", profileUrls, () => runProfileScrape(profileUrls));
+}
+
+async function runProfileScrape(profileUrls: string[]): Promise<any[]> {
   try {
     console.log(
       `🔍 Starting profile scraping for ${profileUrls.length} profiles...`
@@ -1,3 +1,5 @@
+import { normalizeSkills } from "../skills/taxonomy";
+
 /**
  * Smart profile cleaner - Keeps essential data, removes noise
  * Optimized for GPT-4o mini parsing (minimizes tokens while preserving quality)
@@ -23,14 +25,14 @@ export function cleanProfileData(rawProfile: any): any {
 
   // Extract skills - keep top 50 max (LinkedIn shows endorsements)
   // Convert to array of strings for schema compatibility
-  const skills = (rawProfile.skills || [])
+  const skills = normalizeSkills((rawProfile.skills || [])
     .filter((s: any) => s && (typeof s === "string" || s.title || s.name))
     .slice(0, 50) // Limit to top 50
     .map((s: any) => {
       if (typeof s === "string") return s;
       return s.title || s.name;
     })
-    .filter(Boolean); // Remove any undefined/null values
+    .filter(Boolean)); // Remove any undefined/null values, collapse aliases
 
   // Extract education - keep top 3
   const education = (rawProfile.educations || rawProfile.education || [])
@@ -0,0 +1,192 @@
+// lib/skills/taxonomy.ts
+import fs from "fs";
+import seed from "./taxonomy.seed.json";
+
+export interface SkillDefinition {
+  name: string;
+  aliases: string[];
+  // Name or aliases that are ordinary words too ("Go", "rest", "spring"): recognized
+  // in skill lists, never searched for in free text
+  listOnly?: string[];
+  parents?: string[]; // Skills implied by this one (Django → Python)
+  category?: string | null;
+}
+
+interface TaxonomyIndex {
+  byKey: Map<string, SkillDefinition>;
+  byName: Map<string, SkillDefinition>;
+}
+
+let index: TaxonomyIndex | null = null;
+
+/**
+ * Comparison key: case, spacing and punctuation variants collapse together
+ * ("React.js", "ReactJS", "react js" → "reactjs"); "+" and "#" are kept for C++/C#
+ */
+export function skillKey(raw: string): string {
+  return raw
+    .toLowerCase()
+    .trim()
+    .replace(/[\s.\-_/]+/g, "");
+}
+
+/**
+ * Entries from SKILL_TAXONOMY_PATH (same shape as the seed) extend the seed;
+ * an entry with an existing name replaces it
+ */
+function loadDefinitions(): SkillDefinition[] {
+  const definitions = new Map<string, SkillDefinition>();
+
+  for (const def of seed as SkillDefinition[]) {
+    definitions.set(skillKey(def.name), def);
+  }
+
+  const extraPath = process.env.SKILL_TAXONOMY_PATH;
+  if (extraPath) {
+    try {
+      const extra = JSON.parse(fs.readFileSync(extraPath, "utf-8")) as SkillDefinition[];
+      for (const def of extra) {
+        definitions.set(skillKey(def.name), { ...def, aliases: def.aliases || [] });
+      }
+      console.log(`🧩 Loaded ${extra.length} skills from ${extraPath}`);
+    } catch (error: any) {
+      console.error(`⚠️ Could not load skill taxonomy from ${extraPath}:`, error.message);
+    }
+  }
+
+  return Array.from(definitions.values());
+}
+
+function getIndex(): TaxonomyIndex {
+  if (index) return index;
+
+  const byKey = new Map<string, SkillDefinition>();
+  const byName = new Map<string, SkillDefinition>();
+
+  const definitions = loadDefinitions();
+
+  // Canonical names first so an alias can never shadow another skill's name
+  for (const def of definitions) {
+    byName.set(def.name, def);
+    byKey.set(skillKey(def.name), def);
+  }
+
+  for (const def of definitions) {
+    for (const alias of def.aliases) {
+      const existing = byKey.get(skillKey(alias));
+
+      if (existing && existing !== def) {
+        console.warn(`⚠️ Skill alias "${alias}" of ${def.name} is already taken by ${existing.name}`);
+        continue;
+      }
+
+      byKey.set(skillKey(alias), def);
+    }
+  }
+
+  index = { byKey, byName };
+  return index;
+}
+
+function lookup(raw: string): SkillDefinition | undefined {
+  const { byKey } = getIndex();
+
+  return (
+    byKey.get(skillKey(raw)) ||
+    // "React (Advanced)", "Python - 5 years"
+    byKey.get(skillKey(raw.replace(/\(.*?\)/g, "").split(/\s[-–:]\s/)[0]))
+  );
+}
+
+/**
+ * Whether the skill (or one of its aliases) is in the taxonomy
+ */
+export function isKnownSkill(raw: string): boolean {
+  return !!lookup(raw);
+}
+
+/**
+ * Canonical name of a skill; unknown skills are returned trimmed as-is
+ */
+export function normalizeSkill(raw: string): string {
+  return lookup(raw)?.name ?? raw.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Canonical names of a skill list, deduplicated, first-seen order kept
+ */
+export function normalizeSkills(raw: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const skill of raw) {
+    if (!skill || !skill.trim()) continue;
+
+    const name = normalizeSkill(skill);
+    const key = skillKey(name);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    result.push(name);
+  }
+
+  return result;
+}
+
+/**
+ * Split a free-text skill list ("React, Node.js; k8s") and normalize it
+ */
+export function parseSkillList(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  return normalizeSkills(text.split(/[,;\n|]+|\s+and\s+/i));
+}
+
+/**
+ * Skills implied by having this one, following parents transitively
+ */
+export function getImpliedSkills(raw: string): string[] {
+  const { byName } = getIndex();
+  const implied: string[] = [];
+  const queue = [...(lookup(raw)?.parents || [])];
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (implied.includes(name)) continue;
+
+    implied.push(name);
+    queue.push(...(byName.get(name)?.parents || []));
+  }
+
+  return implied;
+}
+
+/**
+ * Normalized skills plus everything they imply
+ */
+export function expandSkills(raw: string[]): string[] {
+  const normalized = normalizeSkills(raw);
+  return normalizeSkills([...normalized, ...normalized.flatMap(getImpliedSkills)]);
+}
+
+/**
+ * Canonical name and aliases of a skill, for searching free text
+ * List-only terms are left out, so a skill may have no searchable term at all
+ */
+export function getSkillTerms(raw: string): string[] {
+  const def = lookup(raw);
+  if (!def) return [raw.trim()];
+
+  const listOnly = new Set((def.listOnly || []).map(skillKey));
+  return [def.name, ...def.aliases].filter((term) => !listOnly.has(skillKey(term)));
+}
+
+/**
+ * Comparison keys of every name a skill list may use for this skill
+ */
+export function getSkillKeys(raw: string): string[] {
+  const def = lookup(raw);
+  if (!def) return [skillKey(raw)];
+
+  return [...new Set([def.name, ...def.aliases].map(skillKey))];
+}
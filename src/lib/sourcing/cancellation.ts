@@ -0,0 +1,96 @@
+// lib/sourcing/cancellation.ts
+import { CreditCategory, EmbeddingSubject } from "@prisma/client";
+import { prisma } from "../prisma";
+import { creditService } from "../../services/credit.service";
+import { embeddingService } from "../../services/embedding.service";
+
+/**
+ * Check whether the user asked to cancel this job
+ * Read at node boundaries by the workflow router
+ */
+export async function isCancellationRequested(jobId: string): Promise<boolean> {
+  const job = await prisma.sourcingJob.findUnique({
+    where: { id: jobId },
+    select: { cancelRequestedAt: true },
+  });
+
+  return !!job?.cancelRequestedAt;
+}
+
+/**
+ * Finish a cancelled job
+ * - Scored candidates are kept as-is
+ * - Candidates charged during enrichment but never scored are removed and refunded
+ */
+export async function finalizeSourcingCancellation(jobId: string) {
+  const job = await prisma.sourcingJob.findUnique({
+    where: { id: jobId },
+    select: { id: true, userId: true, status: true },
+  });
+
+  if (!job) throw new Error("Job not found");
+
+  if (job.status === "CANCELLED") {
+    return { refundedCredits: 0, removedCandidates: 0 };
+  }
+
+  const unfinished = await prisma.linkedInCandidate.findMany({
+    where: { sourcingJobId: jobId, isScored: false },
+    select: { id: true, hasContactInfo: true, contactFromCache: true },
+  });
+
+  // Only candidates enriched by a provider were charged in enrich_and_create
+  const unusedCredits = unfinished.filter(
+    (c) => c.hasContactInfo && !c.contactFromCache
+  ).length;
+
+  if (unfinished.length > 0) {
+    await prisma.linkedInCandidate.deleteMany({
+      where: { id: { in: unfinished.map((c) => c.id) } },
+    });
+    await embeddingService.deleteEmbeddings(
+      EmbeddingSubject.LINKEDIN_CANDIDATE,
+      unfinished.map((c) => c.id)
+    );
+  }
+
+  const stillCharged = await creditService.getNetChargedForReference(
+    job.userId,
+    CreditCategory.SOURCING,
+    jobId
+  );
+  const refundedCredits = Math.min(unusedCredits, stillCharged);
+
+  if (refundedCredits > 0) {
+    await creditService.refundCredits(
+      job.userId,
+      CreditCategory.SOURCING,
+      refundedCredits,
+      jobId,
+      "SOURCING_JOB",
+      `Refund for ${refundedCredits} unprocessed candidates (job cancelled)`
+    );
+  }
+
+  const scoredCount = await prisma.linkedInCandidate.count({
+    where: { sourcingJobId: jobId, isScored: true },
+  });
+
+  await prisma.sourcingJob.update({
+    where: { id: jobId },
+    data: {
+      status: "CANCELLED",
+      currentStage: "CANCELLED",
+      totalProfilesFound: scoredCount,
+      profilesScored: scoredCount,
+      completedAt: new Date(),
+      lastActivityAt: new Date(),
+    },
+  });
+
+  console.log(
+    `🛑 Job ${jobId} cancelled: kept ${scoredCount} scored candidates, removed ${unfinished.length}, refunded ${refundedCredits} credits`
+  );
+
+  return { refundedCredits, removedCandidates: unfinished.length };
+}
@@ -0,0 +1,164 @@
+// lib/sourcing/candidate-list.ts
+import { Prisma } from "@prisma/client";
+import { normalizeSkill } from "../skills/taxonomy";
+import type { SourcingCandidateListQuery } from "../validations/sourcing";
+
+// Nullable columns sort their nulls last in either direction
+const NULLABLE_SORT_FIELDS = new Set([
+  "experienceYears",
+  "interviewConfidenceScore",
+  "rating",
+  "scrapedAt",
+]);
+
+/**
+ * Filters of a job's scored candidate list. Score, seniority and open-to-work
+ * filters hit the existing (sourcingJobId, matchScore), seniorityLevel and
+ * isOpenToWork indexes
+ */
+export function buildCandidateListWhere(
+  sourcingJobId: string,
+  query: SourcingCandidateListQuery,
+  cursor?: CandidateCursor | null
+): Prisma.LinkedInCandidateWhereInput {
+  const where: Prisma.LinkedInCandidateWhereInput = { sourcingJobId, isScored: true };
+  const and: Prisma.LinkedInCandidateWhereInput[] = [];
+
+  if (query.minScore !== undefined) where.matchScore = { gte: query.minScore };
+  if (query.seniority?.length) where.seniorityLevel = { in: query.seniority };
+  if (query.openToWork !== undefined) where.isOpenToWork = query.openToWork;
+  if (query.hasContactInfo !== undefined) where.hasContactInfo = query.hasContactInfo;
+  if (query.interviewReadiness?.length) where.interviewReadiness = { in: query.interviewReadiness };
+  if (query.location) where.location = { contains: query.location, mode: "insensitive" };
+  if (query.excludeDuplicates) where.isDuplicate = false;
+
+  // matchedSkills holds canonical names, so compare against the canonical form
+  if (query.skills?.length) {
+    and.push(
+      ...query.skills.map((skill) => ({
+        matchedSkills: { array_contains: [normalizeSkill(skill)] },
+      }))
+    );
+  }
+
+  if (cursor) and.push(buildCursorWhere(query.sort, cursor));
+  if (and.length > 0) where.AND = and;
+
+  return where;
+}
+
+// Page size when a cursor is given without a limit
+export const DEFAULT_CANDIDATE_PAGE_SIZE = 50;
+
+/**
+ * Everything one candidate list request queries with. countWhere leaves the
+ * cursor out, so the total covers every matching candidate on every page.
+ * limit is null when neither limit nor cursor was asked for: the list is then
+ * unpaged, as it was before pagination existed
+ */
+export function buildCandidatePage(
+  sourcingJobId: string,
+  query: SourcingCandidateListQuery,
+  cursor?: CandidateCursor | null
+) {
+  const limit = query.limit ?? (cursor ? DEFAULT_CANDIDATE_PAGE_SIZE : null);
+
+  return {
+    where: buildCandidateListWhere(sourcingJobId, query, cursor),
+    countWhere: buildCandidateListWhere(sourcingJobId, query),
+    orderBy: buildCandidateOrderBy(query.sort),
+    limit,
+  };
+}
+
+type SortKey = SourcingCandidateListQuery["sort"][number];
+type SortValue = string | number | null;
+
+/**
+ * Position of the last row of a page: its sort values plus its id
+ */
+export interface CandidateCursor {
+  values: SortValue[];
+  id: string;
+}
+
+export function encodeCandidateCursor(
+  row: Record<string, unknown>,
+  sort: SourcingCandidateListQuery["sort"]
+): string {
+  const values = sort.map(({ field }) => {
+    const value = row[field];
+    return value instanceof Date ? value.toISOString() : ((value ?? null) as SortValue);
+  });
+
+  return Buffer.from(JSON.stringify({ values, id: row.id })).toString("base64url");
+}
+
+/**
+ * Null when the cursor is malformed or was made for a different sort
+ */
+export function decodeCandidateCursor(
+  cursor: string,
+  sort: SourcingCandidateListQuery["sort"]
+): CandidateCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const valid =
+      typeof parsed?.id === "string" &&
+      Array.isArray(parsed.values) &&
+      parsed.values.length === sort.length &&
+      parsed.values.every(
+        (v: unknown) => v === null || typeof v === "string" || typeof v === "number"
+      );
+
+    return valid ? { values: parsed.values, id: parsed.id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rows after the cursor in buildCandidateOrderBy order. Spelled out instead of
+ * Prisma's cursor option, whose row comparison drops rows with NULL sort
+ * values: a row comes later when it ties on the earlier keys and is past the
+ * cursor on the next one (nulls being last in either direction), or ties on
+ * every key and has a larger id.
+ */
+function buildCursorWhere(
+  sort: SourcingCandidateListQuery["sort"],
+  cursor: CandidateCursor
+): Prisma.LinkedInCandidateWhereInput {
+  const ties = sort.map((key, i) => ({ [key.field]: cursor.values[i] }));
+  const branches: Prisma.LinkedInCandidateWhereInput[] = [];
+
+  sort.forEach((key, i) => {
+    const after = afterValue(key, cursor.values[i]);
+    if (after) branches.push({ AND: [...ties.slice(0, i), after] });
+  });
+  branches.push({ AND: [...ties, { id: { gt: cursor.id } }] });
+
+  return { OR: branches };
+}
+
+function afterValue(key: SortKey, value: SortValue): Prisma.LinkedInCandidateWhereInput | null {
+  // Nothing sorts after a null but other nulls, which tie
+  if (value === null) return null;
+
+  const past = { [key.field]: { [key.direction === "desc" ? "lt" : "gt"]: value } };
+  return NULLABLE_SORT_FIELDS.has(key.field) ? { OR: [past, { [key.field]: null }] } : past;
+}
+
+/**
+ * Requested sort plus id, so every row has a unique position for the cursor
+ */
+export function buildCandidateOrderBy(
+  sort: SourcingCandidateListQuery["sort"]
+): Prisma.LinkedInCandidateOrderByWithRelationInput[] {
+  const orderBy: Prisma.LinkedInCandidateOrderByWithRelationInput[] = sort.map(
+    ({ field, direction }) => ({
+      [field]: NULLABLE_SORT_FIELDS.has(field) ? { sort: direction, nulls: "last" } : direction,
+    })
+  );
+
+  return [...orderBy, { id: "asc" }];
+}
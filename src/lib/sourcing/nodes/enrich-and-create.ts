@@ -2,131 +2,15 @@
 import { RateLimitError } from "../../errors/rate-limit-error";
 import { prisma } from "../../prisma";
 import type { SourcingState } from "../state";
-import { any } from "zod";
 import { creditService } from "../../../services/credit.service";
 import { CreditCategory } from "@prisma/client";
-
-interface SalesQLEmail {
-  email: string;
-  type: string;
-  status: "Valid" | "Unverifiable" | string;
-}
-
-interface SalesQLPhone {
-  phone: string;
-  type: string;
-  country_code?: string;
-  is_valid?: boolean;
-}
-
-interface SalesQLLocation {
-  city?: string;
-  state?: string;
-  country_code?: string;
-  country?: string;
-}
-
-interface SalesQLResponse {
-  uuid?: string;
-  first_name?: string;
-  last_name?: string;
-  full_name?: string;
-  linkedin_url?: string;
-  headline?: string;
-  emails?: SalesQLEmail[];
-  phones?: SalesQLPhone[];
-  location?: SalesQLLocation;
-  industry?: string;
-  image?: string;
-}
-
-interface SalesQLResult {
-  hasEmail: boolean;
-  email?: string;
-  phone?: string;
-  emailType?: string;
-  emailStatus?: string;
-  fullData?: SalesQLResponse;
-}
-
-async function enrichWithSalesQL(
-  linkedinUrl: string,
-  apiKey: string
-): Promise<SalesQLResult> {
-  try {
-    const response = await fetch(
-      `https://api-public.salesql.com/v1/persons/enrich/?linkedin_url=${encodeURIComponent(
-        linkedinUrl
-      )}`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (response.status === 429) {
-      console.error(`⚠️ SalesQL rate limit hit`);
-
-      // Try to get reset time from headers (if available)
-      const resetHeader =
-        response.headers.get("X-RateLimit-Reset") ||
-        response.headers.get("Retry-After");
-
-      const resetAt = resetHeader
-        ? new Date(parseInt(resetHeader) * 1000)
-        : new Date(Date.now() + 24 * 60 * 60 * 1000); // Default: 24 hours
-
-      throw new RateLimitError("SalesQL rate limit exceeded", {
-        type: "salesql",
-        resetAt,
-        message:
-          "Email enrichment service limit reached. Will retry automatically.",
-      });
-    }
-
-    if (!response.ok) {
-      return { hasEmail: false };
-    }
-
-    const data: SalesQLResponse = await response.json() as SalesQLResponse;
-
-    if (data.emails && data.emails.length > 0) {
-      const validDirect = data.emails.find(
-        (e: SalesQLEmail) => e.status === "Valid" && e.type === "Direct"
-      );
-      const validAny = data.emails.find(
-        (e: SalesQLEmail) => e.status === "Valid"
-      );
-      const bestEmail = validDirect || validAny || data.emails[0];
-
-      const result: SalesQLResult = {
-        hasEmail: true,
-        email: bestEmail.email,
-        emailType: bestEmail.type,
-        emailStatus: bestEmail.status,
-        fullData: data,
-      };
-
-      if (data.phones && data.phones.length > 0) {
-        const validPhone = data.phones.find(
-          (p: SalesQLPhone) => p.is_valid === true
-        );
-        const selectedPhone = validPhone || data.phones[0];
-        result.phone = selectedPhone.phone;
-      }
-
-      return result;
-    }
-
-    return { hasEmail: false };
-  } catch (error: any) {
-    console.error(`❌ SalesQL error:`, error.message);
-    return { hasEmail: false };
-  }
-}
+import {
+  enrichWithWaterfall,
+  getEnrichmentProviders,
+  getCachedContact,
+  cacheContact,
+  EnrichmentProviderName,
+} from "../../enrichment";
 
 export async function enrichAndCreateCandidates(state: SourcingState) {
   console.log(
@@ -177,16 +61,16 @@ export async function enrichAndCreateCandidates(state: SourcingState) {
     };
   }
 
-  // ✅ STEP 3: Check API key
-  const apiKey = process.env.SALESQL_API_KEY;
-  if (!apiKey) {
-    console.error(`❌ SALESQL_API_KEY not configured`);
+  // ✅ STEP 3: Resolve the enrichment waterfall
+  const providers = getEnrichmentProviders();
+  if (providers.length === 0) {
+    console.error(`❌ No enrichment provider configured`);
 
     await prisma.sourcingJob.update({
       where: { id: state.jobId },
       data: {
         status: "FAILED",
-        errorMessage: "SalesQL API key not configured",
+        errorMessage: "No enrichment provider configured",
         failedAt: new Date(),
       },
     });
@@ -195,7 +79,7 @@ export async function enrichAndCreateCandidates(state: SourcingState) {
       errors: [
         {
           stage: "enrich_and_create",
-          message: "SalesQL API key not configured",
+          message: "No enrichment provider configured",
           timestamp: new Date(),
           retryable: false,
         },
@@ -207,6 +91,10 @@ export async function enrichAndCreateCandidates(state: SourcingState) {
   // ✅ STEP 4: Get enrichedUrls from state (already loaded by buildResumeState or previous iterations)
   const enrichedUrls = state.enrichedUrls || new Set<string>();
   console.log(`♻️ Previously enriched: ${enrichedUrls.size} URLs (from state)`);
+  console.log(`🔌 Enrichment waterfall: ${providers.map((p) => p.name).join(" → ")}`);
+
+  // Providers that hit their rate limit during this run
+  const rateLimitedUntil = new Map<EnrichmentProviderName, RateLimitError>();
 
   let created = 0;
   let skipped = 0;
@@ -255,40 +143,59 @@ export async function enrichAndCreateCandidates(state: SourcingState) {
         continue;
       }
 
+      // ✅ Reuse contact info from the user's earlier jobs (no API call, no credit)
+      const cached = await getCachedContact(state.userId, profile.profileUrl);
+      const fromCache = !!cached;
+
       // ✅ Try enrichment
-      const enrichment = await enrichWithSalesQL(profile.profileUrl, apiKey);
+      const enrichment =
+        cached ||
+        (await enrichWithWaterfall(
+          {
+            profileUrl: profile.profileUrl,
+            fullName: profile.fullName,
+            currentCompany: profile.currentCompany,
+          },
+          providers,
+          rateLimitedUntil
+        ));
+
+      if (!fromCache) {
+        await cacheContact(state.userId, profile.profileUrl, enrichment);
+      }
 
       // ✅ Mark as enriched regardless of outcome
       newlyEnrichedUrls.add(profile.profileUrl);
 
       if (enrichment.hasEmail) {
         try {
-          const salesqlData = enrichment.fullData;
+          const fullName = enrichment.fullName || profile.fullName;
 
           await prisma.linkedInCandidate.create({
             data: {
               sourcingJobId: state.jobId,
               profileUrl: profile.profileUrl,
-              fullName: salesqlData?.full_name || profile.fullName || "Unknown",
-              headline: salesqlData?.headline || profile.headline,
-              location: salesqlData?.location?.city
-                ? `${salesqlData.location.city}, ${
-                    salesqlData.location.state || salesqlData.location.country
-                  }`
-                : profile.location,
+              fullName: fullName || "Unknown",
+              headline: enrichment.headline || profile.headline,
+              location: enrichment.location || profile.location,
               currentPosition: profile.currentPosition,
               currentCompany: profile.currentCompany,
-              photoUrl: salesqlData?.image || profile.photoUrl,
+              photoUrl: enrichment.photoUrl || profile.photoUrl,
               email: enrichment.email,
               phone: enrichment.phone,
               hasContactInfo: true,
-              emailSource: "salesql",
+              emailSource: enrichment.source,
+              contactFromCache: fromCache,
               enrichmentStatus: "ENRICHED",
               enrichedAt: new Date(),
               scrapingStatus: "PENDING",
               rawData: {
                 searchData: profile,
-                salesqlData: enrichment.fullData as any,
+                enrichmentData: {
+                  provider: enrichment.source,
+                  fromCache,
+                  data: enrichment.rawData,
+                },
               } as any,
             },
           });
@@ -297,32 +204,35 @@ export async function enrichAndCreateCandidates(state: SourcingState) {
           foundWithEmail++;
 
           // Deduct 1 sourcing credit for successful candidate creation
-          try {
-            await creditService.deductCredits(
-              state.userId,
-              CreditCategory.SOURCING,
-              1,
-              state.jobId,
-              'SOURCING_JOB',
-              `Candidate sourcing: ${salesqlData?.full_name || profile.fullName}`
-            );
-          } catch (creditError: any) {
-            console.error(`   ⚠️ Failed to deduct credits:`, creditError.message);
-            // Continue processing but log the error
+          // (contacts reused from the cache were already paid for)
+          if (!fromCache) {
+            try {
+              await creditService.deductCredits(
+                state.userId,
+                CreditCategory.SOURCING,
+                1,
+                state.jobId,
+                'SOURCING_JOB',
+                `Candidate sourcing: ${fullName}`
+              );
+            } catch (creditError: any) {
+              console.error(`   ⚠️ Failed to deduct credits:`, creditError.message);
+              // Continue processing but log the error
+            }
           }
 
           console.log(
-            `   ✓ Enriched: ${salesqlData?.full_name || profile.fullName}`
+            `   ✓ Enriched via ${enrichment.source}${fromCache ? " (cached)" : ""}: ${fullName}`
           );
         } catch (error: any) {
           console.error(`   ❌ DB error:`, error.message);
         }
       } else {
         discarded++;
-        console.log(`   ✗ No email: ${profile.profileUrl}`);
+        console.log(`   ✗ No email${fromCache ? " (cached)" : ""}: ${profile.profileUrl}`);
       }
 
-      if (i < state.currentSearchResults.length - 1) {
+      if (!fromCache && i < state.currentSearchResults.length - 1) {
         await new Promise((r) => setTimeout(r, 334));
       }
     }
@@ -114,7 +114,7 @@ export async function generateSearchQueries(state: SourcingState) {
  * Helper function to generate queries from variants
  * Creates Tier 1, 2, 3 for each AI variant
  */
-function generateQueriesFromVariants(variants: any[], maxCandidates: number) {
+export function generateQueriesFromVariants(variants: any[], maxCandidates: number) {
   const queries: any = [];
   let queryId = 0;
 
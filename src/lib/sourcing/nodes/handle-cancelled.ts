@@ -0,0 +1,29 @@
+// lib/sourcing/nodes/handle-cancelled.ts
+import { SourcingState } from "../state";
+import { finalizeSourcingCancellation } from "../cancellation";
+
+export async function handleCancelled(state: SourcingState) {
+  console.log(`🛑 Cancellation requested for job ${state.jobId} - stopping workflow`);
+
+  try {
+    await finalizeSourcingCancellation(state.jobId);
+
+    return {
+      currentStage: "CANCELLED",
+    };
+  } catch (error: any) {
+    console.error("❌ Error finalizing cancelled job:", error);
+
+    return {
+      currentStage: "CANCELLED",
+      errors: [
+        {
+          stage: "handle_cancelled",
+          message: error.message,
+          timestamp: new Date(),
+          retryable: false,
+        },
+      ],
+    };
+  }
+}
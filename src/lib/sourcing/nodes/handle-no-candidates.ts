@@ -48,7 +48,9 @@ ${recommendations.map((r, i) => `${i + 1}. ${r}`).join('\n')}
         profilesScraped: 0,
         profilesParsed: 0,
         profilesSaved: 0,
-        profilesScored: 0
+        profilesScored: 0,
+        cancelRequestedAt: null,
+        pauseRequestedAt: null
       }
     });
     
@@ -0,0 +1,76 @@
+// lib/sourcing/nodes/review-queries.ts
+import { interrupt } from "@langchain/langgraph";
+import { prisma } from "../../prisma";
+import type { SourcingState } from "../state";
+import { generateQueriesFromVariants } from "./generate-queries";
+
+/**
+ * Optional human review of the generated search filters
+ * Jobs created with reviewSearchFilters stop here until the recruiter approves
+ * (and possibly edits) the variants through /api/sourcing/:jobId/search-filters
+ */
+export async function reviewSearchQueries(state: SourcingState) {
+  const job = await prisma.sourcingJob.findUnique({
+    where: { id: state.jobId },
+    select: { reviewSearchFilters: true, filtersApprovedAt: true },
+  });
+
+  if (!job?.reviewSearchFilters) {
+    return {};
+  }
+
+  if (!job.filtersApprovedAt) {
+    await prisma.sourcingJob.update({
+      where: { id: state.jobId },
+      data: {
+        status: "AWAITING_REVIEW",
+        currentStage: "AWAITING_FILTER_REVIEW",
+        lastActivityAt: new Date(),
+      },
+    });
+
+    console.log(`📝 Job ${state.jobId} waiting for search filter review`);
+
+    // Execution stops here until the approve endpoint resumes the thread
+    interrupt({
+      reason: "review_search_filters",
+      jobId: state.jobId,
+      variants: state.searchFiltersVariants,
+    });
+  }
+
+  // Approved filters are persisted by the API before resuming
+  const approved = await prisma.sourcingJob.findUnique({
+    where: { id: state.jobId },
+    select: { searchFilters: true },
+  });
+
+  const searchFiltersVariants = Array.isArray(approved?.searchFilters)
+    ? (approved!.searchFilters as any[])
+    : state.searchFiltersVariants;
+
+  const searchQueries = generateQueriesFromVariants(
+    searchFiltersVariants,
+    state.maxCandidates
+  );
+
+  await prisma.sourcingJob.update({
+    where: { id: state.jobId },
+    data: {
+      status: "SEARCHING_PROFILES",
+      currentStage: "FILTERS_APPROVED",
+      lastActivityAt: new Date(),
+    },
+  });
+
+  console.log(
+    `✅ Search filters approved: ${searchQueries.length} queries from ${searchFiltersVariants.length} variants`
+  );
+
+  return {
+    searchFilters: searchFiltersVariants[0],
+    searchFiltersVariants,
+    searchQueries,
+    currentStage: "FILTERS_APPROVED",
+  };
+}
@@ -2,6 +2,11 @@
 import { scoreCandidatesInParallel } from "../../ai/linkedin-scorer";
 import { prisma } from "../../prisma";
 import { SourcingState } from "../state";
+import { EmbeddingSubject, Prisma } from "@prisma/client";
+import { applyRubric, parseStoredRubric } from "../rubric";
+import type { CandidateScore, ScoringRubric } from "../../validations/sourcing";
+import { scoringVersionFor } from "../../scoring/score-history";
+import { embeddingService } from "../../../services/embedding.service";
 
 
 export async function scoreAllCandidates(state: SourcingState) {
@@ -28,7 +33,9 @@ export async function scoreAllCandidates(state: SourcingState) {
         status: "COMPLETED",
         currentStage: "SCORING_COMPLETE",
         completedAt: new Date(),
-        lastActivityAt: new Date()
+        lastActivityAt: new Date(),
+        cancelRequestedAt: null,
+        pauseRequestedAt: null
       }
     });
 
@@ -48,6 +55,9 @@ export async function scoreAllCandidates(state: SourcingState) {
     throw new Error("Job not found");
   }
 
+  // Hiring manager's weights/knockouts, if the job has a rubric
+  const rubric = parseStoredRubric(job.scoringRubric);
+
   const batchSize = 20;
   let processedInThisRun = 0;
 
@@ -69,71 +79,24 @@ export async function scoreAllCandidates(state: SourcingState) {
         candidates,
         job.rawJobDescription,
         job.jobRequirements as any,
-        5 // Concurrency
+        5, // Concurrency
+        rubric
       );
 
       let batchScoredCount = 0;
 
       for (const result of results) {
         if (result.status === 'success' && result.score) {
+          const data = buildScoreUpdate(
+            result.score,
+            rubric,
+            scoringVersionFor(job.scoringRevision)
+          );
+
           try {
             await prisma.linkedInCandidate.update({
               where: { id: result.candidateId },
-              data: {
-                // ===== EXISTING FIELDS =====
-                matchScore: result.score.totalScore,
-                skillsScore: result.score.skillsScore,
-                experienceScore: result.score.experienceScore,
-                industryScore: result.score.industryScore,
-                titleScore: result.score.titleScore,
-                niceToHaveScore: result.score.niceToHaveScore,
-                matchReason: result.score.reasoning,
-                matchedSkills: result.score.matchedSkills || [],
-                missingSkills: result.score.missingSkills || [],
-                bonusSkills: result.score.bonusSkills || [],
-                relevantYears: result.score.relevantYears,
-                seniorityLevel: result.score.seniorityLevel,
-                industryMatch: result.score.industryMatch,
-                
-                // ===== 🆕 NEW: INTERVIEW READINESS =====
-                interviewReadiness: result.score.interviewReadiness,
-                interviewReadinessReason: result.score.interviewReadinessReason,
-                interviewConfidenceScore: result.score.interviewConfidenceScore,
-                candidateSummary: result.score.candidateSummary,
-                keyStrengths: result.score.keyStrengths,
-                
-                // ===== 🆕 NEW: ENHANCED SKILLS =====
-                skillsProficiency: result.score.skillsProficiency,
-                criticalGaps: result.score.criticalGaps,
-                skillGapImpact: result.score.skillGapImpact,
-                skillsAnalysisSummary: result.score.skillsAnalysisSummary,
-                
-                // ===== 🆕 NEW: ENHANCED EXPERIENCE =====
-                experienceRelevanceScore: result.score.experienceRelevanceScore,
-                seniorityAlignment: result.score.seniorityAlignment,
-                industryAlignment: result.score.industryAlignment,
-                experienceHighlights: result.score.experienceHighlights,
-                experienceAnalysisSummary: result.score.experienceAnalysisSummary,
-                
-                // ===== 🆕 NEW: GAPS & TRADE-OFFS =====
-                hasSignificantGaps: result.score.hasSignificantGaps,
-                gapsAndTradeoffs: result.score.gapsAndTradeoffs,
-                gapsOverallImpact: result.score.gapsOverallImpact,
-                gapsSummary: result.score.gapsSummary,
-                
-                // ===== 🆕 NEW: INTERVIEW FOCUS =====
-                interviewFocusAreas: result.score.interviewFocusAreas,
-                suggestedQuestions: result.score.suggestedQuestions,
-                redFlags: result.score.redFlags,
-                interviewFocusSummary: result.score.interviewFocusSummary,
-                
-                // ===== METADATA =====
-                isScored: true,
-                scoredAt: new Date(),
-                scoringVersion: "v3.0",
-                fullAnalysisGenerated: true,
-                analysisGeneratedAt: new Date()
-              }
+              data,
             });
             
             batchScoredCount++;
@@ -141,8 +104,8 @@ export async function scoreAllCandidates(state: SourcingState) {
             // Enhanced logging
             console.log(
               `   ✓ ${result.candidateName}: ` +
-              `${result.score.totalScore}/100 | ` +
-              `${result.score.interviewReadiness} | ` +
+              `${data.matchScore}/100 | ` +
+              `${data.interviewReadiness} | ` +
               `Confidence: ${result.score.interviewConfidenceScore}%`
             );
             
@@ -196,12 +159,111 @@ export async function scoreAllCandidates(state: SourcingState) {
       currentStage: "SCORING_COMPLETE",
       lastCompletedStage: "score_all", // ✅ ADD THIS LINE
       completedAt: new Date(),
-      lastActivityAt: new Date()
+      lastActivityAt: new Date(),
+      // Requests that arrived after the last step boundary no longer apply
+      cancelRequestedAt: null,
+      pauseRequestedAt: null
     }
   });
 
+  await embedScoredCandidates(state);
+
   return {
     scoredCandidates: state.scoredCandidates || [],
     currentStage: "COMPLETED"
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Store embeddings of the job's scored candidates for similarity search; a
+ * failure only costs a reindex
+ */
+async function embedScoredCandidates(state: SourcingState) {
+  try {
+    const scored = await prisma.linkedInCandidate.findMany({
+      where: { sourcingJobId: state.jobId, isScored: true },
+      select: { id: true },
+    });
+
+    await embeddingService.embedCandidates(
+      state.userId,
+      EmbeddingSubject.LINKEDIN_CANDIDATE,
+      scored.map((c) => c.id)
+    );
+  } catch (error: any) {
+    console.error(`⚠️ Embedding scored candidates failed:`, error.message);
+  }
+}
+
+/**
+ * Candidate fields written from one scorer result
+ * Shared by the workflow's score_all node and re-scoring
+ */
+export function buildScoreUpdate(
+  score: CandidateScore,
+  rubric: ScoringRubric | null,
+  scoringVersion: string
+) {
+  const rubricResult = rubric ? applyRubric(score, rubric) : null;
+
+  return {
+    // ===== EXISTING FIELDS =====
+    matchScore: rubricResult ? rubricResult.matchScore : score.totalScore,
+    skillsScore: score.skillsScore,
+    experienceScore: score.experienceScore,
+    industryScore: score.industryScore,
+    titleScore: score.titleScore,
+    niceToHaveScore: score.niceToHaveScore,
+    matchReason: score.reasoning,
+    matchedSkills: score.matchedSkills || [],
+    missingSkills: score.missingSkills || [],
+    bonusSkills: score.bonusSkills || [],
+    relevantYears: score.relevantYears,
+    seniorityLevel: score.seniorityLevel,
+    industryMatch: score.industryMatch,
+    
+    // ===== 🆕 NEW: INTERVIEW READINESS =====
+    interviewReadiness: rubricResult
+      ? rubricResult.interviewReadiness
+      : score.interviewReadiness,
+    interviewReadinessReason: score.interviewReadinessReason,
+    interviewConfidenceScore: score.interviewConfidenceScore,
+    candidateSummary: score.candidateSummary,
+    keyStrengths: score.keyStrengths,
+    
+    // ===== 🆕 NEW: ENHANCED SKILLS =====
+    skillsProficiency: score.skillsProficiency,
+    criticalGaps: score.criticalGaps,
+    skillGapImpact: score.skillGapImpact,
+    skillsAnalysisSummary: score.skillsAnalysisSummary,
+    
+    // ===== 🆕 NEW: ENHANCED EXPERIENCE =====
+    experienceRelevanceScore: score.experienceRelevanceScore,
+    seniorityAlignment: score.seniorityAlignment,
+    industryAlignment: score.industryAlignment,
+    experienceHighlights: score.experienceHighlights,
+    experienceAnalysisSummary: score.experienceAnalysisSummary,
+    
+    // ===== 🆕 NEW: GAPS & TRADE-OFFS =====
+    hasSignificantGaps: score.hasSignificantGaps,
+    gapsAndTradeoffs: score.gapsAndTradeoffs,
+    gapsOverallImpact: score.gapsOverallImpact,
+    gapsSummary: score.gapsSummary,
+    
+    // ===== 🆕 NEW: INTERVIEW FOCUS =====
+    interviewFocusAreas: score.interviewFocusAreas,
+    suggestedQuestions: score.suggestedQuestions,
+    redFlags: score.redFlags,
+    interviewFocusSummary: score.interviewFocusSummary,
+    
+    // ===== RUBRIC =====
+    rubricBreakdown: rubricResult ? (rubricResult.breakdown as any) : Prisma.DbNull,
+
+    // ===== METADATA =====
+    isScored: true,
+    scoredAt: new Date(),
+    scoringVersion,
+    fullAnalysisGenerated: true,
+    analysisGeneratedAt: new Date()
+  };
+}
@@ -0,0 +1,48 @@
+// lib/sourcing/pause.ts
+import { interrupt } from "@langchain/langgraph";
+import { prisma } from "../prisma";
+import type { SourcingState } from "./state";
+
+/**
+ * Pause the workflow before a node runs if the user asked for it
+ * interrupt() stores the pending node in the Postgres checkpoint, so resuming
+ * with a Command on the same thread_id re-runs this check and continues
+ */
+export async function pauseIfRequested(jobId: string, nodeName: string) {
+  const job = await prisma.sourcingJob.findUnique({
+    where: { id: jobId },
+    select: { status: true, pauseRequestedAt: true },
+  });
+
+  if (!job?.pauseRequestedAt) return;
+
+  if (job.status !== "PAUSED") {
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: {
+        status: "PAUSED",
+        statusBeforePause: job.status,
+        currentStage: "PAUSED",
+        pausedAt: new Date(),
+        lastActivityAt: new Date(),
+      },
+    });
+
+    console.log(`⏸️ Job ${jobId} paused before ${nodeName}`);
+  }
+
+  interrupt({ reason: "paused", jobId, nextNode: nodeName });
+}
+
+/**
+ * Wrap a workflow node so it honours pause requests before running
+ */
+export function pausable<TResult>(
+  nodeName: string,
+  node: (state: SourcingState) => Promise<TResult>
+) {
+  return async (state: SourcingState): Promise<TResult> => {
+    await pauseIfRequested(state.jobId, nodeName);
+    return node(state);
+  };
+}
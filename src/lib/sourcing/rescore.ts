@@ -0,0 +1,103 @@
+// lib/sourcing/rescore.ts
+import { scoreCandidatesInParallel } from "../ai/linkedin-scorer";
+import { prisma } from "../prisma";
+import { parseStoredRubric } from "./rubric";
+import { buildScoreUpdate } from "./nodes/score-batch";
+import { scoringVersionFor } from "../scoring/score-history";
+
+const BATCH_SIZE = 20;
+
+/**
+ * Re-score every candidate of a completed job against its current description
+ * The caller snapshots the previous ranking and bumps scoringRevision first;
+ * candidates still carrying an older scoringVersion are the ones left to score,
+ * so an interrupted re-score can simply be started again
+ */
+export async function rescoreSourcingJob(jobId: string) {
+  const job = await prisma.sourcingJob.findUnique({ where: { id: jobId } });
+
+  if (!job) throw new Error("Job not found");
+
+  const rubric = parseStoredRubric(job.scoringRubric);
+  const scoringVersion = scoringVersionFor(job.scoringRevision);
+
+  const total = await prisma.linkedInCandidate.count({ where: { sourcingJobId: jobId } });
+  let rescored = 0;
+  let failed = 0;
+  const failedIds: string[] = [];
+
+  console.log(`🔁 Re-scoring ${total} candidates for job ${jobId} (${scoringVersion})`);
+
+  try {
+    while (true) {
+      const candidates = await prisma.linkedInCandidate.findMany({
+        where: {
+          sourcingJobId: jobId,
+          id: { notIn: failedIds },
+          OR: [{ scoringVersion: null }, { scoringVersion: { not: scoringVersion } }],
+        },
+        take: BATCH_SIZE,
+      });
+
+      if (candidates.length === 0) break;
+
+      const results = await scoreCandidatesInParallel(
+        candidates,
+        job.rawJobDescription,
+        job.jobRequirements as any,
+        5,
+        rubric
+      );
+
+      for (const result of results) {
+        if (result.status === "success" && result.score) {
+          await prisma.linkedInCandidate.update({
+            where: { id: result.candidateId },
+            data: buildScoreUpdate(result.score, rubric, scoringVersion),
+          });
+          rescored++;
+        } else {
+          console.error(`❌ Re-scoring failed for ${result.candidateName}:`, result.error);
+          failedIds.push(result.candidateId);
+          failed++;
+        }
+      }
+
+      await prisma.sourcingJob.update({
+        where: { id: jobId },
+        data: {
+          currentStage: `RESCORED_${rescored + failed}_OF_${total}`,
+          lastActivityAt: new Date(),
+        },
+      });
+    }
+
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: {
+        status: "COMPLETED",
+        currentStage: "RESCORING_COMPLETE",
+        errorMessage: failed > 0 ? `${failed} candidates could not be re-scored` : null,
+        completedAt: new Date(),
+        lastActivityAt: new Date(),
+      },
+    });
+
+    console.log(`✅ Re-scored ${rescored}/${total} candidates for job ${jobId}`);
+
+    return { rescored, failed };
+  } catch (error: any) {
+    // Scores already written stay; the previous ranking is kept in the snapshot
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: {
+        status: "COMPLETED",
+        currentStage: "RESCORING_FAILED",
+        errorMessage: `Re-scoring failed: ${error.message}`,
+        lastActivityAt: new Date(),
+      },
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,147 @@
+// lib/sourcing/rubric.ts
+import type { CandidateScore, ScoringRubric } from "../validations/sourcing";
+import { scoringRubricSchema } from "../validations/sourcing";
+
+type Dimension = keyof ScoringRubric["weights"];
+
+// Scale the scorer uses for each dimension (see candidateScoreSchema)
+const DIMENSION_MAX: Record<Dimension, number> = {
+  skills: 30,
+  experience: 25,
+  industry: 20,
+  title: 15,
+  niceToHave: 10,
+};
+
+const DIMENSION_FIELD: Record<Dimension, keyof CandidateScore> = {
+  skills: "skillsScore",
+  experience: "experienceScore",
+  industry: "industryScore",
+  title: "titleScore",
+  niceToHave: "niceToHaveScore",
+};
+
+export interface RubricBreakdown {
+  weights: Record<Dimension, number>;
+  contributions: Record<Dimension, number>;
+  weightedScore: number;
+  bonuses: Array<{ criterion: string; points: number; met: boolean }>;
+  failedKnockouts: string[];
+  // Knockouts the scorer did not report on; shown for review, never capped
+  unconfirmedKnockouts: string[];
+  aiTotalScore: number;
+}
+
+/**
+ * Read a rubric stored on a job; invalid or missing rubrics fall back to the default split
+ */
+export function parseStoredRubric(value: unknown): ScoringRubric | null {
+  if (!value) return null;
+
+  const parsed = scoringRubricSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn("⚠️ Ignoring invalid scoring rubric:", parsed.error.message);
+    return null;
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Weights normalized so they add up to 100
+ */
+function normalizeWeights(weights: ScoringRubric["weights"]): Record<Dimension, number> {
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+  return Object.fromEntries(
+    (Object.keys(DIMENSION_MAX) as Dimension[]).map((dim) => [dim, (weights[dim] / total) * 100])
+  ) as Record<Dimension, number>;
+}
+
+// Criteria are referenced by position so a paraphrased criterion still matches
+const knockoutId = (index: number) => `K${index + 1}`;
+const bonusId = (index: number) => `B${index + 1}`;
+
+/**
+ * Prompt section telling the scorer what the hiring manager cares about
+ */
+export function formatRubricForPrompt(rubric: ScoringRubric): string {
+  const weights = normalizeWeights(rubric.weights);
+
+  const lines = [
+    "# SCORING RUBRIC (set by the hiring manager)",
+    "Keep scoring each dimension on its usual scale; the final score is weighted as follows:",
+    ...(Object.keys(weights) as Dimension[]).map(
+      (dim) => `- ${dim}: ${Math.round(weights[dim])}%`
+    ),
+  ];
+
+  if (rubric.knockouts.length > 0) {
+    lines.push(
+      "Knockout criteria (must-haves - report each in rubricCriteria with its ID):",
+      ...rubric.knockouts.map((k, i) => `- ${knockoutId(i)}: ${k}`)
+    );
+  }
+
+  if (rubric.bonusCriteria.length > 0) {
+    lines.push(
+      "Bonus criteria (report each in rubricCriteria with its ID):",
+      ...rubric.bonusCriteria.map((b, i) => `- ${bonusId(i)}: ${b.criterion}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Compute matchScore from the dimension scores and the job's rubric
+ * Deterministic: the scorer only supplies dimension scores and criterion checks
+ */
+export function applyRubric(score: CandidateScore, rubric: ScoringRubric) {
+  const weights = normalizeWeights(rubric.weights);
+
+  const contributions = Object.fromEntries(
+    (Object.keys(DIMENSION_MAX) as Dimension[]).map((dim) => {
+      const raw = Number(score[DIMENSION_FIELD[dim]]) || 0;
+      const ratio = Math.min(Math.max(raw / DIMENSION_MAX[dim], 0), 1);
+      return [dim, Math.round(ratio * weights[dim] * 10) / 10];
+    })
+  ) as Record<Dimension, number>;
+
+  const weightedScore = Object.values(contributions).reduce((sum, c) => sum + c, 0);
+
+  const checks = new Map(
+    (score.rubricCriteria || []).map((c) => [c.id.trim().toUpperCase(), c.met])
+  );
+
+  const bonuses = rubric.bonusCriteria.map((b, i) => ({
+    criterion: b.criterion,
+    points: b.points,
+    met: checks.get(bonusId(i)) === true,
+  }));
+  const bonusPoints = bonuses.filter((b) => b.met).reduce((sum, b) => sum + b.points, 0);
+
+  // Only an explicit "not met" fails a knockout; a missing check is unknown
+  const failedKnockouts = rubric.knockouts.filter((_, i) => checks.get(knockoutId(i)) === false);
+  const unconfirmedKnockouts = rubric.knockouts.filter((_, i) => !checks.has(knockoutId(i)));
+
+  let matchScore = Math.min(100, Math.round(weightedScore + bonusPoints));
+  let interviewReadiness = score.interviewReadiness;
+
+  if (failedKnockouts.length > 0) {
+    matchScore = Math.min(matchScore, rubric.knockoutScoreCap);
+    interviewReadiness = "NOT_RECOMMENDED";
+  }
+
+  const breakdown: RubricBreakdown = {
+    weights,
+    contributions,
+    weightedScore: Math.round(weightedScore * 10) / 10,
+    bonuses,
+    failedKnockouts,
+    unconfirmedKnockouts,
+    aiTotalScore: score.totalScore,
+  };
+
+  return { matchScore, interviewReadiness, breakdown };
+}
@@ -106,6 +106,12 @@ export const SourcingStateAnnotation = Annotation.Root({
   currentStage: Annotation<string>({
     reducer: (current, update) => update ?? current,
     default: () => "CREATED"
+  }),
+
+  // Node the run starts at (top-ups skip JD formatting and query generation)
+  entryNode: Annotation<string>({
+    reducer: (current, update) => update ?? current,
+    default: () => "format_jd"
   })
 });
 
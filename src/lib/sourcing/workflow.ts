@@ -1,5 +1,6 @@
 // lib/sourcing/workflow.ts
-import { StateGraph, START, END } from "@langchain/langgraph";
+import { StateGraph, START, END, Command } from "@langchain/langgraph";
+import type { BaseCheckpointSaver } from "@langchain/langgraph";
 import { PostgresSaver } from "@langchain/langgraph-checkpoint-postgres";
 import { SourcingStateAnnotation } from "./state";
 import type { SourcingState } from "./state";
@@ -13,7 +14,13 @@ import { parseCandidates } from "./nodes/parse-candidates";
 import { handleNoCandidates } from "./nodes/handle-no-candidates";
 import { updateCandidates } from "./nodes/updates-candidate";
 import { scoreAllCandidates } from "./nodes/score-batch";
+import { handleCancelled } from "./nodes/handle-cancelled";
+import { reviewSearchQueries } from "./nodes/review-queries";
+import { isCancellationRequested } from "./cancellation";
+import { pausable } from "./pause";
 import { prisma } from "../prisma";
+import { withUsageContext } from "../ai/usage";
+import { initReplayFromEnv } from "../replay";
 
 let checkpointer: PostgresSaver | null = null;
 
@@ -25,81 +32,192 @@ async function getCheckpointer() {
   return checkpointer;
 }
 
-export async function createSourcingWorkflow() {
+/**
+ * Edge router that diverts to handle_cancelled when the user cancelled the job,
+ * otherwise continues to the next node. Checked between every pair of nodes
+ */
+function continueUnlessCancelled(next: string) {
+  return async (state: SourcingState) => {
+    if (await isCancellationRequested(state.jobId)) {
+      return "handle_cancelled";
+    }
+    return next;
+  };
+}
+
+/**
+ * Attribute the AI token usage of a node to the job and its owner
+ */
+function tracked<TResult>(node: (state: SourcingState) => Promise<TResult>) {
+  return (state: SourcingState) =>
+    withUsageContext({ userId: state.userId, sourcingJobId: state.jobId }, () => node(state));
+}
+
+/**
+ * Router after search_profiles: a rate-limited search ends the run so the
+ * RATE_LIMITED stage isn't overwritten by enrichment
+ */
+export async function routeAfterSearch(state: SourcingState) {
+  if (await isCancellationRequested(state.jobId)) {
+    return "handle_cancelled";
+  }
+  if (state.currentStage === "RATE_LIMITED") {
+    console.log("⏸️ Rate limited - workflow paused");
+    return END;
+  }
+  return "enrich_and_create";
+}
+
+/**
+ * Router after enrich_and_create: keep searching until the target is reached,
+ * give up after 5 search iterations, stop on cancellation or rate limit
+ */
+export async function routeAfterEnrichment(state: SourcingState) {
+  if (await isCancellationRequested(state.jobId)) {
+    console.log("🛑 Cancellation requested - stopping search loop");
+    return "cancelled";
+  }
+
+  // ✅ NEW: Check for rate limit
+  if (state.currentStage === "RATE_LIMITED") {
+    console.log("⏸️ Rate limited - workflow paused");
+    return "end"; // End workflow gracefully
+  }
+
+  const current = state.candidatesWithEmails || 0;
+  const target = state.maxCandidates;
+
+  if (current >= target) {
+    console.log(
+      `✅ Target reached: ${current}/${target} - Moving to scraping`
+    );
+    return "scrape";
+  }
+
+  if (state.searchIterations >= 5) {
+    if (current > 0) {
+      console.log(
+        `⚠️ Max iterations (5) reached with ${current}/${target} candidates - proceeding to scrape`
+      );
+      return "scrape";
+    }
+    console.log(`❌ Max iterations reached with no candidates`);
+    return "no_candidates";
+  }
+
+  console.log(
+    `🔄 Need more candidates (${current}/${target}) - Iteration ${
+      state.searchIterations + 1
+    }/5`
+  );
+  return "search_again";
+}
+
+/**
+ * Compile the sourcing graph; checkpoints go to Postgres unless another saver
+ * is given (tests use an in-memory one)
+ */
+export async function createSourcingWorkflow(saver?: BaseCheckpointSaver) {
+  // Record or replay external calls when SOURCING_REPLAY is set
+  initReplayFromEnv();
+
   const graph = new StateGraph(SourcingStateAnnotation)
-    .addNode("format_jd", formatJobDescription)
-    .addNode("generate_queries", generateSearchQueries)
-    .addNode("search_profiles", searchProfiles)
-    .addNode("enrich_and_create", enrichAndCreateCandidates)
-    .addNode("scrape_candidates", scrapeCandidates)
-    .addNode("parse_candidates", parseCandidates)
-    .addNode("update_candidates", updateCandidates)
-    .addNode("score_all", scoreAllCandidates)
-    .addNode("handle_no_candidates", handleNoCandidates);
+    .addNode("format_jd", pausable("format_jd", tracked(formatJobDescription)))
+    .addNode("generate_queries", pausable("generate_queries", generateSearchQueries))
+    .addNode("review_queries", reviewSearchQueries)
+    .addNode("search_profiles", pausable("search_profiles", searchProfiles))
+    .addNode("enrich_and_create", pausable("enrich_and_create", enrichAndCreateCandidates))
+    .addNode("scrape_candidates", pausable("scrape_candidates", scrapeCandidates))
+    .addNode("parse_candidates", pausable("parse_candidates", tracked(parseCandidates)))
+    .addNode("update_candidates", pausable("update_candidates", updateCandidates))
+    .addNode("score_all", pausable("score_all", tracked(scoreAllCandidates)))
+    .addNode("handle_no_candidates", handleNoCandidates)
+    .addNode("handle_cancelled", handleCancelled);
 
   // Initial flow
-  graph.addEdge(START, "format_jd");
-  graph.addEdge("format_jd", "generate_queries");
-  graph.addEdge("generate_queries", "search_profiles");
-  graph.addEdge("search_profiles", "enrich_and_create");
+  graph.addConditionalEdges(
+    START,
+    (state: SourcingState) =>
+      state.entryNode === "search_profiles" ? "search_profiles" : "format_jd",
+    ["format_jd", "search_profiles"]
+  );
+  graph.addConditionalEdges(
+    "format_jd",
+    continueUnlessCancelled("generate_queries"),
+    ["generate_queries", "handle_cancelled"]
+  );
+  graph.addConditionalEdges(
+    "generate_queries",
+    continueUnlessCancelled("review_queries"),
+    ["review_queries", "handle_cancelled"]
+  );
+  graph.addConditionalEdges(
+    "review_queries",
+    continueUnlessCancelled("search_profiles"),
+    ["search_profiles", "handle_cancelled"]
+  );
+  graph.addConditionalEdges(
+    "search_profiles",
+    routeAfterSearch,
+    ["enrich_and_create", "handle_cancelled", END]
+  );
 
   // Conditional loop: search + enrich until target reached
   graph.addConditionalEdges(
     "enrich_and_create",
-    (state: SourcingState) => {
-      // ✅ NEW: Check for rate limit
-      if (state.currentStage === "RATE_LIMITED") {
-        console.log("⏸️ Rate limited - workflow paused");
-        return "end"; // End workflow gracefully
-      }
-
-      const current = state.candidatesWithEmails || 0;
-      const target = state.maxCandidates;
-
-      if (current >= target) {
-        console.log(
-          `✅ Target reached: ${current}/${target} - Moving to scraping`
-        );
-        return "scrape";
-      }
-
-      if (state.searchIterations >= 5) {
-        if (current > 0) {
-          console.log(
-            `⚠️ Max iterations (5) reached with ${current}/${target} candidates - proceeding to scrape`
-          );
-          return "scrape";
-        }
-        console.log(`❌ Max iterations reached with no candidates`);
-        return "no_candidates";
-      }
-
-      console.log(
-        `🔄 Need more candidates (${current}/${target}) - Iteration ${
-          state.searchIterations + 1
-        }/5`
-      );
-      return "search_again";
-    },
+    routeAfterEnrichment,
     {
       scrape: "scrape_candidates",
       search_again: "search_profiles",
       no_candidates: "handle_no_candidates",
+      cancelled: "handle_cancelled",
       end: END, // ✅ NEW: Add end path for rate limit
     }
   );
 
   // Continue with scraping pipeline
-  graph.addEdge("scrape_candidates", "parse_candidates");
-  graph.addEdge("parse_candidates", "update_candidates");
-  graph.addEdge("update_candidates", "score_all");
+  graph.addConditionalEdges(
+    "scrape_candidates",
+    continueUnlessCancelled("parse_candidates"),
+    ["parse_candidates", "handle_cancelled"]
+  );
+  graph.addConditionalEdges(
+    "parse_candidates",
+    continueUnlessCancelled("update_candidates"),
+    ["update_candidates", "handle_cancelled"]
+  );
+  graph.addConditionalEdges(
+    "update_candidates",
+    continueUnlessCancelled("score_all"),
+    ["score_all", "handle_cancelled"]
+  );
   graph.addEdge("score_all", END);
   graph.addEdge("handle_no_candidates", END);
+  graph.addEdge("handle_cancelled", END);
 
-  const cp = await getCheckpointer();
+  const cp = saver ?? (await getCheckpointer());
   return graph.compile({ checkpointer: cp });
 }
 
+/**
+ * Continue a workflow that stopped on interrupt() (pause, filter review)
+ * Falls back to rebuilding state from the database when the checkpoint has no
+ * pending interrupt (e.g. checkpoint tables were cleaned up)
+ */
+export async function resumeInterruptedWorkflow(jobId: string, resumeValue: unknown = true) {
+  const app = await createSourcingWorkflow();
+  const config = { configurable: { thread_id: jobId } };
+
+  const snapshot = await app.getState(config);
+  const fromCheckpoint = snapshot.tasks.some((task) => task.interrupts.length > 0);
+
+  const run = fromCheckpoint
+    ? app.invoke(new Command({ resume: resumeValue }), config)
+    : app.invoke((await buildResumeState(jobId)) as any, config);
+
+  return { run, fromCheckpoint };
+}
+
 /**
  * Build resume state from database checkpoints
  * Called by retry route to restore workflow state after failure
@@ -191,5 +309,6 @@ export async function buildResumeState(jobId: string) {
     batchSize: 20,
     errors: [],
     currentStage: job.currentStage || "CREATED",
+    entryNode: "format_jd",
   };
 }
@@ -0,0 +1,99 @@
+// lib/talent-pool/filters.ts
+import { Prisma } from "@prisma/client";
+import { getSkillKeys } from "../skills/taxonomy";
+import type { TalentPoolQuery } from "../validations/talent-pool";
+
+/*
+ * Per-record conditions for a pool search. A profile merges several records,
+ * so a condition may only drop records that can't be the one a matching
+ * profile takes the field from; the profile itself is checked after merging.
+ * - title: sourced titles win, so sourced records are narrowed on it
+ *   (screening titles live in the experience JSON and aren't)
+ * - location, seniority: only sourced records have them, so screening
+ *   records can only join through a matching sourced one
+ * - experience: a profile has the highest years of its records, and that
+ *   record has to be in range
+ * - skills: a profile with any requested skill has a record with one of them
+ *   (see skillListMatchesSql)
+ * - q and source are checked on the merged profile only
+ */
+
+export function buildScreeningRecordWhere(
+  userId: string,
+  query: TalentPoolQuery
+): Prisma.CandidateWhereInput | null {
+  if (query.location || query.seniority.length > 0) return null;
+
+  const where: Prisma.CandidateWhereInput = { job: { userId }, processingStatus: "completed" };
+  const years = experienceRange(query);
+  if (years) where.totalExperienceYears = years;
+
+  return where;
+}
+
+export function buildSourcingRecordWhere(
+  userId: string,
+  query: TalentPoolQuery
+): Prisma.LinkedInCandidateWhereInput {
+  const where: Prisma.LinkedInCandidateWhereInput = { sourcingJob: { userId } };
+  const and: Prisma.LinkedInCandidateWhereInput[] = [];
+
+  if (query.title) {
+    and.push({
+      OR: [
+        { currentPosition: { contains: query.title, mode: "insensitive" } },
+        { headline: { contains: query.title, mode: "insensitive" } },
+      ],
+    });
+  }
+  if (query.location) where.location = { contains: query.location, mode: "insensitive" };
+  if (query.seniority.length > 0) {
+    and.push({
+      OR: query.seniority.map((level) => ({
+        seniorityLevel: { equals: level, mode: "insensitive" as const },
+      })),
+    });
+  }
+
+  const years = experienceRange(query);
+  if (years) where.experienceYears = years;
+  if (and.length > 0) where.AND = and;
+
+  return where;
+}
+
+/**
+ * Whether the query narrows the records at all
+ */
+export function hasRecordFilters(query: TalentPoolQuery): boolean {
+  return (
+    !!query.title ||
+    !!query.location ||
+    query.seniority.length > 0 ||
+    query.skills.length > 0 ||
+    experienceRange(query) !== null
+  );
+}
+
+function experienceRange(query: TalentPoolQuery) {
+  if (query.minExperience === undefined && query.maxExperience === undefined) return null;
+
+  return {
+    ...(query.minExperience !== undefined && { gte: query.minExperience }),
+    ...(query.maxExperience !== undefined && { lte: query.maxExperience }),
+  };
+}
+
+/**
+ * SQL condition: one of the skills in the list has the comparison key of a
+ * requested skill, the same way skillKey and the taxonomy lookup compare them
+ * ("React (Advanced)" and "Python - 5 years" included)
+ */
+export function skillListMatchesSql(element: Prisma.Sql, skills: string[]): Prisma.Sql {
+  const keys = [...new Set(skills.flatMap(getSkillKeys))];
+  const key = (value: Prisma.Sql) =>
+    Prisma.sql`regexp_replace(lower(btrim(${value})), '[[:space:]._/-]+', '', 'g')`;
+  const stripped = Prisma.sql`regexp_replace(regexp_replace(${element}, '\\(.*?\\)', '', 'g'), '[[:space:]][-–:][[:space:]].*$', '')`;
+
+  return Prisma.sql`(${key(element)} = ANY(${keys}::text[]) OR ${key(stripped)} = ANY(${keys}::text[]))`;
+}
@@ -0,0 +1,241 @@
+// lib/talent-pool/profiles.ts
+import { normalizeLinkedInUrl } from "../utils/deduplication";
+import { normalizeSkill, normalizeSkills, skillKey } from "../skills/taxonomy";
+import type { TalentPoolQuery } from "../validations/talent-pool";
+
+export type TalentSource = "screening" | "sourcing";
+
+/**
+ * One Candidate or LinkedInCandidate row, reduced to the fields the pool
+ * searches on
+ */
+export interface TalentRecord {
+  source: TalentSource;
+  candidateId: string;
+  jobId: string;
+  jobTitle: string;
+  name: string;
+  email: string | null;
+  profileUrl: string | null;
+  title: string | null;
+  company: string | null;
+  location: string | null;
+  seniority: string | null;
+  experienceYears: number | null;
+  skills: string[];
+  summary: string | null;
+  matchScore: number | null;
+  addedAt: Date;
+}
+
+export interface TalentAppearance {
+  source: TalentSource;
+  candidateId: string;
+  jobId: string;
+  jobTitle: string;
+  matchScore: number | null;
+  addedAt: Date;
+}
+
+/**
+ * A person, merged from every record that shares a profile URL or email
+ */
+export interface TalentProfile {
+  key: string;
+  name: string;
+  emails: string[];
+  profileUrl: string | null;
+  title: string | null;
+  company: string | null;
+  location: string | null;
+  seniority: string | null;
+  experienceYears: number | null;
+  skills: string[];
+  bestMatchScore: number | null;
+  lastSeenAt: Date;
+  appearances: TalentAppearance[];
+  searchText: string;
+}
+
+export const EXPERIENCE_BUCKETS = [
+  { label: "0-2", min: 0, max: 2 },
+  { label: "3-5", min: 3, max: 5 },
+  { label: "6-10", min: 6, max: 10 },
+  { label: "10+", min: 11, max: Infinity },
+];
+
+function identityKeys(record: TalentRecord): string[] {
+  const keys: string[] = [];
+  if (record.profileUrl) keys.push(`url:${normalizeLinkedInUrl(record.profileUrl)}`);
+  if (record.email) keys.push(`email:${record.email.trim().toLowerCase()}`);
+  return keys;
+}
+
+/**
+ * Group records into people. Records are linked when they share a normalized
+ * profile URL or an email, transitively, so a resume with an email joins the
+ * LinkedIn profile enriched with the same address. Records with neither stay
+ * on their own.
+ */
+export function mergeTalentRecords(records: TalentRecord[]): TalentProfile[] {
+  const parent = records.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const owner = new Map<string, number>();
+  records.forEach((record, i) => {
+    for (const key of identityKeys(record)) {
+      const seen = owner.get(key);
+      if (seen === undefined) {
+        owner.set(key, i);
+      } else {
+        parent[find(i)] = find(seen);
+      }
+    }
+  });
+
+  const groups = new Map<number, TalentRecord[]>();
+  records.forEach((record, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), record]);
+  });
+
+  return [...groups.values()].map(buildProfile);
+}
+
+function buildProfile(group: TalentRecord[]): TalentProfile {
+  // Newest first, so the latest known title and location win
+  const records = [...group].sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime());
+  const linkedIn = records.filter((r) => r.source === "sourcing");
+  const pick = <K extends keyof TalentRecord>(field: K) =>
+    (linkedIn.find((r) => r[field] != null) ?? records.find((r) => r[field] != null))?.[field] ??
+    null;
+
+  const emails = [
+    ...new Set(records.map((r) => r.email?.trim().toLowerCase()).filter(Boolean)),
+  ] as string[];
+  const profileUrl = linkedIn.find((r) => r.profileUrl)?.profileUrl ?? null;
+  const years = records.map((r) => r.experienceYears).filter((y): y is number => y != null);
+  const scores = records.map((r) => r.matchScore).filter((s): s is number => s != null);
+  const skills = normalizeSkills(records.flatMap((r) => r.skills));
+
+  const profile: Omit<TalentProfile, "searchText"> = {
+    key: profileUrl
+      ? normalizeLinkedInUrl(profileUrl)
+      : emails[0] || `${records[0].source}:${records[0].candidateId}`,
+    name: records[0].name,
+    emails,
+    profileUrl,
+    title: pick("title") as string | null,
+    company: pick("company") as string | null,
+    location: pick("location") as string | null,
+    seniority: pick("seniority") as string | null,
+    experienceYears: years.length > 0 ? Math.max(...years) : null,
+    skills,
+    bestMatchScore: scores.length > 0 ? Math.max(...scores) : null,
+    lastSeenAt: records[0].addedAt,
+    appearances: records.map((r) => ({
+      source: r.source,
+      candidateId: r.candidateId,
+      jobId: r.jobId,
+      jobTitle: r.jobTitle,
+      matchScore: r.matchScore,
+      addedAt: r.addedAt,
+    })),
+  };
+
+  const searchText = [
+    ...new Set(
+      records.flatMap((r) => [r.name, r.title, r.company, r.location, r.summary, ...r.skills])
+    ),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  return { ...profile, searchText };
+}
+
+const contains = (value: string | null, needle: string) =>
+  !!value && value.toLowerCase().includes(needle.toLowerCase());
+
+/**
+ * Number of requested skills a profile has, or -1 when it fails any filter
+ */
+export function matchTalentProfile(profile: TalentProfile, query: TalentPoolQuery): number {
+  if (query.source !== "all" && !profile.appearances.some((a) => a.source === query.source)) {
+    return -1;
+  }
+
+  if (query.title && !contains(profile.title, query.title)) return -1;
+  if (query.location && !contains(profile.location, query.location)) return -1;
+
+  if (
+    query.seniority.length > 0 &&
+    !query.seniority.some((level) => profile.seniority?.toLowerCase() === level.toLowerCase())
+  ) {
+    return -1;
+  }
+
+  if (query.minExperience !== undefined || query.maxExperience !== undefined) {
+    if (profile.experienceYears == null) return -1;
+    if (query.minExperience !== undefined && profile.experienceYears < query.minExperience) return -1;
+    if (query.maxExperience !== undefined && profile.experienceYears > query.maxExperience) return -1;
+  }
+
+  if (query.q) {
+    const terms = query.q.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every((term) => profile.searchText.includes(term))) return -1;
+  }
+
+  if (query.skills.length === 0) return 0;
+
+  const have = new Set(profile.skills.map(skillKey));
+  const matched = query.skills.filter((skill) => have.has(skillKey(normalizeSkill(skill)))).length;
+
+  if (query.skillMatch === "all" ? matched < query.skills.length : matched === 0) {
+    return -1;
+  }
+
+  return matched;
+}
+
+function topCounts(values: string[], limit: number) {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count }));
+}
+
+/**
+ * Facet counts over the matching profiles (not just the current page)
+ */
+export function buildTalentFacets(profiles: TalentProfile[]) {
+  return {
+    skills: topCounts(profiles.flatMap((p) => p.skills), 25),
+    seniority: topCounts(profiles.map((p) => p.seniority).filter(Boolean) as string[], 10),
+    locations: topCounts(profiles.map((p) => p.location).filter(Boolean) as string[], 15),
+    titles: topCounts(profiles.map((p) => p.title).filter(Boolean) as string[], 15),
+    experience: EXPERIENCE_BUCKETS.map((bucket) => ({
+      value: bucket.label,
+      count: profiles.filter(
+        (p) =>
+          p.experienceYears != null &&
+          p.experienceYears >= bucket.min &&
+          p.experienceYears <= bucket.max
+      ).length,
+    })),
+    sources: (["screening", "sourcing"] as TalentSource[]).map((source) => ({
+      value: source,
+      count: profiles.filter((p) => p.appearances.some((a) => a.source === source)).length,
+    })),
+  };
+}
@@ -1,5 +1,20 @@
 import { prisma } from "../prisma";
 
+/**
+ * Normalize a LinkedIn profile URL so the same person always maps to one key
+ * e.g. "http://www.linkedin.com/in/Jane-Doe/?trk=x" -> "https://linkedin.com/in/jane-doe"
+ */
+export function normalizeLinkedInUrl(profileUrl: string): string {
+  try {
+    const url = new URL(profileUrl.trim());
+    const host = url.hostname.toLowerCase().replace(/^(www|[a-z]{2})\./, "");
+    const path = decodeURIComponent(url.pathname).toLowerCase().replace(/\/+$/, "");
+    return `https://${host}${path}`;
+  } catch {
+    return profileUrl.trim().toLowerCase().replace(/\/+$/, "");
+  }
+}
+
 /**
  * Check if this profile URL exists in user's other sourcing jobs
  */
@@ -5,13 +5,13 @@ import { PDFParse } from "pdf-parse";
 // CONSTANTS
 // -------------------------
 
-const SUPPORTED_MIME_TYPES = {
+export const SUPPORTED_MIME_TYPES = {
   PDF: "application/pdf",
   DOCX: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
   DOC: "application/msword",
 } as const;
 
-const MAX_FILE_SIZE_MB = 5;
+export const MAX_FILE_SIZE_MB = 5;
 
 // -------------------------
 // MAIN PARSER FUNCTION
@@ -0,0 +1,214 @@
+import yauzl, { Entry, ZipFile } from "yauzl";
+import { ArchiveError } from "../errors/archive-error";
+import { MAX_FILE_SIZE_MB, SUPPORTED_MIME_TYPES } from "./file-parser";
+
+// -------------------------
+// CONSTANTS
+// -------------------------
+
+const MAX_ARCHIVE_ENTRIES = 1000;
+const MAX_TOTAL_UNCOMPRESSED_MB = 500;
+const MAX_COMPRESSION_RATIO = 100;
+
+// Only PDF and DOCX are accepted from archives
+const ARCHIVE_MIME_TYPES: Record<string, string> = {
+  pdf: SUPPORTED_MIME_TYPES.PDF,
+  docx: SUPPORTED_MIME_TYPES.DOCX,
+};
+
+// -------------------------
+// TYPES
+// -------------------------
+
+export interface ExtractedResume {
+  fileName: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export interface ArchiveEntryReport {
+  fileName: string;
+  reason: string;
+}
+
+export interface ExtractedArchive {
+  extracted: number;
+  skipped: ArchiveEntryReport[];
+  rejected: ArchiveEntryReport[];
+}
+
+// -------------------------
+// MAIN EXTRACTOR
+// -------------------------
+
+/**
+ * Unpacks a ZIP archive of resumes one entry at a time
+ * - Each resume is handed to onResume before the next is read, so only one
+ *   extracted file is held in memory
+ * - Non-PDF/DOCX entries are skipped and reported
+ * - Encrypted, empty or oversized resumes are rejected and reported
+ * - Archives that look like zip bombs abort with an ArchiveError; resumes
+ *   handed over before that point have already been processed
+ *
+ * @param archive - ZIP file buffer
+ * @param onResume - Handles one extracted resume; should report its own failures
+ * @returns Count of extracted resumes plus per-entry skip/reject report
+ */
+export async function extractResumeArchive(
+  archive: Buffer,
+  onResume: (file: ExtractedResume) => Promise<void>
+): Promise<ExtractedArchive> {
+  let zipfile: ZipFile;
+
+  try {
+    zipfile = await yauzl.fromBufferPromise(archive, {
+      lazyEntries: true,
+      validateEntrySizes: true,
+    });
+  } catch (err: any) {
+    throw new ArchiveError(`Invalid ZIP archive: ${err?.message}`, {
+      reason: "invalid_archive",
+    });
+  }
+
+  if (zipfile.entryCount > MAX_ARCHIVE_ENTRIES) {
+    zipfile.close();
+    throw new ArchiveError(
+      `Archive contains ${zipfile.entryCount} entries. Maximum ${MAX_ARCHIVE_ENTRIES} allowed`,
+      { reason: "too_many_entries" }
+    );
+  }
+
+  const result: ExtractedArchive = { extracted: 0, skipped: [], rejected: [] };
+  const maxFileBytes = MAX_FILE_SIZE_MB * 1024 * 1024;
+  const maxTotalBytes = MAX_TOTAL_UNCOMPRESSED_MB * 1024 * 1024;
+  let totalBytes = 0;
+
+  try {
+    for await (const entry of zipfile.eachEntry()) {
+      // Directories carry no content
+      if (entry.fileName.endsWith("/")) continue;
+
+      const fileName = entry.fileName.split("/").pop() || entry.fileName;
+
+      if (isSystemEntry(entry.fileName)) {
+        result.skipped.push({ fileName: entry.fileName, reason: "System or hidden file" });
+        continue;
+      }
+
+      const mimeType = getArchiveMimeType(fileName);
+
+      if (!mimeType) {
+        result.skipped.push({
+          fileName: entry.fileName,
+          reason: "Unsupported file type. Only PDF and DOCX are imported",
+        });
+        continue;
+      }
+
+      assertSafeEntry(entry);
+
+      totalBytes += entry.uncompressedSize;
+
+      if (totalBytes > maxTotalBytes) {
+        throw new ArchiveError(
+          `Archive expands beyond ${MAX_TOTAL_UNCOMPRESSED_MB}MB`,
+          { reason: "too_large", fileName: entry.fileName }
+        );
+      }
+
+      if (entry.isEncrypted()) {
+        result.rejected.push({ fileName: entry.fileName, reason: "File is encrypted" });
+        continue;
+      }
+
+      if (entry.uncompressedSize === 0) {
+        result.rejected.push({ fileName: entry.fileName, reason: "File is empty" });
+        continue;
+      }
+
+      if (entry.uncompressedSize > maxFileBytes) {
+        result.rejected.push({
+          fileName: entry.fileName,
+          reason: `File size exceeds ${MAX_FILE_SIZE_MB}MB limit`,
+        });
+        continue;
+      }
+
+      const buffer = await readEntry(zipfile, entry, maxFileBytes);
+
+      result.extracted++;
+      await onResume({ fileName, mimeType, buffer });
+    }
+  } catch (err: any) {
+    if (err instanceof ArchiveError) throw err;
+
+    throw new ArchiveError(`Failed to read ZIP archive: ${err?.message}`, {
+      reason: "invalid_archive",
+    });
+  } finally {
+    zipfile.close();
+  }
+
+  return result;
+}
+
+// -------------------------
+// HELPER FUNCTIONS
+// -------------------------
+
+/**
+ * Rejects entries whose compression ratio only makes sense for a zip bomb
+ */
+function assertSafeEntry(entry: Entry): void {
+  if (entry.compressedSize === 0) return;
+
+  const ratio = entry.uncompressedSize / entry.compressedSize;
+
+  if (ratio > MAX_COMPRESSION_RATIO) {
+    throw new ArchiveError(
+      `Suspicious compression ratio (${Math.round(ratio)}:1) for ${entry.fileName}`,
+      { reason: "suspicious_compression", fileName: entry.fileName }
+    );
+  }
+}
+
+/**
+ * Streams a single entry into memory, aborting past the byte limit
+ */
+async function readEntry(zipfile: ZipFile, entry: Entry, maxBytes: number): Promise<Buffer> {
+  const stream = await zipfile.openReadStreamPromise(entry);
+  const chunks: Buffer[] = [];
+  let bytesRead = 0;
+
+  for await (const chunk of stream) {
+    bytesRead += chunk.length;
+
+    if (bytesRead > maxBytes) {
+      stream.destroy();
+      throw new ArchiveError(`Entry ${entry.fileName} expands beyond its declared size`, {
+        reason: "too_large",
+        fileName: entry.fileName,
+      });
+    }
+
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Determines archive MIME type based on file extension
+ */
+function getArchiveMimeType(fileName: string): string | undefined {
+  const ext = fileName.split(".").pop()?.toLowerCase();
+  return ext ? ARCHIVE_MIME_TYPES[ext] : undefined;
+}
+
+/**
+ * Checks for macOS resource forks and hidden files
+ */
+function isSystemEntry(path: string): boolean {
+  return path.startsWith("__MACOSX/") || path.split("/").some((part) => part.startsWith("."));
+}
@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+export const noteBodySchema = z.string().trim().min(1).max(5000);
+
+export const createNoteSchema = z.object({
+  body: noteBodySchema,
+  // Reply to this note; replies to a reply are attached to its top-level note
+  parentId: z.string().min(1).optional(),
+});
+
+export const updateNoteSchema = z.object({
+  body: noteBodySchema,
+});
+
+// Tags are compared case-insensitively, so they are stored lowercased
+export const tagSchema = z.string().trim().toLowerCase().min(1).max(40);
+
+export const MAX_TAGS = 30;
+
+export const setTagsSchema = z.object({
+  tags: z
+    .array(tagSchema)
+    .max(MAX_TAGS)
+    .transform((tags) => [...new Set(tags)]),
+});
+
+export const ratingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+});
+
+// Query string filters for candidate lists: ?tags=a,b&minRating=3&maxRating=5
+export const candidateListFiltersSchema = z
+  .object({
+    tags: z
+      .string()
+      .optional()
+      .transform((value) =>
+        value
+          ? [...new Set(value.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))]
+          : []
+      ),
+    minRating: z.coerce.number().int().min(1).max(5).optional(),
+    maxRating: z.coerce.number().int().min(1).max(5).optional(),
+  })
+  .refine(
+    (value) =>
+      value.minRating === undefined ||
+      value.maxRating === undefined ||
+      value.minRating <= value.maxRating,
+    { message: "minRating must not exceed maxRating" }
+  );
+
+export type CandidateListFilters = z.infer<typeof candidateListFiltersSchema>;
+
+export const compareCandidatesSchema = z.object({
+  candidateIds: z
+    .array(z.string().min(1))
+    .min(2)
+    .max(5)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "candidateIds must be unique",
+    }),
+  // Ask the model for a comparative recommendation on top of the aligned data
+  recommendation: z.boolean().default(false),
+});
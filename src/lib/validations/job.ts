@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+// Edited requirements to re-score a screening job's candidates against
+export const rescoreScreeningJobSchema = z.object({
+  description: z.string().trim().min(50).max(20000).optional(),
+  requiredSkills: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  experienceRequired: z.string().trim().min(1).max(100).optional(),
+  qualifications: z.array(z.string().trim().min(1).max(300)).max(50).optional(),
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+export const pipelineStageOutcomeSchema = z.enum(["OPEN", "HIRED", "REJECTED"]);
+
+export const createPipelineStageSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  outcome: pipelineStageOutcomeSchema.default("OPEN"),
+  // Insert before the stage currently at this position; appended when omitted
+  position: z.number().int().min(0).optional(),
+});
+
+export const updatePipelineStageSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50).optional(),
+    outcome: pipelineStageOutcomeSchema.optional(),
+  })
+  .refine((value) => value.name !== undefined || value.outcome !== undefined, {
+    message: "Provide a name or an outcome",
+  });
+
+// Every stage id of the user, in the new order
+export const reorderPipelineStagesSchema = z.object({
+  stageIds: z.array(z.string().min(1)).min(1),
+});
+
+export const candidateTypeSchema = z.enum(["screening", "sourcing"]);
+
+export const moveCandidatesSchema = z.object({
+  candidateType: candidateTypeSchema,
+  candidateIds: z.array(z.string().min(1)).min(1).max(100),
+  stageId: z.string().min(1),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export type CandidateType = z.infer<typeof candidateTypeSchema>;
+export type CreatePipelineStageInput = z.infer<typeof createPipelineStageSchema>;
+export type UpdatePipelineStageInput = z.infer<typeof updatePipelineStageSchema>;
@@ -30,6 +30,146 @@ export const linkedInSearchFiltersSchema = z.object({
   takePages: z.number().optional(),
 });
 
+// ============================================
+// Scoring rubric (per sourcing job)
+// ============================================
+
+export const scoringRubricSchema = z.object({
+  // Relative importance of each dimension; normalized to 100 when scoring
+  weights: z.object({
+    skills: z.number().min(0).max(100),
+    experience: z.number().min(0).max(100),
+    industry: z.number().min(0).max(100),
+    title: z.number().min(0).max(100),
+    niceToHave: z.number().min(0).max(100),
+  }),
+  // Must-haves: failing any caps the score and marks the candidate not recommended
+  knockouts: z.array(z.string().min(2).max(200)).max(10).default([]),
+  knockoutScoreCap: z.number().min(0).max(100).default(40),
+  // Extra points on top of the weighted score (total still capped at 100)
+  bonusCriteria: z.array(
+    z.object({
+      criterion: z.string().min(2).max(200),
+      points: z.number().min(1).max(20),
+    })
+  ).max(10).default([]),
+}).refine(
+  (rubric) => Object.values(rubric.weights).some((weight) => weight > 0),
+  { message: 'At least one weight must be greater than 0', path: ['weights'] }
+);
+
+export type ScoringRubric = z.infer<typeof scoringRubricSchema>;
+
+export const topUpSourcingJobSchema = z.object({
+  additionalCandidates: z.number().int().min(1).max(200),
+});
+
+// Edited job description to re-score the existing candidate pool against
+export const rescoreSourcingJobSchema = z.object({
+  jobDescription: z.string().min(50).max(5000).optional(),
+  jobRequirements: createSourcingJobSchema.shape.jobRequirements.partial().optional(),
+});
+
+// Recruiter edits to an AI-generated search variant (review mode)
+export const searchFilterVariantEditSchema = z.object({
+  currentJobTitles: z.array(z.string().min(1)).min(1).optional(),
+  locations: z.array(z.string().min(1)).optional(),
+  industryIds: z.array(z.number().int()).optional(),
+  seniorityLevelIds: z.array(z.string()).optional(),
+});
+
+export const searchFiltersReviewSchema = z.object({
+  // One entry per variant, in the order returned by GET; null keeps a variant unchanged
+  variants: z.array(searchFilterVariantEditSchema.nullable()).optional(),
+});
+
+export const SENIORITY_LEVELS = ["Entry", "Mid", "Senior", "Lead", "Executive"] as const;
+
+export const INTERVIEW_READINESS_VALUES = [
+  "NOT_ASSESSED",
+  "READY_TO_INTERVIEW",
+  "INTERVIEW_WITH_VALIDATION",
+  "NOT_RECOMMENDED",
+] as const;
+
+// Sortable candidate fields; id is always appended as the final tie-breaker
+export const CANDIDATE_SORT_FIELDS = [
+  "matchScore",
+  "skillsScore",
+  "experienceScore",
+  "industryScore",
+  "titleScore",
+  "experienceYears",
+  "interviewConfidenceScore",
+  "rating",
+  "scrapedAt",
+  "fullName",
+] as const;
+
+const queryBoolean = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// "a,b" -> values of `allowed`, matched case-insensitively
+const queryList = <T extends string>(allowed: readonly T[]) =>
+  z
+    .string()
+    .transform((value, ctx) =>
+      value
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean)
+        .map((v) => {
+          const match = allowed.find((a) => a.toLowerCase() === v.toLowerCase());
+          if (!match) {
+            ctx.addIssue({ code: "custom", message: `Unknown value "${v}"` });
+          }
+          return match as T;
+        })
+    );
+
+// GET /api/sourcing/:jobId?include=candidates list options
+export const sourcingCandidateListQuerySchema = z.object({
+  minScore: z.coerce.number().min(0).max(100).optional(),
+  seniority: queryList(SENIORITY_LEVELS).optional(),
+  openToWork: queryBoolean.optional(),
+  hasContactInfo: queryBoolean.optional(),
+  interviewReadiness: queryList(INTERVIEW_READINESS_VALUES).optional(),
+  location: z.string().trim().min(1).max(100).optional(),
+  // Comma separated; every skill must be among the candidate's matched skills
+  skills: z
+    .string()
+    .transform((value) => value.split(",").map((s) => s.trim()).filter(Boolean))
+    .optional(),
+  excludeDuplicates: queryBoolean.default(false),
+  // "matchScore:desc,experienceYears:desc"; direction defaults to desc
+  sort: z
+    .string()
+    .default("matchScore:desc")
+    .transform((value, ctx) =>
+      value
+        .split(",")
+        .map((s) => s.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const [field, direction = "desc"] = entry.split(":");
+          if (!(CANDIDATE_SORT_FIELDS as readonly string[]).includes(field)) {
+            ctx.addIssue({ code: "custom", message: `Cannot sort by "${field}"` });
+          }
+          if (direction !== "asc" && direction !== "desc") {
+            ctx.addIssue({ code: "custom", message: `Invalid sort direction "${direction}"` });
+          }
+          return {
+            field: field as (typeof CANDIDATE_SORT_FIELDS)[number],
+            direction: direction as "asc" | "desc",
+          };
+        })
+    ),
+  cursor: z.string().min(1).optional(),
+  // Without limit or cursor the list is unpaged; a cursor alone pages by 50
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type SourcingCandidateListQuery = z.infer<typeof sourcingCandidateListQuerySchema>;
+
 export const structuredCandidateSchema = z.object({
   fullName: z.string().describe('Full name of the candidate'),
   headline: z.string().nullable().describe('Professional headline'),
@@ -237,7 +377,22 @@ export const candidateScoreSchema = z.object({
     .describe('Genuine concerns to explore (max 3). Be specific, not generic. Example: "Short tenure at last 3 companies (6-8 months each) - explore reasons for frequent moves" or "2-year employment gap between 2020-2022 - understand career trajectory". Leave empty if none.'),
   
   interviewFocusSummary: z.string().min(150).max(500)
-    .describe('Interview strategy summary (2-4 sentences). Cover: main areas to probe deeply, validation vs exploration balance, any specific concerns to address, and overall interview approach (technical deep-dive vs broad assessment). Example: "Focus interview on validating React/TypeScript depth through architecture discussions and code challenges. Probe leadership experience with behavioral questions on team management. Explore gap in backend experience—assess learning agility and interest in full-stack work. Overall strategy: deep technical validation + growth mindset assessment."')
+    .describe('Interview strategy summary (2-4 sentences). Cover: main areas to probe deeply, validation vs exploration balance, any specific concerns to address, and overall interview approach (technical deep-dive vs broad assessment). Example: "Focus interview on validating React/TypeScript depth through architecture discussions and code challenges. Probe leadership experience with behavioral questions on team management. Explore gap in backend experience—assess learning agility and interest in full-stack work. Overall strategy: deep technical validation + growth mindset assessment."'),
+
+  // ============================================
+  // RUBRIC CHECKS
+  // ============================================
+  rubricCriteria: z.array(z.object({
+    id: z.string()
+      .describe('ID of the criterion as listed in the SCORING RUBRIC section, e.g. "K1" or "B2"'),
+    criterion: z.string()
+      .describe('Text of the knockout or bonus criterion from the SCORING RUBRIC section'),
+    met: z.boolean()
+      .describe('true only if the profile shows clear evidence the criterion is met'),
+    evidence: z.string().max(200).nullable()
+      .describe('Short evidence from the profile, or null if not met')
+  })).default([])
+    .describe('One entry per knockout and bonus criterion listed in the SCORING RUBRIC section. Leave empty if the prompt has no rubric.')
 });
 
 export type CandidateScore = z.infer<typeof candidateScoreSchema>;
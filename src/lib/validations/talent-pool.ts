@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+// Comma separated query string value -> trimmed, non-empty list
+const commaList = z
+  .string()
+  .optional()
+  .transform((value) =>
+    value ? [...new Set(value.split(",").map((v) => v.trim()).filter(Boolean))] : []
+  );
+
+export const talentPoolQuerySchema = z
+  .object({
+    q: z.string().trim().max(200).optional(),
+    skills: commaList,
+    // "all": every listed skill is required, "any": at least one
+    skillMatch: z.enum(["all", "any"]).default("all"),
+    title: z.string().trim().max(100).optional(),
+    location: z.string().trim().max(100).optional(),
+    seniority: commaList,
+    minExperience: z.coerce.number().int().min(0).max(60).optional(),
+    maxExperience: z.coerce.number().int().min(0).max(60).optional(),
+    source: z.enum(["all", "screening", "sourcing"]).default("all"),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine(
+    (value) =>
+      value.minExperience === undefined ||
+      value.maxExperience === undefined ||
+      value.minExperience <= value.maxExperience,
+    { message: "minExperience must not exceed maxExperience" }
+  );
+
+export type TalentPoolQuery = z.infer<typeof talentPoolQuerySchema>;
+
+// ?jobId= or ?sourcingJobId=, plus result options
+export const similarCandidatesQuerySchema = z
+  .object({
+    jobId: z.string().min(1).optional(),
+    sourcingJobId: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    source: z.enum(["all", "screening", "sourcing"]).default("all"),
+    minSimilarity: z.coerce.number().min(-1).max(1).optional(),
+    includeCurrent: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((value) => value === "true"),
+  })
+  .refine((value) => !value.jobId !== !value.sourcingJobId, {
+    message: "Provide either jobId or sourcingJobId",
+  });
+
+export type SimilarCandidatesQuery = z.infer<typeof similarCandidatesQuerySchema>;
@@ -1,6 +1,16 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { candidateFeedbackService } from '../services/candidate-feedback.service';
+import { candidateTypeSchema, CandidateType } from '../lib/validations/pipeline';
+import {
+  createNoteSchema,
+  updateNoteSchema,
+  setTagsSchema,
+  MAX_TAGS,
+  tagSchema,
+  ratingSchema,
+} from '../lib/validations/candidate';
 
 const router = Router({ mergeParams: true });
 
@@ -34,11 +44,388 @@ router.get('/:candidateId', requireAuth, async (req: AuthenticatedRequest, res,
       return res.status(403).json({ error: 'Unauthorized' });
     }
 
-    res.json(candidate);
+    const notes = await candidateFeedbackService.listNotes('screening', candidateId);
+
+    res.json({ ...candidate, notes });
   } catch (error: any) {
     console.error('Error fetching candidate:', error);
     next(error);
   }
 });
 
+/**
+ * Resolve :candidateType/:candidateId to a candidate the user owns, answering
+ * 400/404 itself when it can't
+ */
+async function resolveCandidate(req: AuthenticatedRequest, res: Response) {
+  const type = candidateTypeSchema.safeParse(req.params.candidateType);
+
+  if (!type.success) {
+    res.status(400).json({ error: 'candidateType must be screening or sourcing' });
+    return null;
+  }
+
+  const candidate = await candidateFeedbackService.getFeedback(
+    req.userId!,
+    type.data,
+    req.params.candidateId
+  );
+
+  if (!candidate) {
+    res.status(404).json({ error: 'Candidate not found' });
+    return null;
+  }
+
+  return { type: type.data as CandidateType, candidate };
+}
+
+// -------------------------
+// GET: NOTES OF A CANDIDATE
+// -------------------------
+router.get(
+  '/:candidateType/:candidateId/notes',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const notes = await candidateFeedbackService.listNotes(resolved.type, resolved.candidate.id);
+
+      res.json({
+        success: true,
+        notes,
+      });
+    } catch (error: any) {
+      console.error('Error fetching candidate notes:', error);
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// POST: ADD A NOTE OR REPLY
+// -------------------------
+router.post(
+  '/:candidateType/:candidateId/notes',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { body, parentId } = createNoteSchema.parse(req.body);
+
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const { type, candidate } = resolved;
+      let parent = null;
+
+      if (parentId) {
+        parent = await candidateFeedbackService.getNote(type, candidate.id, parentId);
+
+        if (!parent) {
+          return res.status(404).json({ error: 'Parent note not found' });
+        }
+      }
+
+      const note = await candidateFeedbackService.createNote(
+        req.userId!,
+        type,
+        candidate.id,
+        body,
+        parent || undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        note,
+      });
+    } catch (error: any) {
+      console.error('Error creating candidate note:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// PATCH: EDIT A NOTE
+// -------------------------
+router.patch(
+  '/:candidateType/:candidateId/notes/:noteId',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { body } = updateNoteSchema.parse(req.body);
+
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const note = await candidateFeedbackService.getNote(
+        resolved.type,
+        resolved.candidate.id,
+        req.params.noteId
+      );
+
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      // Only the author may edit a note
+      if (note.authorId !== req.userId) {
+        return res.status(403).json({ error: 'Unauthorized' });
+      }
+
+      const updated = await candidateFeedbackService.updateNote(note.id, body);
+
+      res.json({
+        success: true,
+        note: updated,
+      });
+    } catch (error: any) {
+      console.error('Error updating candidate note:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// DELETE: REMOVE A NOTE
+// -------------------------
+router.delete(
+  '/:candidateType/:candidateId/notes/:noteId',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const note = await candidateFeedbackService.getNote(
+        resolved.type,
+        resolved.candidate.id,
+        req.params.noteId
+      );
+
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      if (note.authorId !== req.userId) {
+        return res.status(403).json({ error: 'Unauthorized' });
+      }
+
+      await candidateFeedbackService.deleteNote(note.id);
+
+      res.json({
+        success: true,
+        message: 'Note deleted',
+      });
+    } catch (error: any) {
+      console.error('Error deleting candidate note:', error);
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// PUT: REPLACE TAGS
+// -------------------------
+router.put(
+  '/:candidateType/:candidateId/tags',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { tags } = setTagsSchema.parse(req.body);
+
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const candidate = await candidateFeedbackService.setTags(
+        resolved.type,
+        resolved.candidate.id,
+        tags
+      );
+
+      res.json({
+        success: true,
+        ...candidate,
+      });
+    } catch (error: any) {
+      console.error('Error setting candidate tags:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// POST: ADD TAGS
+// -------------------------
+router.post(
+  '/:candidateType/:candidateId/tags',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { tags } = setTagsSchema.parse(req.body);
+
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const candidate = await candidateFeedbackService.addTags(
+        resolved.type,
+        resolved.candidate.id,
+        tags
+      );
+
+      if (!candidate) {
+        return res.status(400).json({ error: `A candidate can have at most ${MAX_TAGS} tags` });
+      }
+
+      res.json({
+        success: true,
+        ...candidate,
+      });
+    } catch (error: any) {
+      console.error('Error adding candidate tags:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// DELETE: REMOVE A TAG
+// -------------------------
+router.delete(
+  '/:candidateType/:candidateId/tags/:tag',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const tag = tagSchema.parse(req.params.tag);
+
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      if (!resolved.candidate.tags.includes(tag)) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
+
+      const candidate = await candidateFeedbackService.removeTag(
+        resolved.type,
+        resolved.candidate.id,
+        tag
+      );
+
+      res.json({
+        success: true,
+        ...candidate,
+      });
+    } catch (error: any) {
+      console.error('Error removing candidate tag:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// PUT: RATE A CANDIDATE
+// -------------------------
+router.put(
+  '/:candidateType/:candidateId/rating',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { rating } = ratingSchema.parse(req.body);
+
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const candidate = await candidateFeedbackService.setRating(
+        resolved.type,
+        resolved.candidate.id,
+        rating
+      );
+
+      res.json({
+        success: true,
+        ...candidate,
+      });
+    } catch (error: any) {
+      console.error('Error rating candidate:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// DELETE: CLEAR RATING
+// -------------------------
+router.delete(
+  '/:candidateType/:candidateId/rating',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const resolved = await resolveCandidate(req, res);
+      if (!resolved) return;
+
+      const candidate = await candidateFeedbackService.clearRating(
+        resolved.type,
+        resolved.candidate.id
+      );
+
+      res.json({
+        success: true,
+        ...candidate,
+      });
+    } catch (error: any) {
+      console.error('Error clearing candidate rating:', error);
+      next(error);
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { prisma } from '../lib/prisma';
 import { createSourcingWorkflow, buildResumeState } from '../lib/sourcing/workflow';
+import { finalizeSourcingCancellation } from '../lib/sourcing/cancellation';
+import { purgeExpiredContacts } from '../lib/enrichment';
 
 const router = Router();
 
@@ -32,6 +34,7 @@ router.get('/recover-jobs', async (req, res, next) => {
     );
 
     // Find jobs that are stuck (no activity for X minutes)
+    // PAUSED and AWAITING_REVIEW jobs are idle on purpose and wait for the user
     const stuckJobs = await prisma.sourcingJob.findMany({
       where: {
         status: {
@@ -63,6 +66,7 @@ router.get('/recover-jobs', async (req, res, next) => {
         retryCount: true,
         lastActivityAt: true,
         lastCompletedStage: true,
+        cancelRequestedAt: true,
       },
     });
 
@@ -72,6 +76,7 @@ router.get('/recover-jobs', async (req, res, next) => {
       recovered: 0,
       failed: 0,
       maxRetriesReached: 0,
+      cancelled: 0,
       errors: [] as Array<{ jobId: string; error: string }>,
     };
 
@@ -84,6 +89,14 @@ router.get('/recover-jobs', async (req, res, next) => {
         console.log(`📍 [CRON] Last activity: ${job.lastActivityAt}`);
         console.log(`📊 [CRON] Current stage: ${job.currentStage}`);
 
+        // The user cancelled while the job was stuck - finish the cancellation instead
+        if (job.cancelRequestedAt) {
+          console.log(`🛑 [CRON] Job ${job.id} was cancelled - finalizing instead of resuming`);
+          await finalizeSourcingCancellation(job.id);
+          results.cancelled++;
+          continue;
+        }
+
         // Check if max retries reached
         if (job.retryCount >= MAX_RETRIES) {
           console.log(`❌ [CRON] Job ${job.id} has reached max retries`);
@@ -176,8 +189,33 @@ router.get('/recover-jobs', async (req, res, next) => {
       }
     }
 
+    // Interrupted re-scores are not re-run (that costs AI calls); the job goes back to
+    // COMPLETED with what was scored, and the user can start the re-score again
+    const { count: interruptedRescores } = await prisma.sourcingJob.updateMany({
+      where: {
+        status: 'RESCORING',
+        lastActivityAt: { lt: stuckThreshold },
+      },
+      data: {
+        status: 'COMPLETED',
+        currentStage: 'RESCORING_INTERRUPTED',
+        errorMessage: 'Re-scoring was interrupted. Start it again to score the remaining candidates.',
+        lastActivityAt: new Date(),
+      },
+    });
+
+    // Same for screening jobs: the re-score ran in a process that is gone, so release
+    // the status or /process and /rescore would answer 409 forever
+    const { count: interruptedScreeningRescores } = await prisma.job.updateMany({
+      where: {
+        status: 'rescoring',
+        OR: [{ rescoreStartedAt: null }, { rescoreStartedAt: { lt: stuckThreshold } }],
+      },
+      data: { status: 'completed', rescoreStartedAt: null },
+    });
+
     console.log(
-      `✅ [CRON] Recovery complete: ${results.recovered} recovered, ${results.failed} failed, ${results.maxRetriesReached} max retries reached`
+      `✅ [CRON] Recovery complete: ${results.recovered} recovered, ${results.failed} failed, ${results.maxRetriesReached} max retries reached, ${interruptedRescores + interruptedScreeningRescores} re-scores interrupted`
     );
 
     res.json({
@@ -188,6 +226,9 @@ router.get('/recover-jobs', async (req, res, next) => {
         recovered: results.recovered,
         failed: results.failed,
         maxRetriesReached: results.maxRetriesReached,
+        cancelled: results.cancelled,
+        interruptedRescores,
+        interruptedScreeningRescores,
       },
       errors: results.errors,
     });
@@ -197,6 +238,34 @@ router.get('/recover-jobs', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/cron/purge-contact-cache - Delete expired enrichment cache entries
+ *
+ * Expired entries are already ignored on read; this only keeps the table small.
+ * Call daily.
+ */
+router.get('/purge-contact-cache', async (req, res, next) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return res.status(401).json({ error: 'Unauthorized - Invalid cron secret' });
+    }
+
+    const purged = await purgeExpiredContacts();
+
+    console.log(`🧹 [CRON] Purged ${purged} expired contact cache entries`);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      purged,
+    });
+  } catch (error: any) {
+    console.error('❌ [CRON] Contact cache purge error:', error);
+    next(error);
+  }
+});
+
 /**
  * GET /api/cron/health - Health check for cron job
  * 
@@ -248,6 +317,7 @@ router.get('/health', async (req, res) => {
             'PARSING_PROFILES',
             'SAVING_PROFILES',
             'SCORING_PROFILES',
+            'RESCORING',
           ],
         },
       },
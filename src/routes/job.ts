@@ -1,7 +1,9 @@
 import { Router } from 'express';
+import { randomUUID } from 'crypto';
 import { prisma } from '../lib/prisma';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { extractJDRequirements } from '../lib/ai/parser';
+import { withUsageContext } from '../lib/ai/usage';
 
 const router = Router();
 
@@ -16,14 +18,20 @@ router.post('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
 
     console.log('Extracting job requirements using AI...');
 
+    // Id generated up front so the extraction's AI usage is attributed to the job
+    const jobId = randomUUID();
+
     // Use AI to extract structured requirements from job description
-    const extractedRequirements = await extractJDRequirements(description);
+    const extractedRequirements = await withUsageContext({ userId: userId!, jobId }, () =>
+      extractJDRequirements(description)
+    );
 
     console.log('Extracted requirements:', extractedRequirements);
 
     // Create job with AI-extracted requirements
     const job = await prisma.job.create({
       data: {
+        id: jobId,
         userId: userId!,
         title,
         description,
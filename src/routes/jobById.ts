@@ -1,6 +1,22 @@
 import { Router } from 'express';
 import { prisma } from '../lib/prisma';
+import { CreditCategory } from '@prisma/client';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import {
+  candidateListFiltersSchema,
+  compareCandidatesSchema,
+} from '../lib/validations/candidate';
+import {
+  loadScreeningComparisonEntries,
+  buildComparison,
+  SCREENING_SCORE_DIMENSIONS,
+  RECOMMENDATION_CREDITS,
+} from '../lib/scoring/comparison';
+import { generateComparativeRecommendation } from '../lib/ai/comparison';
+import { withUsageContext } from '../lib/ai/usage';
+import { candidateFeedbackWhere } from '../services/candidate-feedback.service';
+import { embeddingService } from '../services/embedding.service';
+import { creditService } from '../services/credit.service';
 
 const router = Router({ mergeParams: true });
 
@@ -9,10 +25,23 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
     const { jobId } = req.params;
     const { userId } = req;
 
+    // Optional ?tags=&minRating=&maxRating= filters on the candidate list
+    const filters = candidateListFiltersSchema.safeParse(req.query);
+
+    if (!filters.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: filters.error.issues,
+      });
+    }
+
     const job = await prisma.job.findFirst({
       where: { id: jobId, userId: userId! },
       include: {
-        candidates: { orderBy: { matchScore: 'desc' } },
+        candidates: {
+          where: candidateFeedbackWhere(filters.data),
+          orderBy: { matchScore: 'desc' },
+        },
         _count: { select: { candidates: true } },
       },
     });
@@ -72,6 +101,7 @@ router.delete('/', requireAuth, async (req: AuthenticatedRequest, res, next) =>
       return res.status(404).json({ error: 'Job not found' });
     }
 
+    await embeddingService.deleteJobEmbeddings({ jobId });
     await prisma.job.delete({ where: { id: jobId } });
     res.json({ message: 'Job deleted successfully' });
   } catch (error: any) {
@@ -80,4 +110,107 @@ router.delete('/', requireAuth, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
-export default router;
\ No newline at end of file
+// POST /api/jobs/:jobId/compare - Side-by-side comparison of 2-5 candidates
+// Body: { candidateIds: string[], recommendation?: boolean }
+router.post('/compare', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+    const { candidateIds, recommendation: withRecommendation } = compareCandidatesSchema.parse(
+      req.body
+    );
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        requiredSkills: true,
+        experienceRequired: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const entries = await loadScreeningComparisonEntries(jobId, candidateIds);
+
+    if (!entries) {
+      return res.status(404).json({ error: 'Candidates not found in this job' });
+    }
+
+    let recommendation = null;
+    let recommendationError: string | undefined;
+
+    // The aligned data is returned either way; only the recommendation is skipped
+    // when credits are short or the model call fails
+    if (withRecommendation) {
+      const description = [
+        job.description,
+        job.requiredSkills.length > 0 && `Required skills: ${job.requiredSkills.join(', ')}`,
+        job.experienceRequired && `Experience required: ${job.experienceRequired}`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const hasSufficient = await creditService.hasSufficientCredits(
+        userId!,
+        CreditCategory.SCREENING,
+        RECOMMENDATION_CREDITS
+      );
+
+      if (hasSufficient) {
+        try {
+          recommendation = await withUsageContext({ userId: userId!, jobId }, () =>
+            generateComparativeRecommendation({ title: job.title, description }, entries)
+          );
+        } catch (error: any) {
+          recommendationError = error.message;
+        }
+      } else {
+        const balance = await creditService.getBalance(userId!);
+        recommendationError = `An AI recommendation costs ${RECOMMENDATION_CREDITS} screening credit, but you have ${balance.screeningCredits} available.`;
+      }
+    }
+
+    // Charged apart from the model call, so a recommendation already generated is
+    // still returned if the balance was spent in the meantime
+    if (recommendation) {
+      await creditService
+        .deductCredits(
+          userId!,
+          CreditCategory.SCREENING,
+          RECOMMENDATION_CREDITS,
+          jobId,
+          'JOB',
+          `AI comparison of ${entries.length} candidates`
+        )
+        .catch((error) => {
+          console.error(`Failed to charge comparison recommendation for job ${jobId}:`, error);
+        });
+    }
+
+    res.json({
+      success: true,
+      jobId,
+      ...buildComparison(entries, SCREENING_SCORE_DIMENSIONS),
+      recommendation,
+      ...(recommendationError && { recommendationError }),
+    });
+  } catch (error: any) {
+    console.error('Error comparing candidates:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+export default router;
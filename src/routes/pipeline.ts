@@ -0,0 +1,347 @@
+import { Router } from 'express';
+import { prisma } from '../lib/prisma';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { pipelineService } from '../services/pipeline.service';
+import {
+  createPipelineStageSchema,
+  updatePipelineStageSchema,
+  reorderPipelineStagesSchema,
+  moveCandidatesSchema,
+  candidateTypeSchema,
+} from '../lib/validations/pipeline';
+
+const router = Router();
+
+// -------------------------
+// GET: PIPELINE STAGES
+// -------------------------
+router.get('/stages', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const stages = await pipelineService.getStages(req.userId!);
+
+    res.json({
+      success: true,
+      stages,
+    });
+  } catch (error: any) {
+    console.error('Error fetching pipeline stages:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// POST: CREATE STAGE
+// -------------------------
+router.post('/stages', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const input = createPipelineStageSchema.parse(req.body);
+
+    if (await pipelineService.isNameTaken(userId!, input.name)) {
+      return res.status(409).json({ error: 'A stage with this name already exists' });
+    }
+
+    const stage = await pipelineService.createStage(userId!, input);
+
+    res.status(201).json({
+      success: true,
+      stage,
+    });
+  } catch (error: any) {
+    console.error('Error creating pipeline stage:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    // isNameTaken runs before the write, so a concurrent create or rename with
+    // the same name can still hit the unique index
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A stage with this name already exists' });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// PUT: REORDER STAGES
+// -------------------------
+router.put('/stages/order', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { stageIds } = reorderPipelineStagesSchema.parse(req.body);
+
+    const first = await pipelineService.getStage(req.userId!, stageIds[0]);
+
+    // New candidates start in the first stage, so it can't be a final outcome
+    if (first && first.outcome !== 'OPEN') {
+      return res.status(400).json({ error: 'The first stage must be an open stage' });
+    }
+
+    const stages = await pipelineService.reorderStages(req.userId!, stageIds);
+
+    if (!stages) {
+      return res.status(400).json({ error: 'stageIds must list every stage exactly once' });
+    }
+
+    res.json({
+      success: true,
+      stages,
+    });
+  } catch (error: any) {
+    console.error('Error reordering pipeline stages:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// PATCH: RENAME STAGE OR CHANGE ITS OUTCOME
+// -------------------------
+router.patch('/stages/:stageId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { stageId } = req.params;
+    const input = updatePipelineStageSchema.parse(req.body);
+
+    const stage = await pipelineService.getStage(userId!, stageId);
+
+    if (!stage) {
+      return res.status(404).json({ error: 'Stage not found' });
+    }
+
+    if (input.outcome && input.outcome !== 'OPEN') {
+      const [first] = await pipelineService.getStages(userId!);
+
+      if (first.id === stageId) {
+        return res.status(409).json({ error: 'The first stage must be an open stage' });
+      }
+    }
+
+    if (input.name && (await pipelineService.isNameTaken(userId!, input.name, stageId))) {
+      return res.status(409).json({ error: 'A stage with this name already exists' });
+    }
+
+    const updated = await pipelineService.updateStage(stageId, input);
+
+    res.json({
+      success: true,
+      stage: updated,
+    });
+  } catch (error: any) {
+    console.error('Error updating pipeline stage:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    // isNameTaken runs before the write, so a concurrent create or rename with
+    // the same name can still hit the unique index
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A stage with this name already exists' });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// DELETE: REMOVE AN EMPTY STAGE
+// -------------------------
+router.delete('/stages/:stageId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { stageId } = req.params;
+
+    const stage = await pipelineService.getStage(userId!, stageId);
+
+    if (!stage) {
+      return res.status(404).json({ error: 'Stage not found' });
+    }
+
+    const stages = await pipelineService.getStages(userId!);
+
+    // Stageless candidates sit in the first stage, so it can't be removed from under them
+    if (stages.length === 1 || stages[0].id === stageId) {
+      return res.status(409).json({ error: 'The first stage cannot be deleted' });
+    }
+
+    const inStage = await pipelineService.countCandidatesInStage(stageId);
+
+    if (inStage > 0) {
+      return res.status(409).json({
+        error: 'Move the candidates in this stage before deleting it',
+        candidates: inStage,
+      });
+    }
+
+    await pipelineService.deleteStage(userId!, stage);
+
+    res.json({
+      success: true,
+      message: 'Stage deleted',
+    });
+  } catch (error: any) {
+    console.error('Error deleting pipeline stage:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// POST: MOVE CANDIDATES TO A STAGE
+// -------------------------
+router.post('/candidates/move', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { candidateType, candidateIds, stageId, reason } = moveCandidatesSchema.parse(req.body);
+
+    const stage = await pipelineService.getStage(userId!, stageId);
+
+    if (!stage) {
+      return res.status(404).json({ error: 'Stage not found' });
+    }
+
+    const ids = [...new Set(candidateIds)];
+    const candidates = await pipelineService.getOwnedCandidates(userId!, candidateType, ids);
+
+    if (candidates.length !== ids.length) {
+      const found = new Set(candidates.map((c) => c.id));
+
+      return res.status(404).json({
+        error: 'Candidates not found',
+        missing: ids.filter((id) => !found.has(id)),
+      });
+    }
+
+    const result = await pipelineService.moveCandidates(
+      userId!,
+      candidateType,
+      candidates,
+      stage,
+      reason
+    );
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    console.error('Error moving candidates:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// GET: STAGE HISTORY OF A CANDIDATE
+// -------------------------
+router.get(
+  '/candidates/:candidateType/:candidateId/history',
+  requireAuth,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { userId } = req;
+      const { candidateId } = req.params;
+      const type = candidateTypeSchema.safeParse(req.params.candidateType);
+
+      if (!type.success) {
+        return res.status(400).json({ error: 'candidateType must be screening or sourcing' });
+      }
+
+      const [candidate] = await pipelineService.getOwnedCandidates(userId!, type.data, [
+        candidateId,
+      ]);
+
+      if (!candidate) {
+        return res.status(404).json({ error: 'Candidate not found' });
+      }
+
+      const history = await pipelineService.getHistory(type.data, candidateId);
+
+      res.json({
+        success: true,
+        candidateId,
+        currentStageId: candidate.pipelineStageId,
+        history,
+      });
+    } catch (error: any) {
+      console.error('Error fetching candidate stage history:', error);
+      next(error);
+    }
+  }
+);
+
+// -------------------------
+// GET: FUNNEL OF A SCREENING OR SOURCING JOB
+// -------------------------
+router.get('/funnel', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const jobId = req.query.jobId as string | undefined;
+    const sourcingJobId = req.query.sourcingJobId as string | undefined;
+
+    if (!jobId === !sourcingJobId) {
+      return res.status(400).json({ error: 'Provide either jobId or sourcingJobId' });
+    }
+
+    if (jobId) {
+      const job = await prisma.job.findFirst({
+        where: { id: jobId, userId: userId! },
+        select: { id: true },
+      });
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+    } else {
+      const job = await prisma.sourcingJob.findUnique({
+        where: { id: sourcingJobId },
+        select: { id: true, userId: true },
+      });
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (job.userId !== userId) {
+        return res.status(403).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const funnel = await pipelineService.getFunnel(
+      userId!,
+      jobId ? { jobId } : { sourcingJobId: sourcingJobId! }
+    );
+
+    res.json({
+      success: true,
+      ...(jobId ? { jobId } : { sourcingJobId }),
+      ...funnel,
+    });
+  } catch (error: any) {
+    console.error('Error fetching pipeline funnel:', error);
+    next(error);
+  }
+});
+
+export default router;
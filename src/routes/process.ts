@@ -2,20 +2,23 @@ import { Router } from 'express';
 import { prisma } from '../lib/prisma';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { checkScreeningCredits } from '../middleware/creditCheck';
-import { parseResumeBuffer } from '../lib/utils/file-parser';
-import { processResumeCombined, JobRequirements } from '../lib/ai/resume-processor';
-import { getSupabaseFile } from '../lib/storage/supabase';
-import { creditService } from '../services/credit.service';
-import { CreditCategory } from '@prisma/client';
+import { screeningQueueService } from '../services/screening-queue.service';
+import { rescoreScreeningJob } from '../lib/processing/screening-rescore';
+import { withUsageContext } from '../lib/ai/usage';
+import { rescoreScreeningJobSchema } from '../lib/validations/job';
+import {
+  snapshotScreeningScores,
+  listScoreVersions,
+  getRankingAtRevision,
+  diffRankings,
+} from '../lib/scoring/score-history';
 
 const router = Router({ mergeParams: true });
 
 // -------------------------
-// POST: PROCESS RESUMES (OPTIMIZED)
+// POST: QUEUE RESUMES FOR PROCESSING
 // -------------------------
 router.post('/:jobId', requireAuth, checkScreeningCredits, async (req: AuthenticatedRequest, res, next) => {
-  let processingLog: any = null;
-
   try {
     const { jobId } = req.params;
     const { userId } = req;
@@ -28,297 +31,67 @@ router.post('/:jobId', requireAuth, checkScreeningCredits, async (req: Authentic
       return res.status(404).json({ error: 'Job not found' });
     }
 
-    const candidates = await prisma.candidate.findMany({
-      where: { jobId, processingStatus: 'pending' },
-    });
+    if (job.status === 'rescoring') {
+      return res.status(409).json({ error: 'Wait for the current re-score to finish' });
+    }
 
-    if (!candidates.length) {
+    // Workers pick up queued candidates in the background (see screening-queue.service)
+    const processingLog = await screeningQueueService.enqueue(jobId);
+
+    if (!processingLog) {
       return res.json({
         message: 'No pending candidates to process',
       });
     }
 
-    // Update job status
-    await prisma.job.update({
-      where: { id: jobId },
-      data: { status: 'processing' },
+    console.log(`📥 Queued ${processingLog.totalResumes} resumes for job ${jobId}`);
+
+    res.status(202).json({
+      success: true,
+      processingLogId: processingLog.id,
+      status: processingLog.status,
+      total: processingLog.totalResumes,
     });
+  } catch (error: any) {
+    console.error('Error queueing resume processing:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// POST: CANCEL PROCESSING
+// -------------------------
+router.post('/:jobId/cancel', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
 
-    processingLog = await prisma.processingLog.create({
-      data: {
-        jobId,
-        status: 'started',
-        totalResumes: candidates.length,
-      },
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
     });
 
-    let processedCount = 0;
-    let failedCount = 0;
-
-    // OPTIMIZATION: Increased batch size for better throughput (12 vs 5)
-    const BATCH_SIZE = 12;
-
-    // Prepare job requirements for batch processing
-    const jobRequirements: JobRequirements = {
-      requiredSkills: job.requiredSkills || [],
-      experienceRequired: job.experienceRequired || '0',
-      qualifications: job.qualifications || [],
-    };
-
-    for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
-      const batch = candidates.slice(i, i + BATCH_SIZE);
-
-      console.log(`Processing batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(candidates.length / BATCH_SIZE)} (${batch.length} candidates)`);
-
-      try {
-        // OPTIMIZATION 1: Mark all candidates as processing in parallel
-        await Promise.all(
-          batch.map((candidate) =>
-            prisma.candidate.update({
-              where: { id: candidate.id },
-              data: { processingStatus: 'processing' },
-            })
-          )
-        );
-
-        // OPTIMIZATION 2: Pre-fetch all files in parallel
-        console.log('Fetching files in parallel...');
-        const fileResults = await Promise.allSettled(
-          batch.map(async (candidate) => {
-            if (!candidate.resumePath) {
-              throw new Error('Resume path is missing');
-            }
-
-            const { buffer: fileBuffer, mimeType } = await getSupabaseFile(
-              candidate.resumePath
-            );
-
-            return {
-              candidateId: candidate.id,
-              buffer: fileBuffer,
-              mimeType,
-              resumePath: candidate.resumePath,
-            };
-          })
-        );
-
-        // OPTIMIZATION 3: Parse all files in parallel
-        console.log('Parsing files in parallel...');
-        const parseResults = await Promise.allSettled(
-          fileResults.map(async (result, idx) => {
-            if (result.status === 'rejected') {
-              throw result.reason;
-            }
-
-            const { candidateId, buffer, mimeType, resumePath } = result.value;
-
-            const resumeText = await parseResumeBuffer(buffer, mimeType, resumePath);
-
-            if (!resumeText || resumeText.trim().length === 0) {
-              throw new Error('Resume parsing returned empty text');
-            }
-
-            return {
-              candidateId,
-              resumeText,
-            };
-          })
-        );
-
-        // OPTIMIZATION 4: Process all resumes with AI in parallel (combined extraction + analysis)
-        console.log('Processing with AI in parallel (combined extraction + summary)...');
-        const aiResults = await Promise.allSettled(
-          parseResults.map(async (result) => {
-            if (result.status === 'rejected') {
-              throw result.reason;
-            }
-
-            const { candidateId, resumeText } = result.value;
-
-            // Single AI call for extraction + analysis (50% fewer API calls!)
-            const processedResult = await processResumeCombined(
-              resumeText,
-              jobRequirements
-            );
-
-            return {
-              candidateId,
-              resumeText,
-              ...processedResult,
-            };
-          })
-        );
-
-        // OPTIMIZATION 5: Batch update all successful candidates
-        const successfulUpdates = aiResults
-          .map((result, idx) => ({
-            result,
-            candidate: batch[idx],
-          }))
-          .filter((item) => item.result.status === 'fulfilled')
-          .map((item) => ({
-            candidate: item.candidate,
-            data: (item.result as PromiseFulfilledResult<any>).value,
-          }));
-
-        console.log(`Updating ${successfulUpdates.length} successful candidates...`);
-
-        await Promise.all(
-          successfulUpdates.map(({ candidate, data }) =>
-            prisma.candidate.update({
-              where: { id: candidate.id },
-              data: {
-                name: data.name,
-                email: data.email,
-                phone: data.phone,
-                resumeText: data.resumeText,
-                skills: data.skills,
-                experience: data.experience as any,
-                education: data.education as any,
-                totalExperienceYears: data.totalExperienceYears,
-                matchScore: data.matchScore,
-                matchedSkills: data.matchedSkills,
-                missingSkills: data.missingSkills,
-                fitVerdict: data.fitVerdict,
-                summary: data.summary,
-                strengths: data.strengths,
-                weaknesses: data.weaknesses,
-                processingStatus: 'completed',
-                updatedAt: new Date(),
-              },
-            })
-          )
-        );
-
-        processedCount += successfulUpdates.length;
-
-        // Deduct screening credits for each successfully processed candidate
-        for (const { candidate } of successfulUpdates) {
-          try {
-            await creditService.deductCredits(
-              userId!,
-              CreditCategory.SCREENING,
-              1,
-              jobId,
-              'JOB',
-              `Resume screening for candidate ${candidate.id}`
-            );
-          } catch (creditError: any) {
-            console.error(`⚠️ Failed to deduct screening credit:`, creditError.message);
-            // Don't fail the entire batch, just log the error
-          }
-        }
-
-        // OPTIMIZATION 6: Handle failures
-        const failures = aiResults
-          .map((result, idx) => ({
-            result,
-            candidate: batch[idx],
-          }))
-          .filter((item) => item.result.status === 'rejected');
-
-        if (failures.length > 0) {
-          console.log(`Handling ${failures.length} failed candidates...`);
-
-          await Promise.all(
-            failures.map(({ candidate, result }) =>
-              prisma.candidate.update({
-                where: { id: candidate.id },
-                data: {
-                  processingStatus: 'failed',
-                  processingError:
-                    (result as PromiseRejectedResult).reason?.message || 'Processing failed',
-                },
-              })
-            )
-          );
-
-          failedCount += failures.length;
-        }
-
-        // OPTIMIZATION 7: Single processing log update per batch (vs per candidate)
-        await prisma.processingLog.update({
-          where: { id: processingLog.id },
-          data: {
-            processedResumes: processedCount,
-            failedResumes: failedCount,
-            status: 'in_progress',
-          },
-        });
-
-        console.log(`Batch completed: ${processedCount} processed, ${failedCount} failed`);
-
-      } catch (batchErr: any) {
-        console.error('Critical batch error:', batchErr);
-
-        // Mark all candidates in this batch as failed
-        await Promise.all(
-          batch.map((candidate) =>
-            prisma.candidate.update({
-              where: { id: candidate.id },
-              data: {
-                processingStatus: 'failed',
-                processingError: batchErr?.message || 'Batch processing failed',
-              },
-            })
-          )
-        );
-
-        failedCount += batch.length;
-      }
-
-      // OPTIMIZATION 8: Reduced delay between batches (500ms vs 2000ms)
-      if (i + BATCH_SIZE < candidates.length) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
     }
 
-    // Update job and processing log status
-    await prisma.job.update({
-      where: { id: jobId },
-      data: { status: 'completed' },
-    });
+    const result = await screeningQueueService.cancel(jobId);
 
-    await prisma.processingLog.update({
-      where: { id: processingLog.id },
-      data: { status: 'completed', completedAt: new Date() },
-    });
+    if (!result) {
+      return res.status(400).json({ error: 'No screening run in progress' });
+    }
+
+    console.log(
+      `🛑 Cancelled screening for job ${jobId}: ${result.dequeued} dequeued, ${result.inFlight} finishing`
+    );
 
     res.json({
       success: true,
-      processed: processedCount,
-      failed: failedCount,
-      total: candidates.length,
+      status: 'cancelled',
+      dequeued: result.dequeued,
+      inFlight: result.inFlight,
     });
   } catch (error: any) {
-    console.error('Critical error in resume processing:', error);
-
-    // Update processing log and job status on failure
-    if (processingLog) {
-      try {
-        await prisma.processingLog.update({
-          where: { id: processingLog.id },
-          data: {
-            status: 'failed',
-            completedAt: new Date()
-          },
-        });
-      } catch (logError) {
-        console.error('Failed to update processing log:', logError);
-      }
-    }
-
-    // Try to update job status to failed
-    try {
-      const { jobId } = req.params;
-      await prisma.job.update({
-        where: { id: jobId },
-        data: { status: 'failed' },
-      });
-    } catch (jobError) {
-      console.error('Failed to update job status:', jobError);
-    }
-
+    console.error('Error cancelling resume processing:', error);
     next(error);
   }
 });
@@ -356,4 +129,164 @@ router.get('/:jobId/status', requireAuth, async (req: AuthenticatedRequest, res,
   }
 });
 
+// -------------------------
+// POST: RE-SCORE AGAINST AN EDITED DESCRIPTION
+// -------------------------
+router.post('/:jobId/rescore', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+    const { description, requiredSkills, experienceRequired, qualifications } =
+      rescoreScreeningJobSchema.parse(req.body || {});
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (await screeningQueueService.getActiveLog(jobId)) {
+      return res.status(409).json({ error: 'Wait for the current screening run to finish' });
+    }
+
+    const screenedCount = await prisma.candidate.count({
+      where: { jobId, processingStatus: 'completed', resumeText: { not: null } },
+    });
+
+    if (screenedCount === 0) {
+      return res.status(400).json({ error: 'Job has no screened candidates to re-score' });
+    }
+
+    // Conditional claim so two concurrent requests can't both start a re-score.
+    // "rescoring" is distinct from the queue's "processing" so neither run can finish
+    // the other's status; rescoreStartedAt lets cron release it if this process dies
+    const { count: claimed } = await prisma.job.updateMany({
+      where: { id: jobId, status: { not: 'rescoring' } },
+      data: { status: 'rescoring', rescoreStartedAt: new Date() },
+    });
+
+    if (claimed === 0) {
+      return res.status(409).json({ error: 'Job is already being re-scored' });
+    }
+
+    let snapshot;
+    const revision = job.scoringRevision + 1;
+
+    try {
+      snapshot = await snapshotScreeningScores(jobId);
+
+      await prisma.job.update({
+        where: { id: jobId },
+        data: {
+          ...(description !== undefined && { description }),
+          ...(requiredSkills !== undefined && { requiredSkills }),
+          ...(experienceRequired !== undefined && { experienceRequired }),
+          ...(qualifications !== undefined && { qualifications }),
+          scoringRevision: revision,
+        },
+      });
+    } catch (error) {
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { status: job.status, rescoreStartedAt: null },
+      });
+      throw error;
+    }
+
+    console.log(`🔁 Re-scoring ${screenedCount} candidates for job ${jobId}: revision ${revision}`);
+
+    withUsageContext({ userId: userId!, jobId }, () => rescoreScreeningJob(jobId)).catch((error) => {
+      console.error(`Re-scoring of job ${jobId} failed:`, error);
+    });
+
+    res.status(202).json({
+      success: true,
+      status: 'rescoring',
+      previousRevision: snapshot.revision,
+      revision,
+      candidates: screenedCount,
+    });
+  } catch (error: any) {
+    console.error('Error re-scoring job:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// GET: SCORING REVISIONS
+// -------------------------
+router.get('/:jobId/score-versions', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      currentRevision: job.scoringRevision,
+      versions: await listScoreVersions({ jobId }, job.scoringRevision),
+    });
+  } catch (error: any) {
+    console.error('Error fetching score versions:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// GET: RANKING DIFF BETWEEN REVISIONS (?from=&to=, defaults to previous vs current)
+// -------------------------
+router.get('/:jobId/score-diff', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const to = req.query.to ? parseInt(req.query.to as string) : job.scoringRevision;
+    const from = req.query.from ? parseInt(req.query.from as string) : to - 1;
+
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ error: 'from and to must be revision numbers' });
+    }
+
+    const before = await getRankingAtRevision({ jobId }, from, job.scoringRevision);
+    const after = await getRankingAtRevision({ jobId }, to, job.scoringRevision);
+
+    if (!before || !after) {
+      return res.status(404).json({ error: 'Scoring revision not found' });
+    }
+
+    res.json({
+      from,
+      to,
+      ...diffRankings(before, after),
+    });
+  } catch (error: any) {
+    console.error('Error diffing scores:', error);
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,282 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import multer from 'multer';
+import { prisma } from '../lib/prisma';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { uploadToSupabase } from '../lib/storage/supabase';
+import {
+  MAX_FILE_SIZE_MB,
+  SUPPORTED_MIME_TYPES,
+  validateFile,
+} from '../lib/utils/file-parser';
+import { extractResumeArchive, ExtractedResume } from '../lib/utils/zip-extractor';
+import { ArchiveError } from '../lib/errors/archive-error';
+
+const router = Router({ mergeParams: true });
+
+const RESUME_BUCKET = 'resumes';
+const MAX_FILES_PER_UPLOAD = 50;
+const MAX_ARCHIVE_SIZE_MB = 50;
+
+// Storage paths keep a canonical extension so getSupabaseFile can infer the MIME type
+const EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+  [SUPPORTED_MIME_TYPES.PDF]: 'pdf',
+  [SUPPORTED_MIME_TYPES.DOCX]: 'docx',
+  [SUPPORTED_MIME_TYPES.DOC]: 'doc',
+};
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_FILE_SIZE_MB * 1024 * 1024,
+    files: MAX_FILES_PER_UPLOAD,
+  },
+});
+
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ARCHIVE_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+});
+
+/**
+ * Wraps a multer parser and turns its limit errors into 400 responses
+ */
+function handleMulterErrors(
+  parser: (req: Request, res: Response, cb: (err?: any) => void) => void,
+  maxSizeMB: number,
+  maxFiles: number
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    parser(req, res, (err: any) => {
+      if (err instanceof multer.MulterError) {
+        const message =
+          err.code === 'LIMIT_FILE_SIZE'
+            ? `File size exceeds ${maxSizeMB}MB limit`
+            : err.code === 'LIMIT_FILE_COUNT'
+              ? `Too many files. Maximum ${maxFiles} per upload`
+              : err.message;
+
+        return res.status(400).json({ error: message });
+      }
+
+      next(err);
+    });
+  };
+}
+
+const parseResumeFiles = handleMulterErrors(
+  upload.array('files', MAX_FILES_PER_UPLOAD),
+  MAX_FILE_SIZE_MB,
+  MAX_FILES_PER_UPLOAD
+);
+
+const parseResumeArchive = handleMulterErrors(
+  archiveUpload.single('archive'),
+  MAX_ARCHIVE_SIZE_MB,
+  1
+);
+
+/**
+ * Stores a resume in Supabase and creates a pending candidate for the job
+ */
+async function createPendingCandidate(
+  jobId: string,
+  file: Buffer,
+  fileName: string,
+  mimeType: string
+) {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  const safeName = baseName.replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 100) || 'resume';
+  // The UUID keeps same-named files of one batch from overwriting each other
+  const resumePath = `${jobId}/${randomUUID()}-${safeName}.${EXTENSION_BY_MIME_TYPE[mimeType]}`;
+
+  const resumeUrl = await uploadToSupabase(file, RESUME_BUCKET, resumePath);
+
+  return prisma.candidate.create({
+    data: {
+      jobId,
+      // Placeholder until processing extracts the real name from the resume
+      name: baseName || 'Unknown',
+      resumePath,
+      resumeUrl,
+      processingStatus: 'pending',
+    },
+  });
+}
+
+async function incrementCandidateCount(jobId: string, count: number) {
+  if (count === 0) return;
+
+  await prisma.job.update({
+    where: { id: jobId },
+    data: { totalCandidates: { increment: count } },
+  });
+}
+
+// -------------------------
+// POST: UPLOAD RESUMES
+// -------------------------
+router.post('/', requireAuth, parseResumeFiles, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (!files.length) {
+      return res.status(400).json({ error: 'At least one resume file is required' });
+    }
+
+    const uploaded: Array<{ fileName: string; candidateId: string }> = [];
+    const rejected: Array<{ fileName: string; error: string }> = [];
+
+    for (const file of files) {
+      const validation = validateFile(file.buffer, file.mimetype);
+
+      if (!validation.valid) {
+        rejected.push({ fileName: file.originalname, error: validation.error! });
+        continue;
+      }
+
+      try {
+        const candidate = await createPendingCandidate(
+          jobId,
+          file.buffer,
+          file.originalname,
+          file.mimetype
+        );
+
+        uploaded.push({ fileName: file.originalname, candidateId: candidate.id });
+      } catch (uploadError: any) {
+        console.error(`Failed to store resume ${file.originalname}:`, uploadError);
+        rejected.push({
+          fileName: file.originalname,
+          error: uploadError?.message || 'Failed to store resume',
+        });
+      }
+    }
+
+    if (uploaded.length > 0) {
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { totalCandidates: { increment: uploaded.length } },
+      });
+    }
+
+    res.status(uploaded.length > 0 ? 201 : 400).json({
+      success: uploaded.length > 0,
+      uploaded,
+      rejected,
+      total: files.length,
+    });
+  } catch (error: any) {
+    console.error('Error uploading resumes:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// POST: IMPORT RESUMES FROM ZIP ARCHIVE
+// -------------------------
+router.post('/zip', requireAuth, parseResumeArchive, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const archive = req.file;
+
+    if (!archive) {
+      return res.status(400).json({ error: 'A ZIP archive is required' });
+    }
+
+    const accepted: Array<{ fileName: string; candidateId: string }> = [];
+    const failed: Array<{ fileName: string; reason: string }> = [];
+
+    // Resumes are stored as they come out of the archive rather than after it is fully unpacked
+    const storeResume = async (file: ExtractedResume) => {
+      const validation = validateFile(file.buffer, file.mimeType);
+
+      if (!validation.valid) {
+        failed.push({ fileName: file.fileName, reason: validation.error! });
+        return;
+      }
+
+      try {
+        const candidate = await createPendingCandidate(
+          jobId,
+          file.buffer,
+          file.fileName,
+          file.mimeType
+        );
+
+        accepted.push({ fileName: file.fileName, candidateId: candidate.id });
+      } catch (uploadError: any) {
+        console.error(`Failed to store resume ${file.fileName}:`, uploadError);
+        failed.push({
+          fileName: file.fileName,
+          reason: uploadError?.message || 'Failed to store resume',
+        });
+      }
+    };
+
+    let extracted;
+
+    try {
+      extracted = await extractResumeArchive(archive.buffer, storeResume);
+    } catch (archiveError: any) {
+      if (archiveError instanceof ArchiveError) {
+        // Resumes stored before the archive turned out to be unusable stay with the job
+        await incrementCandidateCount(jobId, accepted.length);
+
+        return res.status(400).json({
+          error: archiveError.message,
+          reason: archiveError.metadata.reason,
+          fileName: archiveError.metadata.fileName,
+          accepted,
+        });
+      }
+      throw archiveError;
+    }
+
+    console.log(
+      `Extracted ${extracted.extracted} resumes from ${archive.originalname} ` +
+        `(${extracted.skipped.length} skipped, ${extracted.rejected.length} rejected)`
+    );
+
+    const rejected = [...extracted.rejected, ...failed];
+
+    await incrementCandidateCount(jobId, accepted.length);
+
+    res.status(accepted.length > 0 ? 201 : 400).json({
+      success: accepted.length > 0,
+      accepted,
+      skipped: extracted.skipped,
+      rejected,
+      total: accepted.length + extracted.skipped.length + rejected.length,
+    });
+  } catch (error: any) {
+    console.error('Error importing resume archive:', error);
+    next(error);
+  }
+});
+
+export default router;
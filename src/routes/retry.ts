@@ -42,6 +42,24 @@ router.get('/:jobId', requireAuth, async (req: AuthenticatedRequest, res, next)
     //   });
     // }
 
+    if (job.status === 'CANCELLED') {
+      return res.status(400).json({
+        error: 'Cannot retry a cancelled job',
+      });
+    }
+
+    if (job.status === 'PAUSED') {
+      return res.status(400).json({
+        error: 'Job is paused - resume it instead',
+      });
+    }
+
+    if (job.status === 'AWAITING_REVIEW') {
+      return res.status(400).json({
+        error: 'Job is awaiting filter review - approve the filters instead',
+      });
+    }
+
     // Check retry limit
     if (job.retryCount >= job.maxRetries) {
       return res.status(400).json({
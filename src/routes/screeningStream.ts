@@ -0,0 +1,239 @@
+import { Router } from 'express';
+import { prisma } from '../lib/prisma';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+
+const router = Router({ mergeParams: true });
+
+// Rows written by raw SQL use the database clock, so re-read a small window
+const UPDATE_OVERLAP_MS = 5000;
+
+const candidateEventSelect = {
+  id: true,
+  name: true,
+  email: true,
+  processingStatus: true,
+  processingStage: true,
+  processingError: true,
+  matchScore: true,
+  fitVerdict: true,
+  totalExperienceYears: true,
+  matchedSkills: true,
+  missingSkills: true,
+  updatedAt: true,
+} as const;
+
+// GET /api/jobs/stream/:jobId - Server-Sent Events for real-time screening progress
+router.get('/:jobId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    // Verify job ownership
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job || job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable buffering in nginx
+    res.flushHeaders();
+
+    let isStreamClosed = false;
+    let lastUpdateHash = '';
+    let cursor = new Date();
+
+    // Last stage emitted per candidate, so each transition is sent once
+    const seenStages = new Map<string, string | null>();
+
+    const existing = await prisma.candidate.findMany({
+      where: { jobId },
+      select: { id: true, processingStage: true },
+    });
+    existing.forEach((c) => seenStages.set(c.id, c.processingStage));
+
+    console.log(`📡 Screening SSE stream started for job ${jobId}`);
+
+    // Helper function to send SSE message
+    const sendSSE = (data: any) => {
+      if (isStreamClosed) return;
+
+      try {
+        res.write(`data: ${JSON.stringify(data)}\n\n`);
+        if (typeof (res as any).flush === 'function') {
+          (res as any).flush();
+        }
+      } catch (error) {
+        console.error('Error writing SSE:', error);
+        isStreamClosed = true;
+      }
+    };
+
+    sendSSE({ type: 'connected', jobId });
+
+    const poll = async () => {
+      const latestJob = await prisma.job.findUnique({
+        where: { id: jobId },
+        select: { id: true, status: true },
+      });
+
+      if (!latestJob) {
+        sendSSE({ type: 'error', message: 'Job not found' });
+        closeStream();
+        return;
+      }
+
+      // Per-candidate transitions since the last poll
+      const pollStartedAt = new Date();
+      const changed = await prisma.candidate.findMany({
+        where: {
+          jobId,
+          updatedAt: { gte: new Date(cursor.getTime() - UPDATE_OVERLAP_MS) },
+        },
+        orderBy: { updatedAt: 'asc' },
+        select: candidateEventSelect,
+      });
+      cursor = pollStartedAt;
+
+      for (const candidate of changed) {
+        const stage = candidate.processingStage;
+
+        if (!stage || seenStages.get(candidate.id) === stage) continue;
+
+        seenStages.set(candidate.id, stage);
+
+        sendSSE({
+          type: 'candidate',
+          event: stage,
+          candidate: {
+            id: candidate.id,
+            name: candidate.name,
+            ...(stage === 'scored' && {
+              email: candidate.email,
+              matchScore: candidate.matchScore,
+              fitVerdict: candidate.fitVerdict,
+              totalExperienceYears: candidate.totalExperienceYears,
+              matchedSkills: candidate.matchedSkills,
+              missingSkills: candidate.missingSkills,
+            }),
+            ...(stage === 'failed' && { processingError: candidate.processingError }),
+          },
+        });
+      }
+
+      // Running totals and leaderboard
+      const statusCounts = await prisma.candidate.groupBy({
+        by: ['processingStatus'],
+        where: { jobId },
+        _count: { _all: true },
+      });
+
+      const totals: Record<string, number> = {
+        total: 0,
+        pending: 0,
+        queued: 0,
+        processing: 0,
+        completed: 0,
+        failed: 0,
+      };
+
+      for (const row of statusCounts) {
+        totals[row.processingStatus] = row._count._all;
+        totals.total += row._count._all;
+      }
+
+      const updateHash = JSON.stringify({ status: latestJob.status, totals });
+
+      if (updateHash !== lastUpdateHash) {
+        lastUpdateHash = updateHash;
+
+        const leaderboard = await prisma.candidate.findMany({
+          where: { jobId, processingStatus: 'completed' },
+          orderBy: { matchScore: 'desc' },
+          take: 10,
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            matchScore: true,
+            fitVerdict: true,
+            totalExperienceYears: true,
+            matchedSkills: true,
+            missingSkills: true,
+          },
+        });
+
+        const settled = totals.completed + totals.failed;
+        const queuedForRun = settled + totals.queued + totals.processing;
+
+        sendSSE({
+          type: 'update',
+          status: latestJob.status,
+          progress: {
+            ...totals,
+            percentage: queuedForRun > 0 ? Math.round((settled / queuedForRun) * 100) : 0,
+          },
+          candidates: leaderboard,
+        });
+      }
+
+      // Close stream once the job has settled
+      const active = totals.queued + totals.processing;
+
+      const settledStatuses = ['completed', 'failed', 'cancelled'];
+
+      if (settledStatuses.includes(latestJob.status) && active === 0) {
+        console.log(`✅ Screening job ${jobId} finished with status ${latestJob.status}. Closing stream.`);
+
+        sendSSE({
+          type: 'complete',
+          status: latestJob.status,
+          processed: totals.completed,
+          failed: totals.failed,
+        });
+
+        closeStream();
+      }
+    };
+
+    const intervalId = setInterval(async () => {
+      if (isStreamClosed) {
+        clearInterval(intervalId);
+        return;
+      }
+
+      try {
+        await poll();
+      } catch (error: any) {
+        console.error('Error in screening SSE poll:', error);
+        sendSSE({
+          type: 'error',
+          message: error.message,
+        });
+      }
+    }, 2000); // Poll every 2 seconds
+
+    const closeStream = () => {
+      clearInterval(intervalId);
+      isStreamClosed = true;
+      res.end();
+    };
+
+    // Cleanup on disconnect
+    req.on('close', () => {
+      console.log(`🔌 Client disconnected from screening SSE for job ${jobId}`);
+      clearInterval(intervalId);
+      isStreamClosed = true;
+    });
+  } catch (error: any) {
+    console.error('Error creating screening SSE stream:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,209 @@
+import { Router } from 'express';
+import { prisma } from '../lib/prisma';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { resumeInterruptedWorkflow } from '../lib/sourcing/workflow';
+import { generateQueriesFromVariants } from '../lib/sourcing/nodes/generate-queries';
+import { searchFiltersReviewSchema } from '../lib/validations/sourcing';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * Load a job owned by the user together with its search filter variants
+ */
+async function getOwnedJob(jobId: string, userId: string) {
+  const job = await prisma.sourcingJob.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      maxCandidates: true,
+      searchFilters: true,
+      reviewSearchFilters: true,
+      filtersApprovedAt: true,
+    },
+  });
+
+  if (!job) return { error: 404 as const };
+  if (job.userId !== userId) return { error: 403 as const };
+
+  const variants = Array.isArray(job.searchFilters) ? (job.searchFilters as any[]) : [];
+
+  return { job, variants };
+}
+
+/**
+ * Apply recruiter edits on top of the AI-generated variants
+ */
+function applyEdits(variants: any[], edits: Array<Record<string, any> | null> = []) {
+  return variants.map((variant, index) => {
+    const edit = edits[index];
+    if (!edit) return variant;
+
+    return { ...variant, ...edit, editedByRecruiter: true };
+  });
+}
+
+// -------------------------
+// GET: SEARCH FILTERS AND QUERY PREVIEW
+// -------------------------
+router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const result = await getOwnedJob(jobId, req.userId!);
+
+    if (result.error === 404) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (result.error === 403) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const { job, variants } = result;
+
+    res.json({
+      status: job.status,
+      reviewRequired: job.reviewSearchFilters,
+      awaitingReview: job.status === 'AWAITING_REVIEW',
+      approvedAt: job.filtersApprovedAt,
+      variants,
+      queries: variants.length > 0 ? generateQueriesFromVariants(variants, job.maxCandidates) : [],
+    });
+  } catch (error: any) {
+    console.error('Error fetching search filters:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// PUT: SAVE EDITED SEARCH FILTERS
+// -------------------------
+router.put('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const result = await getOwnedJob(jobId, req.userId!);
+
+    if (result.error === 404) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (result.error === 403) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const { job, variants } = result;
+
+    if (job.status !== 'AWAITING_REVIEW') {
+      return res.status(400).json({
+        error: `Search filters can only be edited while awaiting review (status: ${job.status})`,
+      });
+    }
+
+    const { variants: edits } = searchFiltersReviewSchema.parse(req.body);
+    const updated = applyEdits(variants, edits);
+
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: { searchFilters: updated, lastActivityAt: new Date() },
+    });
+
+    res.json({
+      success: true,
+      variants: updated,
+      queries: generateQueriesFromVariants(updated, job.maxCandidates),
+    });
+  } catch (error: any) {
+    console.error('Error updating search filters:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// POST: APPROVE FILTERS AND CONTINUE SEARCH
+// -------------------------
+router.post('/approve', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const result = await getOwnedJob(jobId, req.userId!);
+
+    if (result.error === 404) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (result.error === 403) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const { job, variants } = result;
+
+    if (job.status !== 'AWAITING_REVIEW') {
+      return res.status(400).json({
+        error: `Job is not awaiting review (status: ${job.status})`,
+      });
+    }
+
+    // Last-minute edits can be sent along with the approval
+    const { variants: edits } = searchFiltersReviewSchema.parse(req.body || {});
+    const approved = applyEdits(variants, edits);
+
+    // Conditional so a double-clicked approve can't resume the interrupt twice
+    const { count: claimed } = await prisma.sourcingJob.updateMany({
+      where: { id: jobId, status: 'AWAITING_REVIEW' },
+      data: {
+        searchFilters: approved,
+        filtersApprovedAt: new Date(),
+        status: 'SEARCHING_PROFILES',
+        currentStage: 'FILTERS_APPROVED',
+        lastActivityAt: new Date(),
+      },
+    });
+
+    if (claimed === 0) {
+      return res.status(409).json({ error: 'Search filters were already approved' });
+    }
+
+    const { run, fromCheckpoint } = await resumeInterruptedWorkflow(jobId, { approved: true });
+
+    console.log(
+      `✅ Search filters approved for job ${jobId}, continuing ${fromCheckpoint ? 'from checkpoint' : 'from database state'}`
+    );
+
+    run.catch(async (error) => {
+      console.error(`Job ${jobId} failed after filter approval:`, error);
+
+      await prisma.sourcingJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          errorMessage: error.message,
+          failedAt: new Date(),
+        },
+      });
+    });
+
+    res.status(202).json({
+      success: true,
+      status: 'SEARCHING_PROFILES',
+      variants: approved,
+    });
+  } catch (error: any) {
+    console.error('Error approving search filters:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+export default router;
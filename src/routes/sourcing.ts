@@ -4,6 +4,7 @@ import { requireAuth, AuthenticatedRequest } from "../middleware/auth";
 import { checkSourcingCredits } from "../middleware/creditCheck";
 import { z } from "zod";
 import { createSourcingWorkflow } from "../lib/sourcing/workflow";
+import { scoringRubricSchema } from "../lib/validations/sourcing";
 
 const router = Router();
 
@@ -13,6 +14,10 @@ const createSourcingJobSchema = z.object({
   jobDescription: z.string().min(1),
   maxCandidates: z.number().min(1).max(200).default(50),
   jobRequirements: z.any().optional(),
+  // Stop after query generation so a recruiter can review the search filters
+  reviewSearchFilters: z.boolean().default(false),
+  // Custom weights, knockouts and bonus criteria for scoring
+  scoringRubric: scoringRubricSchema.optional(),
 });
 
 // POST /api/sourcing - Create new sourcing job
@@ -59,6 +64,8 @@ router.post("/", requireAuth, checkSourcingCredits, async (req: AuthenticatedReq
         rawJobDescription: validatedData.jobDescription,
         maxCandidates: validatedData.maxCandidates,
         jobRequirements: validatedData.jobRequirements,
+        reviewSearchFilters: validatedData.reviewSearchFilters,
+        scoringRubric: validatedData.scoringRubric,
         status: "CREATED",
         lastActivityAt: new Date(),
       },
@@ -172,6 +179,10 @@ router.get("/", requireAuth, async (req: AuthenticatedRequest, res, next) => {
 function calculateProgress(job: any): number {
   if (job.status === "COMPLETED") return 100;
   if (job.status === "FAILED") return 0;
+  if (job.status === "CANCELLED") return 100;
+  if (job.status === "PAUSED") {
+    return calculateProgressFromStage({ ...job, status: job.statusBeforePause });
+  }
   if (job.status === "RATE_LIMITED") {
     return calculateProgressFromStage(job);
   }
@@ -185,6 +196,7 @@ function calculateProgressFromStage(job: any): number {
   if (status === "CREATED") return 5;
   if (status === "FORMATTING_JD") return 10;
   if (status === "JD_FORMATTED") return 15;
+  if (status === "AWAITING_REVIEW") return 18;
   if (status === "SEARCHING_PROFILES") return 20;
   if (status === "PROFILES_FOUND") return 25;
 
@@ -203,6 +215,8 @@ function calculateProgressFromStage(job: any): number {
     return 55 + saveProgress;
   }
 
+  if (status === "RESCORING") return 70;
+
   if (status === "SCORING_PROFILES") {
     const scoreProgress = (job.lastScoredBatch / totalBatches) * 25;
     return 70 + scoreProgress;
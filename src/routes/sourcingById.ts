@@ -1,23 +1,91 @@
 import { Router } from 'express';
 import { prisma } from '../lib/prisma';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { finalizeSourcingCancellation } from '../lib/sourcing/cancellation';
+import { CreditCategory, Prisma } from '@prisma/client';
+import {
+  resumeInterruptedWorkflow,
+  createSourcingWorkflow,
+  buildResumeState,
+} from '../lib/sourcing/workflow';
+import { generateQueriesFromVariants } from '../lib/sourcing/nodes/generate-queries';
+import {
+  topUpSourcingJobSchema,
+  scoringRubricSchema,
+  rescoreSourcingJobSchema,
+  sourcingCandidateListQuerySchema,
+} from '../lib/validations/sourcing';
+import {
+  buildCandidatePage,
+  encodeCandidateCursor,
+  decodeCandidateCursor,
+} from '../lib/sourcing/candidate-list';
+import {
+  candidateListFiltersSchema,
+  compareCandidatesSchema,
+} from '../lib/validations/candidate';
+import {
+  loadSourcingComparisonEntries,
+  buildComparison,
+  SOURCING_SCORE_DIMENSIONS,
+  RECOMMENDATION_CREDITS,
+} from '../lib/scoring/comparison';
+import { generateComparativeRecommendation } from '../lib/ai/comparison';
+import { candidateFeedbackWhere } from '../services/candidate-feedback.service';
+import { parseStoredRubric } from '../lib/sourcing/rubric';
+import { creditService } from '../services/credit.service';
+import { embeddingService } from '../services/embedding.service';
+import { rescoreSourcingJob } from '../lib/sourcing/rescore';
+import { withUsageContext } from '../lib/ai/usage';
+import {
+  snapshotSourcingScores,
+  listScoreVersions,
+  getRankingAtRevision,
+  diffRankings,
+} from '../lib/scoring/score-history';
 
 const router = Router({ mergeParams: true });
 
 // GET /api/sourcing/:jobId - Get job details with optional candidates
+// With ?include=candidates the list accepts filters (minScore, seniority, openToWork,
+// hasContactInfo, interviewReadiness, location, skills, excludeDuplicates, tags,
+// minRating, maxRating), sort=field:dir,... and cursor pagination (cursor, limit).
+// Without limit or cursor every matching candidate is returned in one response
 router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
   try {
     const { userId } = req;
     const { jobId } = req.params;
     const includeCandidates = req.query.include === 'candidates';
 
+    const filters = candidateListFiltersSchema.safeParse(req.query);
+    const list = sourcingCandidateListQuerySchema.safeParse(req.query);
+
+    if (!filters.success || !list.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [...(filters.error?.issues || []), ...(list.error?.issues || [])],
+      });
+    }
+
+    const { sort } = list.data;
+    const cursor = list.data.cursor ? decodeCandidateCursor(list.data.cursor, sort) : null;
+
+    if (list.data.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor for this sort' });
+    }
+
+    const page = buildCandidatePage(jobId, list.data, cursor);
+    const feedbackWhere = candidateFeedbackWhere(filters.data);
+
     const job = await prisma.sourcingJob.findUnique({
       where: { id: jobId },
       include: {
         candidates: includeCandidates
           ? {
-              where: { isScored: true },
-              orderBy: [{ matchScore: 'desc' }],
+              where: { ...page.where, ...feedbackWhere },
+              orderBy: page.orderBy,
+              // One extra row tells whether another page exists
+              ...(page.limit !== null && { take: page.limit + 1 }),
               select: {
                 id: true,
                 fullName: true,
@@ -40,6 +108,7 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
                 titleScore: true,
                 niceToHaveScore: true,
                 matchReason: true,
+                rubricBreakdown: true,
                 email: true,
                 phone: true,
                 hasContactInfo: true,
@@ -47,6 +116,11 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
                 isDuplicate: true,
                 isScored: true,
                 scrapedAt: true,
+                interviewReadiness: true,
+                interviewConfidenceScore: true,
+                tags: true,
+                rating: true,
+                ratedAt: true,
               },
             }
           : false,
@@ -68,6 +142,13 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
           : 0,
     };
 
+    const rows = job.candidates || [];
+    const candidates = page.limit !== null ? rows.slice(0, page.limit) : rows;
+    const hasMore = candidates.length < rows.length;
+    const total = includeCandidates
+      ? await prisma.linkedInCandidate.count({ where: { ...page.countWhere, ...feedbackWhere } })
+      : 0;
+
     res.json({
       id: job.id,
       title: job.title,
@@ -79,7 +160,17 @@ router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
       createdAt: job.createdAt,
       completedAt: job.completedAt,
       errorMessage: job.errorMessage,
-      candidates: job.candidates || [],
+      candidates,
+      ...(includeCandidates && {
+        pagination: {
+          limit: page.limit,
+          hasMore,
+          nextCursor: hasMore
+            ? encodeCandidateCursor(candidates[candidates.length - 1], sort)
+            : null,
+          total,
+        },
+      }),
     });
   } catch (error: any) {
     console.error('Error fetching sourcing job:', error);
@@ -112,6 +203,7 @@ router.delete('/', requireAuth, async (req: AuthenticatedRequest, res, next) =>
       return res.status(403).json({ error: 'Unauthorized' });
     }
 
+    await embeddingService.deleteJobEmbeddings({ sourcingJobId: jobId });
     await prisma.sourcingJob.delete({ where: { id: jobId } });
 
     res.json({
@@ -125,5 +217,723 @@ router.delete('/', requireAuth, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
+// POST /api/sourcing/:jobId/cancel - Stop a running job, keeping scored candidates
+router.post('/cancel', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, status: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    // A re-score runs outside the workflow and never checks for cancellation
+    const finishedStatuses = ['COMPLETED', 'FAILED', 'CANCELLED', 'RESCORING'];
+    if (finishedStatuses.includes(job.status)) {
+      return res.status(400).json({
+        error: `Cannot cancel job with status: ${job.status}`,
+      });
+    }
+
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: { cancelRequestedAt: new Date(), lastActivityAt: new Date() },
+    });
+
+    // Idle jobs have no workflow running to pick up the request
+    const idleStatuses = ['RATE_LIMITED', 'PAUSED', 'AWAITING_REVIEW'];
+    if (idleStatuses.includes(job.status)) {
+      const result = await finalizeSourcingCancellation(jobId);
+
+      return res.json({
+        success: true,
+        status: 'CANCELLED',
+        ...result,
+      });
+    }
+
+    console.log(`🛑 Cancellation requested for sourcing job ${jobId}`);
+
+    // The workflow stops at its next step boundary (see lib/sourcing/workflow)
+    res.status(202).json({
+      success: true,
+      status: job.status,
+      message: 'Cancellation requested',
+    });
+  } catch (error: any) {
+    console.error('Error cancelling sourcing job:', error);
+    next(error);
+  }
+});
+
+// POST /api/sourcing/:jobId/pause - Pause a running job after its current step
+router.post('/pause', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, status: true, cancelRequestedAt: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const unpausableStatuses = [
+      'COMPLETED',
+      'FAILED',
+      'CANCELLED',
+      'RATE_LIMITED',
+      'PAUSED',
+      'AWAITING_REVIEW',
+      'RESCORING',
+    ];
+    if (unpausableStatuses.includes(job.status) || job.cancelRequestedAt) {
+      return res.status(400).json({
+        error: `Cannot pause job with status: ${job.status}`,
+      });
+    }
+
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: { pauseRequestedAt: new Date(), lastActivityAt: new Date() },
+    });
+
+    console.log(`⏸️ Pause requested for sourcing job ${jobId}`);
+
+    // The workflow pauses before its next step (see lib/sourcing/pause)
+    res.status(202).json({
+      success: true,
+      status: job.status,
+      message: 'Pause requested',
+    });
+  } catch (error: any) {
+    console.error('Error pausing sourcing job:', error);
+    next(error);
+  }
+});
+
+// POST /api/sourcing/:jobId/resume - Resume a paused job from its checkpoint
+router.post('/resume', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        statusBeforePause: true,
+        pauseRequestedAt: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    // Pause was requested but not reached yet - just withdraw the request
+    if (job.status !== 'PAUSED') {
+      if (!job.pauseRequestedAt) {
+        return res.status(400).json({
+          error: `Cannot resume job with status: ${job.status}`,
+        });
+      }
+
+      await prisma.sourcingJob.update({
+        where: { id: jobId },
+        data: { pauseRequestedAt: null },
+      });
+
+      return res.json({
+        success: true,
+        status: job.status,
+        message: 'Pause request withdrawn',
+      });
+    }
+
+    // Conditional so a double-submitted resume can't run the checkpoint twice
+    const { count: claimed } = await prisma.sourcingJob.updateMany({
+      where: { id: jobId, status: 'PAUSED' },
+      data: {
+        status: job.statusBeforePause || 'CREATED',
+        statusBeforePause: null,
+        currentStage: 'RESUMED',
+        pauseRequestedAt: null,
+        pausedAt: null,
+        lastActivityAt: new Date(),
+      },
+    });
+
+    if (claimed === 0) {
+      return res.status(409).json({ error: 'Job is already being resumed' });
+    }
+
+    // The checkpoint holds the interrupted node (see lib/sourcing/pause)
+    const { run, fromCheckpoint } = await resumeInterruptedWorkflow(jobId);
+
+    console.log(
+      `▶️ Resuming sourcing job ${jobId} ${fromCheckpoint ? 'from checkpoint' : 'from database state'}`
+    );
+
+    run.catch(async (error) => {
+      console.error(`Resume of job ${jobId} failed:`, error);
+
+      await prisma.sourcingJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          errorMessage: `Resume failed: ${error.message}`,
+          failedAt: new Date(),
+        },
+      });
+    });
+
+    res.status(202).json({
+      success: true,
+      status: job.statusBeforePause || 'CREATED',
+      message: 'Job resumed',
+    });
+  } catch (error: any) {
+    console.error('Error resuming sourcing job:', error);
+    next(error);
+  }
+});
+
+// GET /api/sourcing/:jobId/rubric - Get the job's scoring rubric
+router.get('/rubric', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, scoringRubric: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const rubric = parseStoredRubric(job.scoringRubric);
+
+    res.json({
+      rubric,
+      isDefault: !rubric,
+    });
+  } catch (error: any) {
+    console.error('Error fetching scoring rubric:', error);
+    next(error);
+  }
+});
+
+// PUT /api/sourcing/:jobId/rubric - Set or clear the job's scoring rubric
+// Applies to candidates scored from now on
+router.put('/rubric', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, status: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    if (job.status === 'SCORING_PROFILES' || job.status === 'RESCORING') {
+      return res.status(409).json({
+        error: 'Cannot change the rubric while candidates are being scored',
+      });
+    }
+
+    // null clears the rubric and restores the default split
+    const rubric = req.body?.rubric === null ? null : scoringRubricSchema.parse(req.body?.rubric);
+
+    await prisma.sourcingJob.update({
+      where: { id: jobId },
+      data: { scoringRubric: rubric ?? Prisma.DbNull },
+    });
+
+    res.json({
+      success: true,
+      rubric,
+    });
+  } catch (error: any) {
+    console.error('Error updating scoring rubric:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// Same ceiling as job creation
+const MAX_CANDIDATES_PER_JOB = 200;
+
+// POST /api/sourcing/:jobId/top-up - Source more candidates for a completed job
+router.post('/top-up', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const { additionalCandidates } = topUpSourcingJobSchema.parse(req.body);
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        maxCandidates: true,
+        searchFilters: true,
+        usedQueryIndices: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    if (job.status !== 'COMPLETED') {
+      return res.status(400).json({
+        error: `Only completed jobs can be topped up (status: ${job.status})`,
+      });
+    }
+
+    const newTarget = job.maxCandidates + additionalCandidates;
+    if (newTarget > MAX_CANDIDATES_PER_JOB) {
+      return res.status(400).json({
+        error: `A job can hold at most ${MAX_CANDIDATES_PER_JOB} candidates (currently ${job.maxCandidates})`,
+      });
+    }
+
+    // Queries already run against LinkedIn are not repeated
+    const variants = Array.isArray(job.searchFilters) ? (job.searchFilters as any[]) : [];
+    const searchQueries = generateQueriesFromVariants(variants, newTarget);
+    const usedQueryIndices = (job.usedQueryIndices as number[]) || [];
+
+    if (searchQueries.length === 0 || usedQueryIndices.length >= searchQueries.length) {
+      return res.status(409).json({
+        error: 'All search queries for this job have been used. Create a new job to search again.',
+      });
+    }
+
+    // Credits are charged per new candidate during enrichment
+    const hasSufficient = await creditService.hasSufficientCredits(
+      userId!,
+      CreditCategory.SOURCING,
+      additionalCandidates
+    );
+
+    if (!hasSufficient) {
+      const balance = await creditService.getBalance(userId!);
+      return res.status(402).json({
+        error: 'Insufficient sourcing credits',
+        message: `You need ${additionalCandidates} sourcing credits to top up this job, but you only have ${balance.sourcingCredits} available.`,
+        required: additionalCandidates,
+        available: balance.sourcingCredits,
+        creditType: 'sourcing',
+      });
+    }
+
+    // Conditional so a double submit can't start two runs on the same checkpoint thread
+    const { count: claimed } = await prisma.sourcingJob.updateMany({
+      where: { id: jobId, status: 'COMPLETED' },
+      data: {
+        maxCandidates: newTarget,
+        status: 'SEARCHING_PROFILES',
+        currentStage: 'TOP_UP',
+        errorMessage: null,
+        completedAt: null,
+        // A cancel or pause that reached the previous run too late must not stop this one
+        cancelRequestedAt: null,
+        pauseRequestedAt: null,
+        lastActivityAt: new Date(),
+      },
+    });
+
+    if (claimed === 0) {
+      return res.status(409).json({ error: 'Job is already being topped up or re-scored' });
+    }
+
+    const resumeState = await buildResumeState(jobId);
+
+    console.log(
+      `➕ Topping up job ${jobId}: ${job.maxCandidates} → ${newTarget} candidates (${usedQueryIndices.length}/${searchQueries.length} queries used)`
+    );
+
+    const app = await createSourcingWorkflow();
+
+    // Re-enter at search_profiles with the stored discovered/enriched URLs and used queries
+    app
+      .invoke(
+        {
+          ...resumeState,
+          searchQueries,
+          searchIterations: 0,
+          entryNode: 'search_profiles',
+        } as any,
+        {
+          configurable: {
+            thread_id: jobId,
+          },
+        }
+      )
+      .catch(async (error) => {
+        console.error(`Top-up of job ${jobId} failed:`, error);
+
+        await prisma.sourcingJob.update({
+          where: { id: jobId },
+          data: {
+            status: 'FAILED',
+            errorMessage: `Top-up failed: ${error.message}`,
+            failedAt: new Date(),
+          },
+        });
+      });
+
+    res.status(202).json({
+      success: true,
+      status: 'SEARCHING_PROFILES',
+      previousTarget: job.maxCandidates,
+      maxCandidates: newTarget,
+    });
+  } catch (error: any) {
+    console.error('Error topping up sourcing job:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// POST /api/sourcing/:jobId/rescore - Re-score the candidate pool against an edited description
+// The previous ranking is kept as a snapshot so it can be diffed afterwards
+router.post('/rescore', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const { jobDescription, jobRequirements } = rescoreSourcingJobSchema.parse(req.body || {});
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        currentStage: true,
+        scoringRevision: true,
+        jobRequirements: true,
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    if (job.status !== 'COMPLETED') {
+      return res.status(400).json({
+        error: `Only completed jobs can be re-scored (status: ${job.status})`,
+      });
+    }
+
+    const candidateCount = await prisma.linkedInCandidate.count({
+      where: { sourcingJobId: jobId },
+    });
+
+    if (candidateCount === 0) {
+      return res.status(400).json({ error: 'Job has no candidates to re-score' });
+    }
+
+    // Conditional claim so two concurrent requests can't both re-score (and pay for) the pool.
+    // RESCORING is not a workflow status, so cron recovery never restarts the sourcing run
+    const { count: claimed } = await prisma.sourcingJob.updateMany({
+      where: { id: jobId, status: 'COMPLETED' },
+      data: {
+        status: 'RESCORING',
+        currentStage: 'RESCORING',
+        errorMessage: null,
+        lastActivityAt: new Date(),
+      },
+    });
+
+    if (claimed === 0) {
+      return res.status(409).json({ error: 'Job is already being re-scored or topped up' });
+    }
+
+    let snapshot;
+    const revision = job.scoringRevision + 1;
+
+    try {
+      snapshot = await snapshotSourcingScores(jobId);
+
+      await prisma.sourcingJob.update({
+        where: { id: jobId },
+        data: {
+          ...(jobDescription && { rawJobDescription: jobDescription }),
+          ...(jobRequirements && {
+            jobRequirements: { ...((job.jobRequirements as object) || {}), ...jobRequirements },
+          }),
+          scoringRevision: revision,
+        },
+      });
+    } catch (error) {
+      await prisma.sourcingJob.update({
+        where: { id: jobId },
+        data: { status: 'COMPLETED', currentStage: job.currentStage },
+      });
+      throw error;
+    }
+
+    console.log(`🔁 Re-scoring job ${jobId}: revision ${job.scoringRevision} → ${revision}`);
+
+    withUsageContext({ userId: userId!, sourcingJobId: jobId }, () =>
+      rescoreSourcingJob(jobId)
+    ).catch((error) => {
+      console.error(`Re-scoring of job ${jobId} failed:`, error);
+    });
+
+    res.status(202).json({
+      success: true,
+      status: 'RESCORING',
+      previousRevision: snapshot.revision,
+      revision,
+      candidates: candidateCount,
+    });
+  } catch (error: any) {
+    console.error('Error re-scoring sourcing job:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// GET /api/sourcing/:jobId/score-versions - List scoring revisions of the job
+router.get('/score-versions', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, scoringRevision: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    res.json({
+      currentRevision: job.scoringRevision,
+      versions: await listScoreVersions({ sourcingJobId: jobId }, job.scoringRevision),
+    });
+  } catch (error: any) {
+    console.error('Error fetching score versions:', error);
+    next(error);
+  }
+});
+
+// GET /api/sourcing/:jobId/score-diff?from=1&to=2 - Compare rankings between revisions
+// Defaults to the previous revision vs the current one
+router.get('/score-diff', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, scoringRevision: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const to = req.query.to ? parseInt(req.query.to as string) : job.scoringRevision;
+    const from = req.query.from ? parseInt(req.query.from as string) : to - 1;
+
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ error: 'from and to must be revision numbers' });
+    }
+
+    const owner = { sourcingJobId: jobId };
+    const before = await getRankingAtRevision(owner, from, job.scoringRevision);
+    const after = await getRankingAtRevision(owner, to, job.scoringRevision);
+
+    if (!before || !after) {
+      return res.status(404).json({ error: 'Scoring revision not found' });
+    }
+
+    res.json({
+      from,
+      to,
+      ...diffRankings(before, after),
+    });
+  } catch (error: any) {
+    console.error('Error diffing scores:', error);
+    next(error);
+  }
+});
+
+// POST /api/sourcing/:jobId/compare - Side-by-side comparison of 2-5 candidates
+// Body: { candidateIds: string[], recommendation?: boolean }
+router.post('/compare', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId } = req.params;
+    const { candidateIds, recommendation: withRecommendation } = compareCandidatesSchema.parse(
+      req.body
+    );
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true, title: true, rawJobDescription: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const entries = await loadSourcingComparisonEntries(jobId, candidateIds);
+
+    if (!entries) {
+      return res.status(404).json({ error: 'Candidates not found in this job' });
+    }
+
+    let recommendation = null;
+    let recommendationError: string | undefined;
+
+    // The aligned data is returned either way; only the recommendation is skipped
+    // when credits are short or the model call fails
+    if (withRecommendation) {
+      const hasSufficient = await creditService.hasSufficientCredits(
+        userId!,
+        CreditCategory.SOURCING,
+        RECOMMENDATION_CREDITS
+      );
+
+      if (hasSufficient) {
+        try {
+          recommendation = await withUsageContext({ userId: userId!, sourcingJobId: jobId }, () =>
+            generateComparativeRecommendation(
+              { title: job.title, description: job.rawJobDescription },
+              entries
+            )
+          );
+        } catch (error: any) {
+          recommendationError = error.message;
+        }
+      } else {
+        const balance = await creditService.getBalance(userId!);
+        recommendationError = `An AI recommendation costs ${RECOMMENDATION_CREDITS} sourcing credit, but you have ${balance.sourcingCredits} available.`;
+      }
+    }
+
+    // Charged apart from the model call, so a recommendation already generated is
+    // still returned if the balance was spent in the meantime
+    if (recommendation) {
+      await creditService
+        .deductCredits(
+          userId!,
+          CreditCategory.SOURCING,
+          RECOMMENDATION_CREDITS,
+          jobId,
+          'SOURCING_JOB',
+          `AI comparison of ${entries.length} candidates`
+        )
+        .catch((error) => {
+          console.error(`Failed to charge comparison recommendation for job ${jobId}:`, error);
+        });
+    }
+
+    res.json({
+      success: true,
+      jobId,
+      ...buildComparison(entries, SOURCING_SCORE_DIMENSIONS),
+      recommendation,
+      ...(recommendationError && { recommendationError }),
+    });
+  } catch (error: any) {
+    console.error('Error comparing candidates:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
 
-export default router;
\ No newline at end of file
+export default router;
@@ -152,7 +152,10 @@ router.get('/:jobId', requireAuth, async (req: AuthenticatedRequest, res, next)
         if (
           latestJob.status === 'COMPLETED' ||
           latestJob.status === 'FAILED' ||
-          latestJob.status === 'RATE_LIMITED'
+          latestJob.status === 'RATE_LIMITED' ||
+          latestJob.status === 'CANCELLED' ||
+          latestJob.status === 'PAUSED' ||
+          latestJob.status === 'AWAITING_REVIEW'
         ) {
           console.log(`✅ Job ${jobId} finished with status ${latestJob.status}. Closing stream.`);
 
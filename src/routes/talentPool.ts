@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { talentPoolService } from '../services/talent-pool.service';
+import { embeddingService } from '../services/embedding.service';
+import {
+  talentPoolQuerySchema,
+  similarCandidatesQuerySchema,
+} from '../lib/validations/talent-pool';
+
+const router = Router();
+
+// -------------------------
+// GET: SEARCH THE TALENT POOL
+// -------------------------
+// ?q=&skills=react,node&skillMatch=all|any&title=&location=&seniority=senior,lead
+// &minExperience=&maxExperience=&source=all|screening|sourcing&page=&limit=
+router.get('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const query = talentPoolQuerySchema.parse(req.query);
+
+    const result = await talentPoolService.search(req.userId!, query);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    console.error('Error searching talent pool:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// GET: NEAREST CANDIDATES TO A JOB DESCRIPTION
+// -------------------------
+// ?jobId= or ?sourcingJobId=, &limit=&source=all|screening|sourcing&minSimilarity=&includeCurrent=
+// Candidates are compared by their stored embeddings (written after screening
+// and scoring, or by POST /embeddings/reindex); only the job is embedded here
+router.get('/similar', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const { jobId, sourcingJobId, ...options } = similarCandidatesQuerySchema.parse(req.query);
+
+    const job = await embeddingService.getJobSubject(
+      userId!,
+      jobId ? { jobId } : { sourcingJobId: sourcingJobId! }
+    );
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (!job.text) {
+      return res.status(400).json({ error: 'Job has no description to compare against' });
+    }
+
+    const { results, computed, compared } = await embeddingService.findSimilarCandidates(
+      userId!,
+      job,
+      options
+    );
+
+    res.json({
+      success: true,
+      job: { id: job.id, type: job.type, title: job.title },
+      results,
+      embeddingsComputed: computed,
+      candidatesCompared: compared,
+    });
+  } catch (error: any) {
+    console.error('Error finding similar candidates:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// -------------------------
+// POST: EMBED THE WHOLE POOL AND ALL JOB DESCRIPTIONS
+// -------------------------
+router.post('/embeddings/reindex', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const result = await embeddingService.reindexUser(req.userId!);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    console.error('Error reindexing embeddings:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { CreditCategory } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { aiUsageService } from '../services/ai-usage.service';
+import { creditService } from '../services/credit.service';
+
+const router = Router();
+
+// -------------------------
+// GET: MONTHLY AI SPEND VS CREDITS CHARGED
+// -------------------------
+router.get('/monthly', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { userId } = req;
+    const months = req.query.months ? parseInt(req.query.months as string) : 6;
+
+    if (isNaN(months) || months < 1 || months > 24) {
+      return res.status(400).json({ error: 'months must be between 1 and 24' });
+    }
+
+    const usage = await aiUsageService.getMonthlyUsage(userId!, months);
+
+    res.json({
+      success: true,
+      months: usage,
+    });
+  } catch (error: any) {
+    console.error('Error fetching monthly AI usage:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// GET: AI USAGE OF A SCREENING JOB
+// -------------------------
+router.get('/jobs/:jobId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, userId: userId! },
+      select: { id: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const usage = await aiUsageService.getJobUsage({ jobId });
+    const creditsCharged = await creditService.getNetChargedForReference(
+      userId!,
+      CreditCategory.SCREENING,
+      jobId
+    );
+
+    res.json({
+      success: true,
+      jobId,
+      ...usage,
+      creditsCharged,
+    });
+  } catch (error: any) {
+    console.error('Error fetching job AI usage:', error);
+    next(error);
+  }
+});
+
+// -------------------------
+// GET: AI USAGE OF A SOURCING JOB
+// -------------------------
+router.get('/sourcing/:jobId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { jobId } = req.params;
+    const { userId } = req;
+
+    const job = await prisma.sourcingJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, userId: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.userId !== userId) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const usage = await aiUsageService.getJobUsage({ sourcingJobId: jobId });
+    const creditsCharged = await creditService.getNetChargedForReference(
+      userId!,
+      CreditCategory.SOURCING,
+      jobId
+    );
+
+    res.json({
+      success: true,
+      jobId,
+      ...usage,
+      creditsCharged,
+    });
+  } catch (error: any) {
+    console.error('Error fetching sourcing job AI usage:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -8,21 +8,28 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { errorHandler, notFound } from './middleware/errorHandler';
+import { screeningQueueService } from './services/screening-queue.service';
 
 // Import all routes
 import jobsRouter from './routes/job';
 import jobByIdRouter from './routes/jobById';
 import sourcingRouter from './routes/sourcing';
 import sourcingByIdRouter from './routes/sourcingById';
+import searchFiltersRouter from './routes/searchFilters';
 import candidatesRouter from './routes/candidates';
 import cronRouter from './routes/cron';
 import streamRouter from './routes/stream';
 import retryRouter from './routes/retry';
 import processRouter from './routes/process';
+import resumesRouter from './routes/resumes';
+import screeningStreamRouter from './routes/screeningStream';
 import creditsRouter from './routes/credits';
 import plansRouter from './routes/plans';
 import subscriptionsRouter from './routes/subscriptions';
 import webhooksRouter from './routes/webhooks';
+import usageRouter from './routes/usage';
+import pipelineRouter from './routes/pipeline';
+import talentPoolRouter from './routes/talentPool';
 
 const app: Application = express();
 const PORT = process.env.PORT || 8000;
@@ -90,14 +97,19 @@ app.get('/', (req, res) => {
     endpoints: {
       jobs: '/api/jobs',
       sourcing: '/api/sourcing',
+      searchFilters: '/api/sourcing/:jobId/search-filters',
       candidates: '/api/candidates',
+      pipeline: '/api/pipeline',
+      talentPool: '/api/talent-pool',
       credits: '/api/credits',
+      usage: '/api/usage',
       plans: '/api/plans',
       subscriptions: '/api/subscriptions',
-      upload: '/api/upload',
+      resumes: '/api/jobs/:jobId/resumes',
       export: '/api/export',
       process: '/api/process/:jobId',
       stream: '/api/stream/:jobId',
+      screeningStream: '/api/jobs/stream/:jobId',
       retry: '/api/retry',
       webhooks: '/api/webhooks',
       cron: '/api/cron',
@@ -107,11 +119,16 @@ app.get('/', (req, res) => {
 });
 
 // API Routes
+app.use('/api/jobs/:jobId/resumes', resumesRouter);
 app.use('/api/jobs/:jobId', jobByIdRouter);
 app.use('/api/jobs', jobsRouter);
 app.use('/api/jobs/process', processRouter);
+app.use('/api/jobs/stream', screeningStreamRouter);
 app.use('/api/candidates', candidatesRouter);
+app.use('/api/pipeline', pipelineRouter);
+app.use('/api/talent-pool', talentPoolRouter);
 
+app.use('/api/sourcing/:jobId/search-filters', searchFiltersRouter);
 app.use('/api/sourcing/:jobId', sourcingByIdRouter);
 app.use('/api/sourcing', sourcingRouter);
 app.use('/api/sourcing/stream', streamRouter);
@@ -120,6 +137,7 @@ app.use('/api/cron', cronRouter);
 
 // Credit System Routes
 app.use('/api/credits', creditsRouter);
+app.use('/api/usage', usageRouter);
 app.use('/api/plans', plansRouter);
 app.use('/api/subscriptions', subscriptionsRouter);
 
@@ -149,19 +167,26 @@ const server = app.listen(PORT, () => {
 🔗 Base URL: http://localhost:${PORT}
 📚 API Docs: http://localhost:${PORT}/
   `);
+
+  // Background resume screening (disable to run workers in a separate process)
+  if (process.env.SCREENING_WORKER_ENABLED !== 'false') {
+    screeningQueueService.startWorker();
+  }
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  await screeningQueueService.stopWorker();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
   });
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully...');
+  await screeningQueueService.stopWorker();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -0,0 +1,154 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+type UsageOwner = { jobId: string } | { sourcingJobId: string };
+
+function toTotals(row: {
+  _count: { _all: number };
+  _sum: {
+    inputTokens: number | null;
+    outputTokens: number | null;
+    totalTokens: number | null;
+    costUsd: number | null;
+  };
+}): UsageTotals {
+  return {
+    calls: row._count._all,
+    inputTokens: row._sum.inputTokens || 0,
+    outputTokens: row._sum.outputTokens || 0,
+    totalTokens: row._sum.totalTokens || 0,
+    costUsd: Math.round((row._sum.costUsd || 0) * 10000) / 10000,
+  };
+}
+
+const SUM_FIELDS = {
+  inputTokens: true,
+  outputTokens: true,
+  totalTokens: true,
+  costUsd: true,
+} as const;
+
+export class AIUsageService {
+  /**
+   * Token usage and LLM cost of one screening or sourcing job
+   * broken down by task and by model
+   */
+  async getJobUsage(owner: UsageOwner) {
+    const totals = await prisma.aIUsage.aggregate({
+      where: owner,
+      _count: { _all: true },
+      _sum: SUM_FIELDS,
+    });
+
+    const byTask = await prisma.aIUsage.groupBy({
+      by: ['task'],
+      where: owner,
+      _count: { _all: true },
+      _sum: SUM_FIELDS,
+    });
+
+    const byModel = await prisma.aIUsage.groupBy({
+      by: ['provider', 'model'],
+      where: owner,
+      _count: { _all: true },
+      _sum: SUM_FIELDS,
+    });
+
+    // Calls on models without a known price are counted but cost nothing
+    const unpricedCalls = await prisma.aIUsage.count({
+      where: { ...owner, costUsd: null },
+    });
+
+    return {
+      totals: toTotals(totals),
+      byTask: byTask.map((row) => ({ task: row.task, ...toTotals(row) })),
+      byModel: byModel.map((row) => ({
+        provider: row.provider,
+        model: row.model,
+        ...toTotals(row),
+      })),
+      unpricedCalls,
+    };
+  }
+
+  /**
+   * Monthly LLM spend of a user next to the credits charged in the same month
+   */
+  async getMonthlyUsage(userId: string, months: number = 6) {
+    const since = new Date();
+    since.setUTCDate(1);
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCMonth(since.getUTCMonth() - (months - 1));
+
+    const usage = await prisma.$queryRaw<
+      Array<{
+        month: string;
+        calls: bigint;
+        inputTokens: bigint | null;
+        outputTokens: bigint | null;
+        costUsd: number | null;
+      }>
+    >(Prisma.sql`
+      SELECT to_char(date_trunc('month', "createdAt"), 'YYYY-MM') AS "month",
+             COUNT(*) AS "calls",
+             SUM("inputTokens") AS "inputTokens",
+             SUM("outputTokens") AS "outputTokens",
+             SUM("costUsd") AS "costUsd"
+      FROM "ai_usage"
+      WHERE "userId" = ${userId} AND "createdAt" >= ${since}
+      GROUP BY 1
+    `);
+
+    // Debits are stored negative and refunds positive
+    const credits = await prisma.$queryRaw<
+      Array<{ month: string; category: string; charged: bigint | null }>
+    >(Prisma.sql`
+      SELECT to_char(date_trunc('month', ct."createdAt"), 'YYYY-MM') AS "month",
+             ct."category"::text AS "category",
+             -SUM(ct."amount") AS "charged"
+      FROM "credit_transactions" ct
+      JOIN "user_credits" uc ON uc."id" = ct."userCreditsId"
+      WHERE uc."userId" = ${userId}
+        AND ct."type" IN ('DEBIT', 'REFUND')
+        AND ct."createdAt" >= ${since}
+      GROUP BY 1, 2
+    `);
+
+    const result = [];
+    const cursor = new Date(since);
+
+    for (let i = 0; i < months; i++) {
+      const month = cursor.toISOString().slice(0, 7);
+      const row = usage.find((u) => u.month === month);
+      const charged = (category: string) =>
+        Number(credits.find((c) => c.month === month && c.category === category)?.charged || 0);
+
+      result.push({
+        month,
+        calls: Number(row?.calls || 0),
+        inputTokens: Number(row?.inputTokens || 0),
+        outputTokens: Number(row?.outputTokens || 0),
+        costUsd: Math.round(Number(row?.costUsd || 0) * 10000) / 10000,
+        creditsCharged: {
+          sourcing: charged('SOURCING'),
+          screening: charged('SCREENING'),
+        },
+      });
+
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const aiUsageService = new AIUsageService();
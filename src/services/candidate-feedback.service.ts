@@ -0,0 +1,206 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import type { CandidateType } from '../lib/validations/pipeline';
+import { MAX_TAGS, type CandidateListFilters } from '../lib/validations/candidate';
+
+const authorSelect = { select: { id: true, name: true, email: true } };
+
+const feedbackSelect = { id: true, tags: true, rating: true, ratedAt: true };
+
+type FeedbackData = { tags?: string[]; rating?: number | null; ratedAt?: Date | null };
+
+/**
+ * Where clause for tag and rating filters; the fields are named the same on
+ * both candidate types
+ */
+export function candidateFeedbackWhere(filters: CandidateListFilters) {
+  const where: Prisma.CandidateWhereInput & Prisma.LinkedInCandidateWhereInput = {};
+
+  if (filters.tags.length > 0) {
+    where.tags = { hasEvery: filters.tags };
+  }
+
+  if (filters.minRating !== undefined || filters.maxRating !== undefined) {
+    where.rating = {
+      ...(filters.minRating !== undefined && { gte: filters.minRating }),
+      ...(filters.maxRating !== undefined && { lte: filters.maxRating }),
+    };
+  }
+
+  return where;
+}
+
+export class CandidateFeedbackService {
+  private table(type: CandidateType) {
+    return Prisma.raw(type === 'screening' ? '"candidates"' : '"LinkedInCandidate"');
+  }
+
+  private async getTags(type: CandidateType, candidateId: string) {
+    if (type === 'screening') {
+      return prisma.candidate.findUnique({ where: { id: candidateId }, select: feedbackSelect });
+    }
+
+    return prisma.linkedInCandidate.findUnique({
+      where: { id: candidateId },
+      select: feedbackSelect,
+    });
+  }
+
+  private noteOwner(type: CandidateType, candidateId: string) {
+    return type === 'screening' ? { candidateId } : { linkedInCandidateId: candidateId };
+  }
+
+  private async updateCandidate(type: CandidateType, candidateId: string, data: FeedbackData) {
+    if (type === 'screening') {
+      return prisma.candidate.update({
+        where: { id: candidateId },
+        data,
+        select: feedbackSelect,
+      });
+    }
+
+    return prisma.linkedInCandidate.update({
+      where: { id: candidateId },
+      data,
+      select: feedbackSelect,
+    });
+  }
+
+  // -------------------------
+  // NOTES
+  // -------------------------
+
+  /**
+   * Top-level notes oldest first, each with its replies
+   */
+  async listNotes(type: CandidateType, candidateId: string) {
+    return prisma.candidateNote.findMany({
+      where: { ...this.noteOwner(type, candidateId), parentId: null },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        author: authorSelect,
+        replies: {
+          orderBy: { createdAt: 'asc' },
+          include: { author: authorSelect },
+        },
+      },
+    });
+  }
+
+  async getNote(type: CandidateType, candidateId: string, noteId: string) {
+    return prisma.candidateNote.findFirst({
+      where: { id: noteId, ...this.noteOwner(type, candidateId) },
+    });
+  }
+
+  /**
+   * Threads are one level deep: a reply to a reply joins the same thread
+   */
+  async createNote(
+    authorId: string,
+    type: CandidateType,
+    candidateId: string,
+    body: string,
+    parent?: { id: string; parentId: string | null }
+  ) {
+    return prisma.candidateNote.create({
+      data: {
+        authorId,
+        ...this.noteOwner(type, candidateId),
+        parentId: parent ? parent.parentId || parent.id : null,
+        body,
+      },
+      include: { author: authorSelect },
+    });
+  }
+
+  async updateNote(noteId: string, body: string) {
+    return prisma.candidateNote.update({
+      where: { id: noteId },
+      data: { body },
+      include: { author: authorSelect },
+    });
+  }
+
+  /**
+   * Deleting a top-level note removes its replies too
+   */
+  async deleteNote(noteId: string) {
+    await prisma.candidateNote.delete({ where: { id: noteId } });
+  }
+
+  // -------------------------
+  // TAGS
+  // -------------------------
+
+  async setTags(type: CandidateType, candidateId: string, tags: string[]) {
+    return this.updateCandidate(type, candidateId, { tags });
+  }
+
+  /**
+   * Merge tags in one statement so concurrent adds don't drop each other;
+   * null when the merged list would go over MAX_TAGS
+   */
+  async addTags(type: CandidateType, candidateId: string, tags: string[]) {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+      UPDATE ${this.table(type)}
+      SET "tags" = ARRAY(
+            SELECT t FROM unnest("tags" || ${tags}::text[]) WITH ORDINALITY AS u(t, i)
+            GROUP BY t
+            ORDER BY MIN(i)
+          ),
+          "updatedAt" = NOW()
+      WHERE "id" = ${candidateId}
+        AND (
+          SELECT COUNT(DISTINCT t) FROM unnest("tags" || ${tags}::text[]) AS u(t)
+        ) <= ${MAX_TAGS}
+      RETURNING "id"
+    `);
+
+    if (rows.length === 0) return null;
+
+    return this.getTags(type, candidateId);
+  }
+
+  async removeTag(type: CandidateType, candidateId: string, tag: string) {
+    await prisma.$executeRaw(Prisma.sql`
+      UPDATE ${this.table(type)}
+      SET "tags" = array_remove("tags", ${tag}), "updatedAt" = NOW()
+      WHERE "id" = ${candidateId}
+    `);
+
+    return this.getTags(type, candidateId);
+  }
+
+  // -------------------------
+  // RATING
+  // -------------------------
+
+  async setRating(type: CandidateType, candidateId: string, rating: number) {
+    return this.updateCandidate(type, candidateId, { rating, ratedAt: new Date() });
+  }
+
+  async clearRating(type: CandidateType, candidateId: string) {
+    return this.updateCandidate(type, candidateId, { rating: null, ratedAt: null });
+  }
+
+  /**
+   * Tags and rating of a candidate owned by the user, or null
+   */
+  async getFeedback(userId: string, type: CandidateType, candidateId: string) {
+    if (type === 'screening') {
+      return prisma.candidate.findFirst({
+        where: { id: candidateId, job: { userId } },
+        select: feedbackSelect,
+      });
+    }
+
+    return prisma.linkedInCandidate.findFirst({
+      where: { id: candidateId, sourcingJob: { userId } },
+      select: feedbackSelect,
+    });
+  }
+}
+
+// Export singleton instance
+export const candidateFeedbackService = new CandidateFeedbackService();
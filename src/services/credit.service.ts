@@ -164,6 +164,37 @@ export class CreditService {
     });
   }
 
+  /**
+   * Get credits still charged against a reference (debits minus refunds)
+   * Used to cap refunds so a reference can never be refunded more than it cost
+   */
+  async getNetChargedForReference(
+    userId: string,
+    category: CreditCategory,
+    referenceId: string
+  ): Promise<number> {
+    const userCredits = await prisma.userCredits.findUnique({
+      where: { userId },
+    });
+
+    if (!userCredits) {
+      return 0;
+    }
+
+    const { _sum } = await prisma.creditTransaction.aggregate({
+      where: {
+        userCreditsId: userCredits.id,
+        category,
+        referenceId,
+        type: { in: [TransactionType.DEBIT, TransactionType.REFUND] },
+      },
+      _sum: { amount: true },
+    });
+
+    // Debits are stored negative and refunds positive
+    return Math.max(0, -(_sum.amount || 0));
+  }
+
   /**
    * Reset user's credits based on their subscription plan (monthly reset)
    */
@@ -0,0 +1,371 @@
+import { prisma } from '../lib/prisma';
+import { EmbeddingSubject, Prisma } from '@prisma/client';
+import { cosineSimilarity } from 'ai';
+import { getEmbeddingProvider } from '../lib/embeddings/providers';
+import {
+  contentHash,
+  candidateText,
+  linkedInCandidateText,
+  jobText,
+  sourcingJobText,
+} from '../lib/embeddings/text';
+import { mergeTalentRecords } from '../lib/talent-pool/profiles';
+import { talentPoolService } from './talent-pool.service';
+
+const EMBED_BATCH_SIZE = 64;
+const MAX_POOL_SUBJECTS = 5000;
+const SIMILAR_RECORDS_PER_RESULT = 3;
+
+const POOL_SUBJECTS: Record<SimilarCandidatesOptions['source'], EmbeddingSubject[]> = {
+  all: [EmbeddingSubject.CANDIDATE, EmbeddingSubject.LINKEDIN_CANDIDATE],
+  screening: [EmbeddingSubject.CANDIDATE],
+  sourcing: [EmbeddingSubject.LINKEDIN_CANDIDATE],
+};
+
+export interface EmbeddingSubjectInput {
+  type: EmbeddingSubject;
+  id: string;
+  text: string;
+}
+
+export type SimilarityTarget = { jobId: string } | { sourcingJobId: string };
+
+export interface SimilarCandidatesOptions {
+  limit: number;
+  source: 'all' | 'screening' | 'sourcing';
+  minSimilarity?: number;
+  // Keep people who already applied to / were sourced for the target job
+  includeCurrent: boolean;
+}
+
+const subjectKey = (type: EmbeddingSubject, id: string) => `${type}:${id}`;
+
+export class EmbeddingService {
+  /**
+   * Vectors for the subjects, embedding only those that are new or whose
+   * text or model changed since they were stored. Subjects with no text are
+   * left out.
+   */
+  async ensureEmbeddings(userId: string, subjects: EmbeddingSubjectInput[]) {
+    const provider = getEmbeddingProvider();
+    const vectors = new Map<string, number[]>();
+    const withText = subjects.filter((s) => s.text.length > 0);
+
+    const existing = await prisma.embedding.findMany({
+      where: {
+        subjectType: { in: [...new Set(withText.map((s) => s.type))] },
+        subjectId: { in: withText.map((s) => s.id) },
+      },
+      select: {
+        subjectType: true,
+        subjectId: true,
+        model: true,
+        dimensions: true,
+        contentHash: true,
+        vector: true,
+      },
+    });
+    const stored = new Map(existing.map((e) => [subjectKey(e.subjectType, e.subjectId), e]));
+
+    const stale: Array<EmbeddingSubjectInput & { hash: string }> = [];
+
+    for (const subject of withText) {
+      const hash = contentHash(subject.text);
+      const row = stored.get(subjectKey(subject.type, subject.id));
+
+      if (
+        row &&
+        row.model === provider.id &&
+        row.dimensions === provider.dimensions &&
+        row.contentHash === hash
+      ) {
+        vectors.set(subjectKey(subject.type, subject.id), row.vector);
+      } else {
+        stale.push({ ...subject, hash });
+      }
+    }
+
+    for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+      const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+      const embedded = await provider.embed(batch.map((s) => s.text));
+
+      await prisma.$transaction(
+        batch.map((subject, j) => {
+          const data = {
+            userId,
+            model: provider.id,
+            dimensions: provider.dimensions,
+            contentHash: subject.hash,
+            vector: embedded[j],
+          };
+
+          return prisma.embedding.upsert({
+            where: { subjectType_subjectId: { subjectType: subject.type, subjectId: subject.id } },
+            create: { subjectType: subject.type, subjectId: subject.id, ...data },
+            update: data,
+          });
+        })
+      );
+
+      batch.forEach((subject, j) => vectors.set(subjectKey(subject.type, subject.id), embedded[j]));
+    }
+
+    return { vectors, computed: stale.length };
+  }
+
+  /**
+   * Embeddable text of every screened resume and sourced profile of the user
+   */
+  async getPoolSubjects(userId: string): Promise<EmbeddingSubjectInput[]> {
+    const [resumes, profiles] = await Promise.all([
+      this.getResumeSubjects({ job: { userId }, processingStatus: 'completed' }),
+      this.getProfileSubjects({ sourcingJob: { userId } }),
+    ]);
+
+    return [...resumes, ...profiles];
+  }
+
+  private async getResumeSubjects(where: Prisma.CandidateWhereInput) {
+    const resumes = await prisma.candidate.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_POOL_SUBJECTS,
+      select: { id: true, resumeText: true, summary: true, skills: true, experience: true },
+    });
+
+    return resumes.map((c) => ({
+      type: EmbeddingSubject.CANDIDATE,
+      id: c.id,
+      text: candidateText(c),
+    }));
+  }
+
+  private async getProfileSubjects(where: Prisma.LinkedInCandidateWhereInput) {
+    const profiles = await prisma.linkedInCandidate.findMany({
+      where,
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_POOL_SUBJECTS,
+      select: {
+        id: true,
+        headline: true,
+        currentPosition: true,
+        currentCompany: true,
+        experience: true,
+        skills: true,
+      },
+    });
+
+    return profiles.map((c) => ({
+      type: EmbeddingSubject.LINKEDIN_CANDIDATE,
+      id: c.id,
+      text: linkedInCandidateText(c),
+    }));
+  }
+
+  /**
+   * Embed newly screened resumes or scored profiles, so similarity search
+   * finds them without a reindex
+   */
+  async embedCandidates(
+    userId: string,
+    type: typeof EmbeddingSubject.CANDIDATE | typeof EmbeddingSubject.LINKEDIN_CANDIDATE,
+    ids: string[]
+  ) {
+    if (ids.length === 0) return { computed: 0 };
+
+    const subjects =
+      type === EmbeddingSubject.CANDIDATE
+        ? await this.getResumeSubjects({ id: { in: ids } })
+        : await this.getProfileSubjects({ id: { in: ids } });
+
+    const { computed } = await this.ensureEmbeddings(userId, subjects);
+    return { computed };
+  }
+
+  /**
+   * Drop the vectors of deleted subjects
+   */
+  async deleteEmbeddings(type: EmbeddingSubject, ids: string[]) {
+    if (ids.length === 0) return;
+
+    await prisma.embedding.deleteMany({ where: { subjectType: type, subjectId: { in: ids } } });
+  }
+
+  /**
+   * Drop the vectors of a job and of its candidates, before deleting the job
+   */
+  async deleteJobEmbeddings(target: SimilarityTarget) {
+    if ('jobId' in target) {
+      const candidates = await prisma.candidate.findMany({
+        where: { jobId: target.jobId },
+        select: { id: true },
+      });
+
+      await this.deleteEmbeddings(EmbeddingSubject.JOB, [target.jobId]);
+      await this.deleteEmbeddings(EmbeddingSubject.CANDIDATE, candidates.map((c) => c.id));
+      return;
+    }
+
+    const candidates = await prisma.linkedInCandidate.findMany({
+      where: { sourcingJobId: target.sourcingJobId },
+      select: { id: true },
+    });
+
+    await this.deleteEmbeddings(EmbeddingSubject.SOURCING_JOB, [target.sourcingJobId]);
+    await this.deleteEmbeddings(EmbeddingSubject.LINKEDIN_CANDIDATE, candidates.map((c) => c.id));
+  }
+
+  /**
+   * Embeddable text of a job the user owns, or null
+   */
+  async getJobSubject(
+    userId: string,
+    target: SimilarityTarget
+  ): Promise<(EmbeddingSubjectInput & { title: string }) | null> {
+    if ('jobId' in target) {
+      const job = await prisma.job.findFirst({
+        where: { id: target.jobId, userId },
+        select: { id: true, title: true, description: true, requiredSkills: true, qualifications: true },
+      });
+
+      return job && { type: EmbeddingSubject.JOB, id: job.id, title: job.title, text: jobText(job) };
+    }
+
+    const job = await prisma.sourcingJob.findFirst({
+      where: { id: target.sourcingJobId, userId },
+      select: { id: true, title: true, rawJobDescription: true, jobRequirements: true },
+    });
+
+    return (
+      job && {
+        type: EmbeddingSubject.SOURCING_JOB,
+        id: job.id,
+        title: job.title,
+        text: sourcingJobText(job),
+      }
+    );
+  }
+
+  /**
+   * Embed everything in the user's pool plus all their job descriptions
+   */
+  async reindexUser(userId: string) {
+    const [pool, jobs, sourcingJobs] = await Promise.all([
+      this.getPoolSubjects(userId),
+      prisma.job.findMany({
+        where: { userId },
+        select: { id: true, title: true, description: true, requiredSkills: true, qualifications: true },
+      }),
+      prisma.sourcingJob.findMany({
+        where: { userId },
+        select: { id: true, title: true, rawJobDescription: true, jobRequirements: true },
+      }),
+    ]);
+
+    const subjects: EmbeddingSubjectInput[] = [
+      ...pool,
+      ...jobs.map((j) => ({ type: EmbeddingSubject.JOB, id: j.id, text: jobText(j) })),
+      ...sourcingJobs.map((j) => ({
+        type: EmbeddingSubject.SOURCING_JOB,
+        id: j.id,
+        text: sourcingJobText(j),
+      })),
+    ];
+
+    const { vectors, computed } = await this.ensureEmbeddings(userId, subjects);
+
+    return { subjects: subjects.length, embedded: vectors.size, computed };
+  }
+
+  /**
+   * People in the user's pool closest to a job description. Only the job is
+   * embedded here; candidates are compared by their stored vectors (written
+   * after screening and scoring, or by a reindex). Each person is scored by
+   * their best matching record, so someone sourced for several roles appears
+   * once.
+   */
+  async findSimilarCandidates(
+    userId: string,
+    job: EmbeddingSubjectInput,
+    options: SimilarCandidatesOptions
+  ) {
+    const provider = getEmbeddingProvider();
+    const { vectors, computed } = await this.ensureEmbeddings(userId, [job]);
+    const jobVector = vectors.get(subjectKey(job.type, job.id));
+
+    if (!jobVector) {
+      return { results: [], computed, compared: 0 };
+    }
+
+    const [stored, current] = await Promise.all([
+      prisma.embedding.findMany({
+        where: {
+          userId,
+          subjectType: { in: POOL_SUBJECTS[options.source] },
+          model: provider.id,
+          dimensions: provider.dimensions,
+        },
+        select: { subjectType: true, subjectId: true, vector: true },
+      }),
+      options.includeCurrent ? null : this.getJobCandidateIds(job),
+    ]);
+
+    const ranked = stored
+      .filter((e) => !current?.has(e.subjectId))
+      .map((e) => ({
+        type: e.subjectType,
+        id: e.subjectId,
+        similarity: cosineSimilarity(jobVector, e.vector),
+      }))
+      .filter((e) => options.minSimilarity === undefined || e.similarity >= options.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      // Several records can be one person, so look at more than the limit
+      .slice(0, options.limit * SIMILAR_RECORDS_PER_RESULT);
+
+    const similarity = new Map(ranked.map((e) => [e.id, e.similarity]));
+    const records = await talentPoolService.loadRecordsById(userId, {
+      screening: ranked.filter((e) => e.type === EmbeddingSubject.CANDIDATE).map((e) => e.id),
+      sourcing: ranked
+        .filter((e) => e.type === EmbeddingSubject.LINKEDIN_CANDIDATE)
+        .map((e) => e.id),
+    });
+
+    const results = mergeTalentRecords(records)
+      .filter((p) => p.appearances.some((a) => similarity.has(a.candidateId)))
+      .filter((p) => options.source === 'all' || p.appearances.some((a) => a.source === options.source))
+      .filter((p) => options.includeCurrent || !p.appearances.some((a) => a.jobId === job.id))
+      .map(({ searchText, ...profile }) => ({
+        ...profile,
+        similarity:
+          Math.round(
+            Math.max(
+              ...profile.appearances
+                .filter((a) => similarity.has(a.candidateId))
+                .map((a) => similarity.get(a.candidateId)!)
+            ) * 1000
+          ) / 1000,
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit);
+
+    return { results, computed, compared: stored.length };
+  }
+
+  /**
+   * Ids of the candidates screened or sourced for the job
+   */
+  private async getJobCandidateIds(job: EmbeddingSubjectInput) {
+    const rows =
+      job.type === EmbeddingSubject.JOB
+        ? await prisma.candidate.findMany({ where: { jobId: job.id }, select: { id: true } })
+        : await prisma.linkedInCandidate.findMany({
+            where: { sourcingJobId: job.id },
+            select: { id: true },
+          });
+
+    return new Set(rows.map((row) => row.id));
+  }
+}
+
+// Export singleton instance
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,323 @@
+import { prisma } from '../lib/prisma';
+import { PipelineStage, PipelineStageOutcome } from '@prisma/client';
+import type {
+  CandidateType,
+  CreatePipelineStageInput,
+  UpdatePipelineStageInput,
+} from '../lib/validations/pipeline';
+
+// Created for a user the first time their pipeline is read
+export const DEFAULT_PIPELINE_STAGES: Array<{ name: string; outcome: PipelineStageOutcome }> = [
+  { name: 'New', outcome: 'OPEN' },
+  { name: 'Shortlisted', outcome: 'OPEN' },
+  { name: 'Contacted', outcome: 'OPEN' },
+  { name: 'Interviewing', outcome: 'OPEN' },
+  { name: 'Offer', outcome: 'OPEN' },
+  { name: 'Hired', outcome: 'HIRED' },
+  { name: 'Rejected', outcome: 'REJECTED' },
+];
+
+export type PipelineOwner = { jobId: string } | { sourcingJobId: string };
+
+export interface PipelineCandidate {
+  id: string;
+  jobId: string | null;
+  sourcingJobId: string | null;
+  pipelineStageId: string | null;
+}
+
+export class PipelineService {
+  /**
+   * User's stages in order, seeding the defaults on first use
+   */
+  async getStages(userId: string): Promise<PipelineStage[]> {
+    const stages = await prisma.pipelineStage.findMany({
+      where: { userId },
+      orderBy: { position: 'asc' },
+    });
+
+    if (stages.length > 0) {
+      return stages;
+    }
+
+    await prisma.pipelineStage.createMany({
+      data: DEFAULT_PIPELINE_STAGES.map((stage, position) => ({ userId, ...stage, position })),
+      skipDuplicates: true,
+    });
+
+    return prisma.pipelineStage.findMany({
+      where: { userId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  async getStage(userId: string, stageId: string) {
+    return prisma.pipelineStage.findFirst({
+      where: { id: stageId, userId },
+    });
+  }
+
+  async isNameTaken(userId: string, name: string, exceptStageId?: string) {
+    const existing = await prisma.pipelineStage.findFirst({
+      where: {
+        userId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptStageId && { id: { not: exceptStageId } }),
+      },
+      select: { id: true },
+    });
+
+    return !!existing;
+  }
+
+  /**
+   * Add a stage, shifting later stages down when inserted in the middle
+   */
+  async createStage(userId: string, input: CreatePipelineStageInput) {
+    const stages = await this.getStages(userId);
+    const position = Math.min(input.position ?? stages.length, stages.length);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.pipelineStage.updateMany({
+        where: { userId, position: { gte: position } },
+        data: { position: { increment: 1 } },
+      });
+
+      return tx.pipelineStage.create({
+        data: { userId, name: input.name, outcome: input.outcome, position },
+      });
+    });
+  }
+
+  async updateStage(stageId: string, input: UpdatePipelineStageInput) {
+    return prisma.pipelineStage.update({
+      where: { id: stageId },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.outcome !== undefined && { outcome: input.outcome }),
+      },
+    });
+  }
+
+  /**
+   * Apply a new order; returns null unless stageIds lists every stage exactly once
+   */
+  async reorderStages(userId: string, stageIds: string[]) {
+    const stages = await this.getStages(userId);
+    const known = new Set(stages.map((s) => s.id));
+
+    if (stageIds.length !== stages.length || new Set(stageIds).size !== stageIds.length) {
+      return null;
+    }
+    if (!stageIds.every((id) => known.has(id))) {
+      return null;
+    }
+
+    // Stageless candidates are in the first stage; pin them there before it moves
+    const firstStageId = stages[0].id;
+    const pinStageless =
+      stageIds[0] === firstStageId
+        ? []
+        : [
+            prisma.candidate.updateMany({
+              where: { pipelineStageId: null, job: { userId } },
+              data: { pipelineStageId: firstStageId },
+            }),
+            prisma.linkedInCandidate.updateMany({
+              where: { pipelineStageId: null, sourcingJob: { userId } },
+              data: { pipelineStageId: firstStageId },
+            }),
+          ];
+
+    await prisma.$transaction([
+      ...pinStageless,
+      ...stageIds.map((id, position) =>
+        prisma.pipelineStage.update({ where: { id }, data: { position } })
+      ),
+    ]);
+
+    return this.getStages(userId);
+  }
+
+  /**
+   * Candidates of either type currently in a stage
+   */
+  async countCandidatesInStage(stageId: string) {
+    const [screening, sourcing] = await Promise.all([
+      prisma.candidate.count({ where: { pipelineStageId: stageId } }),
+      prisma.linkedInCandidate.count({ where: { pipelineStageId: stageId } }),
+    ]);
+
+    return screening + sourcing;
+  }
+
+  async deleteStage(userId: string, stage: PipelineStage) {
+    await prisma.$transaction([
+      prisma.pipelineStage.delete({ where: { id: stage.id } }),
+      prisma.pipelineStage.updateMany({
+        where: { userId, position: { gt: stage.position } },
+        data: { position: { decrement: 1 } },
+      }),
+    ]);
+  }
+
+  /**
+   * Candidates among ids that belong to one of the user's jobs
+   */
+  async getOwnedCandidates(
+    userId: string,
+    type: CandidateType,
+    ids: string[]
+  ): Promise<PipelineCandidate[]> {
+    if (type === 'screening') {
+      const candidates = await prisma.candidate.findMany({
+        where: { id: { in: ids }, job: { userId } },
+        select: { id: true, jobId: true, pipelineStageId: true },
+      });
+
+      return candidates.map((c) => ({ ...c, sourcingJobId: null }));
+    }
+
+    const candidates = await prisma.linkedInCandidate.findMany({
+      where: { id: { in: ids }, sourcingJob: { userId } },
+      select: { id: true, sourcingJobId: true, pipelineStageId: true },
+    });
+
+    return candidates.map((c) => ({ ...c, jobId: null }));
+  }
+
+  /**
+   * Move candidates to a stage and log one history row per candidate that
+   * actually changed stage
+   */
+  async moveCandidates(
+    userId: string,
+    type: CandidateType,
+    candidates: PipelineCandidate[],
+    stage: PipelineStage,
+    reason?: string
+  ) {
+    const stages = await this.getStages(userId);
+    const stagesById = new Map(stages.map((s) => [s.id, s]));
+
+    // No stage means the first one
+    const currentStage = (c: PipelineCandidate) =>
+      c.pipelineStageId ? stagesById.get(c.pipelineStageId) : stages[0];
+
+    const toMove = candidates.filter((c) => currentStage(c)?.id !== stage.id);
+    const ids = toMove.map((c) => c.id);
+    const now = new Date();
+
+    if (toMove.length > 0) {
+      const data = { pipelineStageId: stage.id, stageChangedAt: now };
+
+      await prisma.$transaction([
+        type === 'screening'
+          ? prisma.candidate.updateMany({ where: { id: { in: ids } }, data })
+          : prisma.linkedInCandidate.updateMany({ where: { id: { in: ids } }, data }),
+        prisma.candidateStageChange.createMany({
+          data: toMove.map((c) => ({
+            userId,
+            candidateId: type === 'screening' ? c.id : null,
+            linkedInCandidateId: type === 'sourcing' ? c.id : null,
+            jobId: c.jobId,
+            sourcingJobId: c.sourcingJobId,
+            fromStageId: currentStage(c)?.id ?? null,
+            fromStageName: currentStage(c)?.name ?? null,
+            toStageId: stage.id,
+            toStageName: stage.name,
+            reason: reason || null,
+            createdAt: now,
+          })),
+        }),
+      ]);
+    }
+
+    return {
+      moved: toMove.length,
+      unchanged: candidates.length - toMove.length,
+      stage: { id: stage.id, name: stage.name, outcome: stage.outcome },
+    };
+  }
+
+  async getHistory(type: CandidateType, candidateId: string) {
+    return prisma.candidateStageChange.findMany({
+      where: type === 'screening' ? { candidateId } : { linkedInCandidateId: candidateId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Funnel of one job: candidates currently in each stage and how many ever
+   * entered it, with conversion between consecutive non-rejection stages
+   */
+  async getFunnel(userId: string, owner: PipelineOwner) {
+    const stages = await this.getStages(userId);
+
+    const current =
+      'jobId' in owner
+        ? await prisma.candidate.groupBy({
+            by: ['pipelineStageId'],
+            where: { jobId: owner.jobId },
+            _count: { _all: true },
+          })
+        : await prisma.linkedInCandidate.groupBy({
+            by: ['pipelineStageId'],
+            where: { sourcingJobId: owner.sourcingJobId },
+            _count: { _all: true },
+          });
+
+    // One row per (stage, candidate) so repeated moves count once
+    const entries = await prisma.candidateStageChange.groupBy({
+      by: ['toStageId', 'candidateId', 'linkedInCandidateId'],
+      where: owner,
+    });
+
+    const total = current.reduce((sum, row) => sum + row._count._all, 0);
+    const currentCount = (stageId: string | null) =>
+      current.find((row) => row.pipelineStageId === stageId)?._count._all || 0;
+
+    let previousEntered: number | null = null;
+
+    const funnel = stages.map((stage, index) => {
+      // Everyone starts in the first stage
+      const entered =
+        index === 0 ? total : entries.filter((e) => e.toStageId === stage.id).length;
+      const inStage = currentCount(stage.id) + (index === 0 ? currentCount(null) : 0);
+
+      let conversion: number | null = null;
+      if (stage.outcome !== 'REJECTED') {
+        if (previousEntered !== null) {
+          conversion = previousEntered > 0 ? Math.round((entered / previousEntered) * 1000) / 1000 : 0;
+        }
+        previousEntered = entered;
+      }
+
+      return {
+        stageId: stage.id,
+        name: stage.name,
+        outcome: stage.outcome,
+        position: stage.position,
+        current: inStage,
+        entered,
+        conversionFromPrevious: conversion,
+      };
+    });
+
+    const byOutcome = (outcome: PipelineStageOutcome) =>
+      funnel.filter((s) => s.outcome === outcome).reduce((sum, s) => sum + s.current, 0);
+
+    return {
+      totals: {
+        candidates: total,
+        hired: byOutcome('HIRED'),
+        rejected: byOutcome('REJECTED'),
+        inProgress: byOutcome('OPEN'),
+      },
+      stages: funnel,
+    };
+  }
+}
+
+// Export singleton instance
+export const pipelineService = new PipelineService();
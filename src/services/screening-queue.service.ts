@@ -0,0 +1,452 @@
+import { Candidate, EmbeddingSubject, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { processScreeningBatch } from '../lib/processing/screening-processor';
+import { scoringVersionFor } from '../lib/scoring/score-history';
+import { withUsageContext } from '../lib/ai/usage';
+import { embeddingService } from './embedding.service';
+
+// Candidates claimed per worker tick (one AI call each, run in parallel)
+const BATCH_SIZE = 12;
+const POLL_INTERVAL_MS = 2000;
+// Workers refresh processingStartedAt of their claimed candidates at this interval
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// A candidate without a heartbeat this long belonged to a worker that died
+const STALE_PROCESSING_MINUTES = 10;
+const MAX_ATTEMPTS = 3;
+
+const ACTIVE_LOG_STATUSES = ['queued', 'in_progress'];
+
+export class ScreeningQueueService {
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private currentTick: Promise<void> | null = null;
+
+  /**
+   * Queue all pending candidates of a job for background screening
+   * Returns null when there is nothing to screen
+   */
+  async enqueue(jobId: string) {
+    return await prisma.$transaction(async (tx) => {
+      const pendingCount = await tx.candidate.count({
+        where: { jobId, processingStatus: 'pending' },
+      });
+
+      if (pendingCount === 0) {
+        return null;
+      }
+
+      const processingLog = await tx.processingLog.create({
+        data: {
+          jobId,
+          status: 'queued',
+          totalResumes: pendingCount,
+        },
+      });
+
+      await tx.candidate.updateMany({
+        where: { jobId, processingStatus: 'pending' },
+        data: {
+          processingStatus: 'queued',
+          processingLogId: processingLog.id,
+          processingStage: null,
+          processingError: null,
+          processingAttempts: 0,
+        },
+      });
+
+      await tx.job.update({
+        where: { id: jobId },
+        data: { status: 'processing' },
+      });
+
+      return processingLog;
+    });
+  }
+
+  /**
+   * Cancel the active screening runs of a job
+   * Queued candidates go back to pending; candidates already claimed by a worker
+   * finish and are charged as usual (credits are only deducted per screened resume,
+   * so nothing needs refunding). Returns null when no run is active
+   */
+  async cancel(jobId: string) {
+    return await prisma.$transaction(async (tx) => {
+      const activeLogs = await tx.processingLog.findMany({
+        where: { jobId, status: { in: ACTIVE_LOG_STATUSES } },
+        select: { id: true },
+      });
+
+      if (activeLogs.length === 0) {
+        return null;
+      }
+
+      const logIds = activeLogs.map((log) => log.id);
+
+      const { count: dequeued } = await tx.candidate.updateMany({
+        where: { processingLogId: { in: logIds }, processingStatus: 'queued' },
+        data: {
+          processingStatus: 'pending',
+          processingLogId: null,
+          processingStage: null,
+        },
+      });
+
+      const inFlight = await tx.candidate.count({
+        where: { processingLogId: { in: logIds }, processingStatus: 'processing' },
+      });
+
+      await tx.processingLog.updateMany({
+        where: { id: { in: logIds } },
+        data: { status: 'cancelled', completedAt: new Date() },
+      });
+
+      await tx.job.update({
+        where: { id: jobId },
+        data: { status: 'cancelled' },
+      });
+
+      return { cancelledLogs: logIds.length, dequeued, inFlight };
+    });
+  }
+
+  /**
+   * Get the most recent queued or running log for a job
+   */
+  async getActiveLog(jobId: string) {
+    return await prisma.processingLog.findFirst({
+      where: { jobId, status: { in: ACTIVE_LOG_STATUSES } },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Start polling the queue in this process
+   */
+  startWorker() {
+    if (!this.stopped) return;
+
+    this.stopped = false;
+    console.log('🧵 Screening worker started');
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the in-flight batch to finish
+   */
+  async stopWorker() {
+    this.stopped = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick;
+    }
+
+    console.log('🧵 Screening worker stopped');
+  }
+
+  private schedule(delayMs: number) {
+    if (this.stopped) return;
+
+    this.timer = setTimeout(() => {
+      this.currentTick = this.tick().finally(() => {
+        this.currentTick = null;
+      });
+    }, delayMs);
+  }
+
+  private async tick() {
+    let claimedCount = 0;
+
+    try {
+      await this.recoverStaleCandidates();
+
+      const claimed = await this.claimBatch();
+      claimedCount = claimed.length;
+
+      if (claimed.length > 0) {
+        const stopHeartbeat = this.startHeartbeat(claimed.map((c) => c.id));
+
+        try {
+          await this.processClaimed(claimed);
+        } finally {
+          stopHeartbeat();
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ Screening worker tick failed:', error);
+    } finally {
+      // Drain the queue without waiting while there is work
+      this.schedule(claimedCount > 0 ? 0 : POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Atomically claim queued candidates so concurrent workers never share one
+   */
+  private async claimBatch(): Promise<Candidate[]> {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+      UPDATE "candidates"
+      SET "processingStatus" = 'processing',
+          "processingStage" = 'started',
+          "processingStartedAt" = NOW(),
+          "processingAttempts" = "processingAttempts" + 1,
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "candidates"
+        WHERE "processingStatus" = 'queued'
+        ORDER BY "createdAt" ASC
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"
+    `);
+
+    if (rows.length === 0) return [];
+
+    return await prisma.candidate.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+    });
+  }
+
+  /**
+   * Keep claimed candidates out of stale recovery while this worker is alive,
+   * however long the batch takes. Returns a function that stops the heartbeat
+   */
+  private startHeartbeat(candidateIds: string[]) {
+    const timer = setInterval(() => {
+      prisma.candidate
+        .updateMany({
+          where: { id: { in: candidateIds }, processingStatus: 'processing' },
+          data: { processingStartedAt: new Date() },
+        })
+        .catch((error) => console.error('⚠️ Screening heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Screen claimed candidates grouped by job and update their logs
+   */
+  private async processClaimed(claimed: Candidate[]) {
+    const runnable = await this.releaseCancelled(claimed);
+    const byJob = new Map<string, Candidate[]>();
+
+    for (const candidate of runnable) {
+      const group = byJob.get(candidate.jobId) || [];
+      group.push(candidate);
+      byJob.set(candidate.jobId, group);
+    }
+
+    for (const [jobId, batch] of byJob) {
+      const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+      if (!job) continue;
+
+      const logIds = Array.from(
+        new Set(batch.map((c) => c.processingLogId).filter((id): id is string => !!id))
+      );
+
+      await prisma.processingLog.updateMany({
+        where: { id: { in: logIds }, status: 'queued' },
+        data: { status: 'in_progress' },
+      });
+
+      console.log(`Screening ${batch.length} candidates for job ${jobId}`);
+
+      const result = await withUsageContext({ userId: job.userId, jobId }, () =>
+        processScreeningBatch(batch, {
+          jobId,
+          userId: job.userId,
+          jobRequirements: {
+            requiredSkills: job.requiredSkills || [],
+            experienceRequired: job.experienceRequired || '0',
+            qualifications: job.qualifications || [],
+          },
+          scoringVersion: scoringVersionFor(job.scoringRevision),
+        })
+      );
+
+      const finished = await prisma.candidate.findMany({
+        where: { id: { in: batch.map((c) => c.id) } },
+        select: { id: true, processingLogId: true, processingStatus: true },
+      });
+      await this.recordResults(finished);
+      await this.embedScreened(
+        job.userId,
+        finished.filter((c) => c.processingStatus === 'completed').map((c) => c.id)
+      );
+
+      console.log(`Batch completed: ${result.processed} processed, ${result.failed} failed`);
+
+      await this.finalizeLogs(logIds);
+    }
+  }
+
+  /**
+   * Return candidates whose run was cancelled after they were queued
+   * (e.g. requeued by stale recovery) to pending, and drop them from the batch
+   */
+  private async releaseCancelled(claimed: Candidate[]): Promise<Candidate[]> {
+    const logIds = Array.from(
+      new Set(claimed.map((c) => c.processingLogId).filter((id): id is string => !!id))
+    );
+
+    const activeLogs = await prisma.processingLog.findMany({
+      where: { id: { in: logIds }, status: { in: ACTIVE_LOG_STATUSES } },
+      select: { id: true },
+    });
+    const activeIds = new Set(activeLogs.map((log) => log.id));
+
+    const released = claimed.filter(
+      (c) => !c.processingLogId || !activeIds.has(c.processingLogId)
+    );
+
+    if (released.length > 0) {
+      await prisma.candidate.updateMany({
+        where: { id: { in: released.map((c) => c.id) } },
+        data: {
+          processingStatus: 'pending',
+          processingLogId: null,
+          processingStage: null,
+          processingStartedAt: null,
+        },
+      });
+
+      console.log(`⏹️ Released ${released.length} candidates from cancelled screening runs`);
+    }
+
+    return claimed.filter((c) => !released.includes(c));
+  }
+
+  /**
+   * Store embeddings for similarity search; a failure only costs a reindex
+   */
+  private async embedScreened(userId: string, candidateIds: string[]) {
+    try {
+      await embeddingService.embedCandidates(userId, EmbeddingSubject.CANDIDATE, candidateIds);
+    } catch (error: any) {
+      console.error('⚠️ Embedding screened candidates failed:', error.message);
+    }
+  }
+
+  /**
+   * Add finished candidates to their processing log counters
+   */
+  private async recordResults(
+    finished: Array<{ processingLogId: string | null; processingStatus: string }>
+  ) {
+    const counters = new Map<string, { processed: number; failed: number }>();
+
+    for (const candidate of finished) {
+      if (!candidate.processingLogId) continue;
+
+      const counter = counters.get(candidate.processingLogId) || { processed: 0, failed: 0 };
+      if (candidate.processingStatus === 'completed') counter.processed++;
+      if (candidate.processingStatus === 'failed') counter.failed++;
+      counters.set(candidate.processingLogId, counter);
+    }
+
+    for (const [logId, counter] of counters) {
+      await prisma.processingLog.update({
+        where: { id: logId },
+        data: {
+          processedResumes: { increment: counter.processed },
+          failedResumes: { increment: counter.failed },
+        },
+      });
+    }
+  }
+
+  /**
+   * Complete logs (and their jobs) once no candidate is left in the queue
+   */
+  private async finalizeLogs(logIds: string[]) {
+    for (const logId of logIds) {
+      const remaining = await prisma.candidate.count({
+        where: {
+          processingLogId: logId,
+          processingStatus: { in: ['queued', 'processing'] },
+        },
+      });
+
+      if (remaining > 0) continue;
+
+      const { count } = await prisma.processingLog.updateMany({
+        where: { id: logId, status: { in: ACTIVE_LOG_STATUSES } },
+        data: { status: 'completed', completedAt: new Date() },
+      });
+
+      if (count === 0) continue;
+
+      const log = await prisma.processingLog.findUnique({ where: { id: logId } });
+      if (!log) continue;
+
+      const otherActive = await this.getActiveLog(log.jobId);
+
+      if (!otherActive) {
+        await prisma.job.update({
+          where: { id: log.jobId },
+          data: { status: 'completed' },
+        });
+      }
+
+      console.log(`✅ Screening run ${logId} completed for job ${log.jobId}`);
+    }
+  }
+
+  /**
+   * Requeue candidates abandoned by a crashed or restarted worker, i.e. whose
+   * heartbeat stopped. Candidates that exhausted their attempts are failed instead
+   */
+  private async recoverStaleCandidates() {
+    const staleThreshold = new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000);
+
+    // Single statement so two workers can never recover the same candidate
+    const recovered = await prisma.$queryRaw<
+      Array<{ processingLogId: string | null; processingStatus: string }>
+    >(Prisma.sql`
+      UPDATE "candidates"
+      SET "processingStatus" = CASE
+            WHEN "processingAttempts" >= ${MAX_ATTEMPTS} THEN 'failed'
+            ELSE 'queued'
+          END,
+          "processingError" = CASE
+            WHEN "processingAttempts" >= ${MAX_ATTEMPTS}
+              THEN ${`Processing timed out after ${MAX_ATTEMPTS} attempts`}
+            ELSE "processingError"
+          END,
+          "processingStage" = CASE
+            WHEN "processingAttempts" >= ${MAX_ATTEMPTS} THEN 'failed'
+            ELSE NULL
+          END,
+          "processingStartedAt" = NULL,
+          "updatedAt" = NOW()
+      WHERE "processingStatus" = 'processing'
+        AND "processingStartedAt" < ${staleThreshold}
+      RETURNING "processingLogId", "processingStatus"
+    `);
+
+    if (recovered.length === 0) return;
+
+    const failed = recovered.filter((c) => c.processingStatus === 'failed');
+
+    console.log(
+      `♻️ Recovered ${recovered.length - failed.length} stale candidates, failed ${failed.length}`
+    );
+
+    await this.recordResults(failed);
+
+    const logIds = Array.from(
+      new Set(recovered.map((c) => c.processingLogId).filter((id): id is string => !!id))
+    );
+    await this.finalizeLogs(logIds);
+  }
+}
+
+// Export singleton instance
+export const screeningQueueService = new ScreeningQueueService();
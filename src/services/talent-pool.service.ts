@@ -0,0 +1,329 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import {
+  TalentRecord,
+  TalentProfile,
+  mergeTalentRecords,
+  matchTalentProfile,
+  buildTalentFacets,
+} from '../lib/talent-pool/profiles';
+import {
+  buildScreeningRecordWhere,
+  buildSourcingRecordWhere,
+  hasRecordFilters,
+  skillListMatchesSql,
+} from '../lib/talent-pool/filters';
+import type { TalentPoolQuery } from '../lib/validations/talent-pool';
+
+// Newest records per candidate type loaded into one search
+const MAX_RECORDS_PER_SOURCE = 5000;
+
+const screeningSelect = {
+  id: true,
+  jobId: true,
+  name: true,
+  email: true,
+  skills: true,
+  experience: true,
+  totalExperienceYears: true,
+  summary: true,
+  matchScore: true,
+  createdAt: true,
+  job: { select: { title: true } },
+} satisfies Prisma.CandidateSelect;
+
+const sourcingSelect = {
+  id: true,
+  sourcingJobId: true,
+  fullName: true,
+  email: true,
+  profileUrl: true,
+  headline: true,
+  currentPosition: true,
+  currentCompany: true,
+  location: true,
+  seniorityLevel: true,
+  experienceYears: true,
+  skills: true,
+  candidateSummary: true,
+  matchScore: true,
+  isScored: true,
+  scrapedAt: true,
+  updatedAt: true,
+  sourcingJob: { select: { title: true } },
+} satisfies Prisma.LinkedInCandidateSelect;
+
+type ScreeningRow = Prisma.CandidateGetPayload<{ select: typeof screeningSelect }>;
+type SourcingRow = Prisma.LinkedInCandidateGetPayload<{ select: typeof sourcingSelect }>;
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function toScreeningRecord(c: ScreeningRow): TalentRecord {
+  // Most recent role comes first in the extracted experience
+  const latestRole = Array.isArray(c.experience) ? (c.experience[0] as any) : null;
+
+  return {
+    source: 'screening',
+    candidateId: c.id,
+    jobId: c.jobId,
+    jobTitle: c.job.title,
+    name: c.name,
+    email: c.email,
+    profileUrl: null,
+    title: latestRole?.role || null,
+    company: latestRole?.company || null,
+    location: null,
+    seniority: null,
+    experienceYears: c.totalExperienceYears,
+    skills: c.skills,
+    summary: c.summary,
+    matchScore: c.matchScore,
+    addedAt: c.createdAt,
+  };
+}
+
+function toSourcingRecord(c: SourcingRow): TalentRecord {
+  return {
+    source: 'sourcing',
+    candidateId: c.id,
+    jobId: c.sourcingJobId,
+    jobTitle: c.sourcingJob.title,
+    name: c.fullName,
+    email: c.email,
+    profileUrl: c.profileUrl,
+    title: c.currentPosition || c.headline,
+    company: c.currentCompany,
+    location: c.location,
+    seniority: c.seniorityLevel,
+    experienceYears: c.experienceYears,
+    skills: asStringArray(c.skills),
+    summary: c.candidateSummary || c.headline,
+    matchScore: c.isScored ? Math.round(c.matchScore) : null,
+    addedAt: c.scrapedAt || c.updatedAt,
+  };
+}
+
+export class TalentPoolService {
+  /**
+   * The user's screened resumes and sourced profiles as pool records, newest
+   * first. With a query, only records that can belong to a matching profile
+   * are loaded, plus the other records of the same people (shared email or
+   * profile URL) so their profiles merge complete.
+   */
+  async loadRecords(
+    userId: string,
+    query?: TalentPoolQuery
+  ): Promise<{ records: TalentRecord[]; truncated: boolean }> {
+    let screeningWhere: Prisma.CandidateWhereInput | null = {
+      job: { userId },
+      processingStatus: 'completed',
+    };
+    let sourcingWhere: Prisma.LinkedInCandidateWhereInput = { sourcingJob: { userId } };
+    let truncated = false;
+
+    if (query) {
+      screeningWhere = buildScreeningRecordWhere(userId, query);
+      sourcingWhere = buildSourcingRecordWhere(userId, query);
+    }
+
+    if (query && query.skills.length > 0) {
+      const [screeningIds, sourcingIds] = await Promise.all([
+        screeningWhere ? this.findScreeningIdsWithSkills(userId, query.skills) : [],
+        this.findSourcingIdsWithSkills(userId, query.skills),
+      ]);
+
+      truncated =
+        screeningIds.length === MAX_RECORDS_PER_SOURCE ||
+        sourcingIds.length === MAX_RECORDS_PER_SOURCE;
+      if (screeningWhere) screeningWhere = { ...screeningWhere, id: { in: screeningIds } };
+      sourcingWhere = { ...sourcingWhere, id: { in: sourcingIds } };
+    }
+
+    const [resumes, profiles] = await Promise.all([
+      screeningWhere
+        ? prisma.candidate.findMany({
+            where: screeningWhere,
+            orderBy: { createdAt: 'desc' },
+            take: MAX_RECORDS_PER_SOURCE,
+            select: screeningSelect,
+          })
+        : [],
+      prisma.linkedInCandidate.findMany({
+        where: sourcingWhere,
+        orderBy: { updatedAt: 'desc' },
+        take: MAX_RECORDS_PER_SOURCE,
+        select: sourcingSelect,
+      }),
+    ]);
+
+    truncated =
+      truncated ||
+      resumes.length === MAX_RECORDS_PER_SOURCE ||
+      profiles.length === MAX_RECORDS_PER_SOURCE;
+
+    const records = [...resumes.map(toScreeningRecord), ...profiles.map(toSourcingRecord)];
+
+    if (query && hasRecordFilters(query)) {
+      records.push(...(await this.findSamePeople(userId, records)));
+    }
+
+    return { records, truncated };
+  }
+
+  /**
+   * Records with the given ids plus the other records of the same people
+   */
+  async loadRecordsById(
+    userId: string,
+    ids: { screening: string[]; sourcing: string[] }
+  ): Promise<TalentRecord[]> {
+    const [resumes, profiles] = await Promise.all([
+      ids.screening.length > 0
+        ? prisma.candidate.findMany({
+            where: { id: { in: ids.screening }, job: { userId }, processingStatus: 'completed' },
+            select: screeningSelect,
+          })
+        : [],
+      ids.sourcing.length > 0
+        ? prisma.linkedInCandidate.findMany({
+            where: { id: { in: ids.sourcing }, sourcingJob: { userId } },
+            select: sourcingSelect,
+          })
+        : [],
+    ]);
+
+    const records = [...resumes.map(toScreeningRecord), ...profiles.map(toSourcingRecord)];
+    return [...records, ...(await this.findSamePeople(userId, records))];
+  }
+
+  /**
+   * Records not in the list that share an email or profile URL with one in it
+   */
+  private async findSamePeople(userId: string, records: TalentRecord[]) {
+    const loaded = new Set(records.map((r) => `${r.source}:${r.candidateId}`));
+    const emails = [...new Set(records.map((r) => r.email?.trim()).filter(Boolean))] as string[];
+    const profileUrls = [...new Set(records.map((r) => r.profileUrl).filter(Boolean))] as string[];
+
+    if (emails.length === 0 && profileUrls.length === 0) return [];
+
+    const [resumes, profiles] = await Promise.all([
+      emails.length > 0
+        ? prisma.candidate.findMany({
+            where: {
+              job: { userId },
+              processingStatus: 'completed',
+              email: { in: emails, mode: 'insensitive' },
+            },
+            select: screeningSelect,
+          })
+        : [],
+      prisma.linkedInCandidate.findMany({
+        where: {
+          sourcingJob: { userId },
+          OR: [
+            ...(emails.length > 0 ? [{ email: { in: emails, mode: 'insensitive' as const } }] : []),
+            ...(profileUrls.length > 0 ? [{ profileUrl: { in: profileUrls } }] : []),
+          ],
+        },
+        select: sourcingSelect,
+      }),
+    ]);
+
+    return [...resumes.map(toScreeningRecord), ...profiles.map(toSourcingRecord)].filter(
+      (r) => !loaded.has(`${r.source}:${r.candidateId}`)
+    );
+  }
+
+  /**
+   * Newest completed resumes listing at least one of the skills
+   */
+  private async findScreeningIdsWithSkills(userId: string, skills: string[]) {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+      SELECT c."id" FROM "candidates" c
+      JOIN "jobs" j ON j."id" = c."jobId"
+      WHERE j."userId" = ${userId}
+        AND c."processingStatus" = 'completed'
+        AND EXISTS (
+          SELECT 1 FROM unnest(c."skills") AS s(skill)
+          WHERE ${skillListMatchesSql(Prisma.sql`s.skill`, skills)}
+        )
+      ORDER BY c."createdAt" DESC
+      LIMIT ${MAX_RECORDS_PER_SOURCE}
+    `);
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Newest sourced profiles listing at least one of the skills; the skills
+   * column is a JSON array as scraped
+   */
+  private async findSourcingIdsWithSkills(userId: string, skills: string[]) {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+      SELECT l."id" FROM "LinkedInCandidate" l
+      JOIN "SourcingJob" sj ON sj."id" = l."sourcingJobId"
+      WHERE sj."userId" = ${userId}
+        AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(l."skills") = 'array' THEN l."skills" ELSE '[]'::jsonb END
+          ) AS s(skill)
+          WHERE ${skillListMatchesSql(Prisma.sql`s.skill`, skills)}
+        )
+      ORDER BY l."updatedAt" DESC
+      LIMIT ${MAX_RECORDS_PER_SOURCE}
+    `);
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Search the user's pool of people across all jobs. Profiles matching more
+   * of the requested skills rank first, then by best match score and recency.
+   */
+  async search(userId: string, query: TalentPoolQuery) {
+    const { records, truncated } = await this.loadRecords(userId, query);
+    const people = mergeTalentRecords(records);
+
+    const matches = people
+      .map((profile) => ({ profile, matched: matchTalentProfile(profile, query) }))
+      .filter((m) => m.matched >= 0)
+      .sort(
+        (a, b) =>
+          b.matched - a.matched ||
+          (b.profile.bestMatchScore ?? -1) - (a.profile.bestMatchScore ?? -1) ||
+          b.profile.lastSeenAt.getTime() - a.profile.lastSeenAt.getTime()
+      );
+
+    const total = matches.length;
+    const start = (query.page - 1) * query.limit;
+
+    return {
+      results: matches
+        .slice(start, start + query.limit)
+        .map(({ profile, matched }) => this.toResult(profile, matched, query)),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+        hasMore: start + query.limit < total,
+      },
+      facets: buildTalentFacets(matches.map((m) => m.profile)),
+      truncated,
+    };
+  }
+
+  private toResult(profile: TalentProfile, matched: number, query: TalentPoolQuery) {
+    const { searchText, ...result } = profile;
+
+    return {
+      ...result,
+      ...(query.skills.length > 0 && { matchedSkillCount: matched }),
+    };
+  }
+}
+
+// Export singleton instance
+export const talentPoolService = new TalentPoolService();
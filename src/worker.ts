@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { screeningQueueService } from './services/screening-queue.service';
+
+// Standalone screening worker - run alongside the API with SCREENING_WORKER_ENABLED=false
+screeningQueueService.startWorker();
+
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, stopping screening worker...`);
+  await screeningQueueService.stopWorker();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));